@@ -1,6 +1,22 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { ABIError } from '../utils/errors.js';
+import { ABISourceType } from '../core/chains.js';
+import { ProxyInfo } from './proxy.js';
+
+/**
+ * Where a cached ABI came from
+ */
+export interface ABISourceRecord {
+  source: ABISourceType | 'manual' | 'inline';
+  /** API base URL of the source */
+  url?: string;
+  /** Path of a manual ABI file */
+  path?: string;
+  /** Sourcify match type */
+  match?: 'full' | 'partial';
+  fetchedAt: string;
+}
 
 /**
  * Get the cache file path for a given address and chain ID
@@ -67,6 +83,70 @@ export function cacheABI(
   }
 }
 
+/**
+ * Get the source a cached ABI was served by
+ * Returns null for ABIs cached before sources were recorded
+ */
+export function getCachedABISource(
+  address: string,
+  chainId: number,
+  cacheDir: string
+): ABISourceRecord | null {
+  try {
+    const sourceFilePath = getCacheFilePath(address, chainId, cacheDir).replace(/\.json$/, '.source.json');
+    if (!fs.existsSync(sourceFilePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(sourceFilePath, 'utf-8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Record the source of a cached ABI, next to the ABI
+ */
+export function cacheABISource(
+  address: string,
+  chainId: number,
+  source: ABISourceRecord,
+  cacheDir: string
+): void {
+  try {
+    const sourceFilePath = getCacheFilePath(address, chainId, cacheDir).replace(/\.json$/, '.source.json');
+    fs.mkdirSync(path.dirname(sourceFilePath), { recursive: true });
+    fs.writeFileSync(sourceFilePath, JSON.stringify(source, null, 2), 'utf-8');
+  } catch (error) {
+    throw new ABIError(
+      `Failed to cache ABI source: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Record the implementations a proxy resolved to, next to its cached ABI
+ */
+export function cacheProxyInfo(
+  address: string,
+  chainId: number,
+  proxy: ProxyInfo,
+  cacheDir: string
+): void {
+  try {
+    const cacheFilePath = getCacheFilePath(address, chainId, cacheDir).replace(/\.json$/, '.proxy.json');
+    fs.mkdirSync(path.dirname(cacheFilePath), { recursive: true });
+    fs.writeFileSync(
+      cacheFilePath,
+      JSON.stringify({ ...proxy, resolvedAt: new Date().toISOString() }, null, 2),
+      'utf-8'
+    );
+  } catch (error) {
+    throw new ABIError(
+      `Failed to cache proxy info: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
 /**
  * Read ABI from a manual file path
  */
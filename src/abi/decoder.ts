@@ -1,6 +1,12 @@
 import { Interface, Log, Result } from 'ethers';
 import { DecodedEvent } from '../core/types.js';
 
+/**
+ * Event name of logs stored raw because the ABI couldn't decode them
+ * Parentheses can't appear in Solidity event names, so it never clashes with a real event.
+ */
+export const UNKNOWN_EVENT_NAME = '(unknown)';
+
 export class EventDecoder {
   constructor(private readonly iface: Interface) {}
 
@@ -47,6 +53,26 @@ export class EventDecoder {
     }
   }
 
+  /**
+   * Wraps a log that couldn't be decoded, keeping its raw topics and data
+   * @param log The event log
+   * @returns DecodedEvent named UNKNOWN_EVENT_NAME
+   */
+  toRawEvent(log: Log): DecodedEvent {
+    return {
+      contractAddress: log.address,
+      blockNumber: log.blockNumber,
+      blockTimestamp: 0, // Will be filled by fetcher later
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      eventName: UNKNOWN_EVENT_NAME,
+      eventData: {
+        topics: [...log.topics],
+        data: log.data,
+      },
+    };
+  }
+
   /**
    * Converts ethers Result object to plain object with proper serialization
    * - BigInt values are converted to strings
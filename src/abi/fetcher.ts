@@ -1,181 +1,211 @@
-import { Interface } from 'ethers';
-import { AbortError } from 'p-retry';
+import { Interface, JsonFragment, Provider } from 'ethers';
 import { ABIError } from '../utils/errors.js';
-import { retry } from '../utils/retry.js';
-import { getCachedABI, cacheABI, readManualABI } from './cache.js';
+import { Logger } from '../utils/logger.js';
+import { ABISourceType, ChainRegistry } from '../core/chains.js';
+import {
+  ABISourceRecord,
+  getCachedABI,
+  cacheABI,
+  cacheABISource,
+  readManualABI,
+  cacheProxyInfo,
+} from './cache.js';
+import { ProxyInfo, detectProxy, mergeABIs } from './proxy.js';
+import { isInlineABI, parseInlineABI } from './inline.js';
+import { ABISource, isJsonABI } from './sources/source.js';
+import { createABISources } from './sources/factory.js';
 
 /**
- * Map of chain IDs to their explorer API base URLs
+ * Source names for error messages
  */
-const EXPLORER_APIS: Record<number, string> = {
-  1: 'https://api.etherscan.io/v2/api',
-  10: 'https://api-optimistic.etherscan.io/api',
-  56: 'https://api.bscscan.com/api',
-  137: 'https://api.polygonscan.com/api',
-  8453: 'https://api.basescan.org/api',
-  42161: 'https://api.arbiscan.io/api',
+const SOURCE_NAMES: Record<ABISourceType, string> = {
+  etherscan: 'Etherscan',
+  sourcify: 'Sourcify',
+  blockscout: 'Blockscout',
 };
 
 /**
- * Timeout for fetch requests in milliseconds
+ * Parse a JSON ABI read from a file
+ * @throws ABIError if it isn't a list of fragments
  */
-const FETCH_TIMEOUT = 30000;
-
-/**
- * Response from Etherscan-like APIs
- */
-interface ExplorerAPIResponse {
-  status: string;
-  message: string;
-  result: string;
+function parseJsonABI(content: string, origin: string): JsonFragment[] {
+  const abi: unknown = JSON.parse(content);
+  if (!isJsonABI(abi)) {
+    throw new ABIError(`Invalid ABI in ${origin}: not a list of fragments`);
+  }
+  return abi;
 }
 
 /**
  * ABIFetcher handles fetching and caching contract ABIs
+ * ABIs are fetched from each chain's ABI sources in order, and the source that served an ABI
+ * is recorded next to it in the cache. With a provider, proxies are detected once per process
+ * and their implementation ABIs are merged with the proxy's own ABI.
  */
 export class ABIFetcher {
   private cacheDir: string;
   private apiKey?: string;
-
-  constructor(cacheDir: string, apiKey?: string) {
+  private chains: ChainRegistry;
+  private logger?: Logger;
+  private proxies: Map<string, ProxyInfo | null> = new Map();
+
+  constructor(
+    cacheDir: string,
+    apiKey?: string,
+    chains: ChainRegistry = new ChainRegistry(),
+    logger?: Logger
+  ) {
     this.cacheDir = cacheDir;
     this.apiKey = apiKey;
+    this.chains = chains;
+    this.logger = logger;
   }
 
   /**
    * Get ABI for a contract address on a specific chain
-   * Supports cache, manual path, and fetching from explorer APIs
+   * Supports cache, manual path or inline fragments, and fetching from the chain's ABI sources.
+   * A manual ABI is used as is; otherwise, if a provider is given and the address is a proxy,
+   * the ABIs of its implementations are merged with the proxy's ABI.
    */
   async getABI(
     address: string,
     chainId: number,
-    manualPath?: string
+    manualABI?: string | string[],
+    provider?: Provider
   ): Promise<Interface> {
     const normalizedAddress = address.toLowerCase();
 
-    // 1. Check if manual path is provided
-    if (manualPath) {
-      const abiContent = readManualABI(manualPath);
-      const abi = JSON.parse(abiContent);
+    // 1. Check if a manual ABI file or inline fragments are provided
+    if (manualABI) {
+      const inline = isInlineABI(manualABI);
+      const abi = inline
+        ? parseInlineABI(manualABI)
+        : parseJsonABI(readManualABI(manualABI as string), `manual ABI file ${manualABI as string}`);
 
-      // Cache the manually loaded ABI
+      // Cache the manually provided ABI
       cacheABI(normalizedAddress, chainId, abi, this.cacheDir);
+      cacheABISource(normalizedAddress, chainId, {
+        source: inline ? 'inline' : 'manual',
+        path: inline ? undefined : manualABI as string,
+        fetchedAt: new Date().toISOString(),
+      }, this.cacheDir);
 
       return new Interface(abi);
     }
 
-    // 2. Check cache
-    const cachedABI = getCachedABI(normalizedAddress, chainId, this.cacheDir);
-    if (cachedABI) {
-      const abi = JSON.parse(cachedABI);
-      return new Interface(abi);
-    }
+    // 2. Resolve proxy implementations
+    const proxy = provider ? await this.getProxyInfo(normalizedAddress, chainId, provider) : null;
+    if (proxy) {
+      const abis: JsonFragment[][] = [];
+      for (const implementation of proxy.implementations) {
+        abis.push(await this.loadABI(implementation, chainId));
+      }
 
-    // 3. Fetch from explorer API
-    const abi = await this.fetchFromExplorer(normalizedAddress, chainId);
+      // Proxies are often unverified themselves; their implementations are what matters
+      try {
+        abis.push(await this.loadABI(normalizedAddress, chainId));
+      } catch (error) {
+        if (!(error instanceof ABIError)) {
+          throw error;
+        }
+        this.logger?.debug({ address: normalizedAddress, error: error.message }, 'Proxy ABI unavailable');
+      }
 
-    // Cache the fetched ABI
-    cacheABI(normalizedAddress, chainId, abi, this.cacheDir);
+      return new Interface(mergeABIs(abis));
+    }
 
-    return new Interface(abi);
+    // 3. Check cache, then fetch from the chain's ABI sources
+    return new Interface(await this.loadABI(normalizedAddress, chainId));
   }
 
   /**
-   * Fetch ABI from explorer API
+   * Detect whether an address is a proxy, once per process
+   * The resolved implementations are recorded next to the cached ABI.
    */
-  private async fetchFromExplorer(
-    address: string,
-    chainId: number
-  ): Promise<any[]> {
-    const explorerAPI = EXPLORER_APIS[chainId];
+  async getProxyInfo(address: string, chainId: number, provider: Provider): Promise<ProxyInfo | null> {
+    const normalizedAddress = address.toLowerCase();
+    const key = `${chainId}:${normalizedAddress}`;
+    if (this.proxies.has(key)) {
+      return this.proxies.get(key)!;
+    }
 
-    if (!explorerAPI) {
-      throw new ABIError(`Unsupported chain ID: ${chainId}`);
+    const proxy = await detectProxy(provider, normalizedAddress);
+    if (proxy) {
+      cacheProxyInfo(normalizedAddress, chainId, proxy, this.cacheDir);
+      this.logger?.info({
+        address: normalizedAddress,
+        chainId,
+        proxyType: proxy.type,
+        implementations: proxy.implementations,
+      }, 'Resolved proxy implementation');
     }
 
-    // Build API URL
-    const url = new URL(explorerAPI);
-    url.searchParams.set('module', 'contract');
-    url.searchParams.set('action', 'getabi');
-    url.searchParams.set('address', address);
-    url.searchParams.set('chainid', String(chainId));
+    this.proxies.set(key, proxy);
+    return proxy;
+  }
 
-    if (this.apiKey) {
-      url.searchParams.set('apikey', this.apiKey);
+  /**
+   * Load an ABI from the cache, or fetch and cache it along with the source that served it
+   */
+  private async loadABI(address: string, chainId: number): Promise<JsonFragment[]> {
+    const cachedABI = getCachedABI(address, chainId, this.cacheDir);
+    if (cachedABI) {
+      return parseJsonABI(cachedABI, `cached ABI of ${address}`);
     }
 
-    // Fetch with retry logic (only retry on network errors, not HTTP errors)
-    const response = await retry(
-      async () => {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
-
-        try {
-          const response = await fetch(url.toString(), {
-            signal: controller.signal,
-            headers: {
-              'User-Agent': 'ChainTap/1.0',
+    const { abi, source } = await this.fetchFromSources(address, chainId);
+    cacheABI(address, chainId, abi, this.cacheDir);
+    cacheABISource(address, chainId, source, this.cacheDir);
+    this.logger?.debug({ address, chainId, source: source.source, url: source.url }, 'Fetched ABI');
+    return abi;
+  }
+
+  /**
+   * Fetch an ABI from the chain's ABI sources, trying each in order until one has it
+   */
+  private async fetchFromSources(
+    address: string,
+    chainId: number
+  ): Promise<{ abi: JsonFragment[]; source: ABISourceRecord }> {
+    const chain = this.chains.getById(chainId);
+    const sources = chain ? createABISources(chain, this.apiKey) : [];
+
+    if (sources.length === 0) {
+      throw new ABIError(
+        `Unsupported chain ID: ${chainId}. Set explorer_api or abi_sources for the chain or provide manual ABI path in config.`
+      );
+    }
+
+    const failures: Array<{ source: ABISource; error: unknown }> = [];
+    for (const source of sources) {
+      try {
+        const result = await source.fetchABI(address, chainId);
+        if (result) {
+          return {
+            abi: result.abi,
+            source: {
+              source: source.type,
+              url: source.url,
+              match: result.match,
+              fetchedAt: new Date().toISOString(),
             },
-          });
-
-          clearTimeout(timeoutId);
-
-          if (!response.ok) {
-            // HTTP errors should not be retried - throw p-retry's AbortError
-            throw new AbortError(
-              `HTTP error ${response.status}: ${response.statusText}`
-            );
-          }
-
-          return response;
-        } catch (error) {
-          clearTimeout(timeoutId);
-          if (error instanceof AbortError) {
-            throw error;
-          }
-          // Network errors can be retried
-          throw error;
+          };
         }
-      },
-      {
-        retries: 5,
-        operationName: 'fetch ABI from explorer',
-        minTimeout: 1000,
-        maxTimeout: 30000,
+      } catch (error) {
+        failures.push({ source, error });
       }
-    );
-
-    // Parse JSON response
-    const data = (await response.json()) as ExplorerAPIResponse;
-
-    // Check if request was successful
-    if (data.status !== '1') {
-      // Check for common error messages indicating unverified contract
-      const errorMessage = data.result.toLowerCase();
-      if (
-        errorMessage.includes('not verified') ||
-        errorMessage.includes('source code not verified')
-      ) {
-        // Don't retry for verification errors - throw immediately
-        const error = new ABIError(
-          'Contract ABI not verified on Etherscan. Provide manual ABI path in config.'
-        );
-        // Mark as non-retryable by adding a special property
-        (error as Error & { skipRetry?: boolean }).skipRetry = true;
-        throw error;
-      }
-
-      throw new ABIError(`Explorer API error: ${data.result}`);
     }
 
-    // Parse ABI from result
-    try {
-      const abi = JSON.parse(data.result);
-      return abi;
-    } catch (error) {
-      throw new ABIError(
-        `Failed to parse ABI: ${error instanceof Error ? error.message : String(error)}`
-      );
+    if (failures.length === 0) {
+      const names = sources.map(source => SOURCE_NAMES[source.type]).join(', ');
+      throw new ABIError(`Contract ABI not verified on ${names}. Provide manual ABI path in config.`);
     }
+    if (sources.length === 1) {
+      throw failures[0].error;
+    }
+
+    throw new ABIError(`Failed to fetch ABI: ${failures.map(({ source, error }) =>
+      `${source.type}: ${error instanceof Error ? error.message : String(error)}`
+    ).join('; ')}`);
   }
 }
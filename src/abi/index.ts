@@ -1,2 +1,18 @@
 export { ABIFetcher } from './fetcher.js';
-export { getCachedABI, cacheABI, readManualABI } from './cache.js';
+export type { ABISourceRecord } from './cache.js';
+export {
+  getCachedABI,
+  getCachedABISource,
+  cacheABI,
+  cacheABISource,
+  cacheProxyInfo,
+  readManualABI,
+} from './cache.js';
+export { isInlineABI, parseInlineABI } from './inline.js';
+export { detectProxy, mergeABIs } from './proxy.js';
+export type { ProxyInfo, ProxyType } from './proxy.js';
+export type { ABISource, ABISourceResult } from './sources/source.js';
+export { EtherscanSource } from './sources/etherscan.js';
+export { SourcifySource, SOURCIFY_URL } from './sources/sourcify.js';
+export { BlockscoutSource } from './sources/blockscout.js';
+export { createABISources } from './sources/factory.js';
@@ -0,0 +1,32 @@
+import { Fragment, JsonFragment } from 'ethers';
+import { ABIError } from '../utils/errors.js';
+
+/**
+ * Human-readable fragments start with their kind, like `event Transfer(...)`
+ */
+const FRAGMENT_REGEX = /^\s*(event|function|error|constructor|fallback|receive)\b/;
+
+/**
+ * Whether an `abi` config value holds inline fragments rather than a file path
+ * A list is always fragments; a single string is one if it starts with a fragment kind.
+ */
+export function isInlineABI(abi: string | string[]): boolean {
+  return Array.isArray(abi) || FRAGMENT_REGEX.test(abi);
+}
+
+/**
+ * Parse human-readable fragments into a JSON ABI
+ * @throws ABIError if a fragment can't be parsed
+ */
+export function parseInlineABI(abi: string | string[]): JsonFragment[] {
+  const fragments = Array.isArray(abi) ? abi : [abi];
+
+  try {
+    // Interface skips fragments it can't parse, so parse each one on its own
+    return fragments.map(fragment => JSON.parse(Fragment.from(fragment).format('json')) as JsonFragment);
+  } catch (error) {
+    throw new ABIError(
+      `Invalid ABI fragment: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
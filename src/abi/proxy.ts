@@ -0,0 +1,133 @@
+import { Interface, InterfaceAbi, JsonFragment, Provider, dataSlice, getAddress, isError, zeroPadValue } from 'ethers';
+
+/**
+ * EIP-1967 storage slot holding the implementation address
+ * bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+ */
+export const EIP1967_IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+/**
+ * EIP-1967 storage slot holding the beacon address
+ * bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1)
+ */
+export const EIP1967_BEACON_SLOT =
+  '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+
+/**
+ * EIP-1822 (UUPS) storage slot holding the implementation address
+ * keccak256('PROXIABLE')
+ */
+export const EIP1822_PROXIABLE_SLOT =
+  '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7';
+
+const beaconInterface = new Interface(['function implementation() view returns (address)']);
+const loupeInterface = new Interface(['function facetAddresses() view returns (address[])']);
+
+export type ProxyType = 'eip1967' | 'beacon' | 'eip1822' | 'diamond';
+
+/**
+ * Implementation contracts a proxy delegates to
+ */
+export interface ProxyInfo {
+  type: ProxyType;
+  /** Implementation addresses, lowercase; one per facet for diamonds */
+  implementations: string[];
+  /** Beacon the implementation was read from, for beacon proxies */
+  beacon?: string;
+}
+
+/**
+ * Detect whether an address is a proxy and resolve its implementation at the latest block
+ * Checks the EIP-1967 implementation and beacon slots, the EIP-1822 slot and the EIP-2535
+ * diamond loupe, in that order. Returns null if the address is not a recognized proxy.
+ */
+export async function detectProxy(provider: Provider, address: string): Promise<ProxyInfo | null> {
+  const implementation = await readAddressSlot(provider, address, EIP1967_IMPLEMENTATION_SLOT);
+  if (implementation) {
+    return { type: 'eip1967', implementations: [implementation] };
+  }
+
+  const beacon = await readAddressSlot(provider, address, EIP1967_BEACON_SLOT);
+  if (beacon) {
+    const result = await callView(provider, beacon, beaconInterface, 'implementation');
+    const beaconImplementation = result ? toNonZeroAddress(result[0]) : null;
+    if (beaconImplementation) {
+      return { type: 'beacon', implementations: [beaconImplementation], beacon };
+    }
+  }
+
+  const proxiable = await readAddressSlot(provider, address, EIP1822_PROXIABLE_SLOT);
+  if (proxiable) {
+    return { type: 'eip1822', implementations: [proxiable] };
+  }
+
+  const facets = await callView(provider, address, loupeInterface, 'facetAddresses');
+  if (facets) {
+    const implementations = [...new Set(
+      (facets[0] as string[]).map(toNonZeroAddress).filter((facet): facet is string => facet !== null)
+    )];
+    if (implementations.length > 0) {
+      return { type: 'diamond', implementations };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Merge ABIs into one, keeping the first occurrence of each fragment
+ * Pass implementation ABIs first so their definitions win over the proxy's.
+ */
+export function mergeABIs(abis: InterfaceAbi[]): JsonFragment[] {
+  const merged: JsonFragment[] = [];
+  const seen = new Set<string>();
+
+  for (const abi of abis) {
+    for (const fragment of new Interface(abi).fragments) {
+      // Constructor, fallback and receive may only appear once
+      const key = 'name' in fragment ? `${fragment.type} ${fragment.format('sighash')}` : fragment.type;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      merged.push(JSON.parse(fragment.format('json')) as JsonFragment);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Read an address from a storage slot, or null if the slot is empty
+ */
+async function readAddressSlot(provider: Provider, address: string, slot: string): Promise<string | null> {
+  const value = await provider.getStorage(address, slot);
+  return toNonZeroAddress(dataSlice(zeroPadValue(value, 32), 12));
+}
+
+/**
+ * Call a view function, or return null if the contract doesn't implement it
+ * Network errors are rethrown so they aren't mistaken for "not a proxy".
+ */
+async function callView(
+  provider: Provider,
+  address: string,
+  iface: Interface,
+  functionName: string
+): Promise<ReturnType<Interface['decodeFunctionResult']> | null> {
+  try {
+    const data = await provider.call({ to: address, data: iface.encodeFunctionData(functionName) });
+    return iface.decodeFunctionResult(functionName, data);
+  } catch (error) {
+    if (isError(error, 'CALL_EXCEPTION') || isError(error, 'BAD_DATA')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function toNonZeroAddress(value: string): string | null {
+  const address = getAddress(value).toLowerCase();
+  return BigInt(address) === 0n ? null : address;
+}
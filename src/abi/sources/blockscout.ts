@@ -0,0 +1,34 @@
+import { ABIError } from '../../utils/errors.js';
+import { ABISource, ABISourceResult, fetchJSON, isJsonABI } from './source.js';
+
+/**
+ * Smart contract response of the Blockscout v2 REST API
+ */
+interface BlockscoutContractResponse {
+  /** null for contracts that are not verified */
+  abi?: unknown;
+}
+
+/**
+ * BlockscoutSource fetches ABIs from a Blockscout instance's REST API
+ * The URL is the instance's root, such as https://eth.blockscout.com.
+ */
+export class BlockscoutSource implements ABISource {
+  readonly type = 'blockscout';
+
+  constructor(readonly url: string) {}
+
+  async fetchABI(address: string): Promise<ABISourceResult | null> {
+    const url = `${this.url.replace(/\/$/, '')}/api/v2/smart-contracts/${address}`;
+    const data = await fetchJSON(url, 'fetch ABI from Blockscout', { notFoundAsNull: true }) as BlockscoutContractResponse | null;
+
+    if (!data || data.abi === undefined || data.abi === null) {
+      return null;
+    }
+    if (!isJsonABI(data.abi)) {
+      throw new ABIError('Blockscout response has an invalid ABI');
+    }
+
+    return { abi: data.abi };
+  }
+}
@@ -0,0 +1,71 @@
+import { ABIError } from '../../utils/errors.js';
+import { ABISource, ABISourceResult, fetchJSON, isJsonABI } from './source.js';
+
+/**
+ * Response from Etherscan-like APIs
+ */
+interface ExplorerAPIResponse {
+  status: unknown;
+  message: unknown;
+  /** ABI as a JSON string, or an error message */
+  result: unknown;
+}
+
+/**
+ * EtherscanSource fetches ABIs from an Etherscan-compatible `getabi` API
+ */
+export class EtherscanSource implements ABISource {
+  readonly type = 'etherscan';
+
+  constructor(
+    readonly url: string,
+    private apiKey?: string
+  ) {}
+
+  async fetchABI(address: string, chainId: number): Promise<ABISourceResult | null> {
+    // Build API URL
+    const url = new URL(this.url);
+    url.searchParams.set('module', 'contract');
+    url.searchParams.set('action', 'getabi');
+    url.searchParams.set('address', address);
+    url.searchParams.set('chainid', String(chainId));
+
+    if (this.apiKey) {
+      url.searchParams.set('apikey', this.apiKey);
+    }
+
+    const data = await fetchJSON(url.toString(), 'fetch ABI from explorer') as ExplorerAPIResponse | null;
+    if (!data || typeof data.result !== 'string') {
+      throw new ABIError('Explorer API response has no result');
+    }
+
+    // Check if request was successful
+    if (data.status !== '1') {
+      // Check for common error messages indicating unverified contract
+      const errorMessage = data.result.toLowerCase();
+      if (
+        errorMessage.includes('not verified') ||
+        errorMessage.includes('source code not verified')
+      ) {
+        return null;
+      }
+
+      throw new ABIError(`Explorer API error: ${data.result}`);
+    }
+
+    // Parse ABI from result
+    let abi: unknown;
+    try {
+      abi = JSON.parse(data.result);
+    } catch (error) {
+      throw new ABIError(
+        `Failed to parse ABI: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!isJsonABI(abi)) {
+      throw new ABIError('Failed to parse ABI: not a list of fragments');
+    }
+
+    return { abi };
+  }
+}
@@ -0,0 +1,35 @@
+import { ChainDefinition } from '../../core/chains.js';
+import { ABIError } from '../../utils/errors.js';
+import { ABISource } from './source.js';
+import { EtherscanSource } from './etherscan.js';
+import { SourcifySource } from './sourcify.js';
+import { BlockscoutSource } from './blockscout.js';
+
+/**
+ * Create the ABI sources of a chain, in the order they are tried
+ * Without `abi_sources`, the chain's explorer API is the only source.
+ */
+export function createABISources(chain: ChainDefinition, apiKey?: string): ABISource[] {
+  const definitions = chain.abiSources ?? (chain.explorerApi ? [{ type: 'etherscan' as const }] : []);
+
+  return definitions.map(definition => {
+    switch (definition.type) {
+      case 'etherscan': {
+        const url = definition.url ?? chain.explorerApi;
+        if (!url) {
+          throw new ABIError(
+            `Chain ${chain.name} has an etherscan ABI source but no URL. Set explorer_api for the chain or a url for the source.`
+          );
+        }
+        return new EtherscanSource(url, apiKey);
+      }
+      case 'sourcify':
+        return new SourcifySource(definition.url);
+      case 'blockscout':
+        if (!definition.url) {
+          throw new ABIError(`Chain ${chain.name} has a blockscout ABI source without a url`);
+        }
+        return new BlockscoutSource(definition.url);
+    }
+  });
+}
@@ -0,0 +1,92 @@
+import { JsonFragment } from 'ethers';
+import { AbortError } from 'p-retry';
+import { ABISourceType } from '../../core/chains.js';
+import { retry } from '../../utils/retry.js';
+
+/**
+ * Timeout for fetch requests in milliseconds
+ */
+const FETCH_TIMEOUT = 30000;
+
+/**
+ * A verified ABI and how well the source matched it to the deployed bytecode
+ */
+export interface ABISourceResult {
+  abi: JsonFragment[];
+  /** Sourcify's full (exact) or partial (metadata differs) match */
+  match?: 'full' | 'partial';
+}
+
+/**
+ * ABISource fetches verified ABIs from one service
+ */
+export interface ABISource {
+  readonly type: ABISourceType;
+  /** API base URL */
+  readonly url: string;
+  /**
+   * Fetch the verified ABI of a contract
+   * @returns The ABI, or null if the contract is not verified with this source
+   * @throws ABIError or a network error if the source can't answer
+   */
+  fetchABI(address: string, chainId: number): Promise<ABISourceResult | null>;
+}
+
+/**
+ * Whether a parsed JSON value is a JSON ABI, a list of fragment objects
+ */
+export function isJsonABI(value: unknown): value is JsonFragment[] {
+  return Array.isArray(value) && value.every(
+    fragment => typeof fragment === 'object' && fragment !== null && !Array.isArray(fragment)
+  );
+}
+
+/**
+ * GET a JSON document, retrying network errors but not HTTP errors
+ * The body is left for the caller to validate.
+ * @returns The parsed body, or null for 404 if notFoundAsNull is set
+ */
+export async function fetchJSON(
+  url: string,
+  operationName: string,
+  options: { notFoundAsNull?: boolean } = {}
+): Promise<unknown> {
+  const response = await retry(
+    async () => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+      try {
+        const response = await fetch(url, {
+          signal: controller.signal,
+          headers: {
+            'User-Agent': 'ChainTap/1.0',
+          },
+        });
+
+        if (!response.ok && !(options.notFoundAsNull && response.status === 404)) {
+          // HTTP errors should not be retried - throw p-retry's AbortError
+          throw new AbortError(
+            `HTTP error ${response.status}: ${response.statusText}`
+          );
+        }
+
+        return response;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+    {
+      retries: 5,
+      operationName,
+      minTimeout: 1000,
+      maxTimeout: 30000,
+    }
+  );
+
+  if (response.status === 404 && options.notFoundAsNull) {
+    return null;
+  }
+
+  return (await response.json()) as unknown;
+}
@@ -0,0 +1,40 @@
+import { getAddress } from 'ethers';
+import { ABIError } from '../../utils/errors.js';
+import { ABISource, ABISourceResult, fetchJSON, isJsonABI } from './source.js';
+
+/**
+ * Public Sourcify server
+ */
+export const SOURCIFY_URL = 'https://sourcify.dev/server';
+
+/**
+ * Contract lookup response of the Sourcify v2 API
+ */
+interface SourcifyContractResponse {
+  /** exact_match for a full match, match for a partial one, null if not verified */
+  match: 'exact_match' | 'match' | null;
+  abi?: unknown;
+}
+
+/**
+ * SourcifySource fetches ABIs of contracts verified on Sourcify, with a full or partial match
+ */
+export class SourcifySource implements ABISource {
+  readonly type = 'sourcify';
+
+  constructor(readonly url: string = SOURCIFY_URL) {}
+
+  async fetchABI(address: string, chainId: number): Promise<ABISourceResult | null> {
+    const url = `${this.url.replace(/\/$/, '')}/v2/contract/${chainId}/${getAddress(address)}?fields=abi`;
+    const data = await fetchJSON(url, 'fetch ABI from Sourcify', { notFoundAsNull: true }) as SourcifyContractResponse | null;
+
+    if (!data || data.match === null) {
+      return null;
+    }
+    if (!isJsonABI(data.abi)) {
+      throw new ABIError('Sourcify response has no valid ABI');
+    }
+
+    return { abi: data.abi, match: data.match === 'exact_match' ? 'full' : 'partial' };
+  }
+}
@@ -1,11 +1,42 @@
 import { Command } from 'commander';
-import { loadConfigFile } from '../config.js';
-import { SQLiteAdapter } from '../../storage/sqlite.js';
-import { ProviderPool } from '../../providers/provider-pool.js';
+import {
+  loadConfigFile,
+  getChainSettings,
+  getContractChain,
+  parseChain,
+  resolveContractAddress,
+  Chain,
+  Config,
+  ContractConfig,
+} from '../config.js';
+import { StorageAdapter } from '../../storage/adapter.js';
+import { createStorageAdapter, describeDatabase } from '../../storage/factory.js';
+import { createProviderPools } from '../../providers/factory.js';
 import { Indexer } from '../../core/indexer.js';
+import { EventSink } from '../../sinks/sink.js';
+import { createEventSinks } from '../../sinks/factory.js';
+import { MetricsServer } from '../../server/metrics-server.js';
+import { parsePort } from './serve.js';
+import { Metrics } from '../../utils/metrics.js';
 import { createLogger } from '../../utils/logger.js';
 import { ConfigError, RPCError, StorageError } from '../../utils/errors.js';
 
+/**
+ * Number of events stored for a contract on its chain
+ * Events are stored with checksummed addresses, which event filters match exactly.
+ */
+export async function countContractEvents(
+  storage: StorageAdapter,
+  config: Config,
+  contractConfig: ContractConfig
+): Promise<number> {
+  const { chainId } = getChainSettings(config, getContractChain(config, contractConfig));
+  return storage.countEvents({
+    chainId,
+    contractAddress: resolveContractAddress(config, contractConfig.address),
+  });
+}
+
 /**
  * Create the backfill command
  */
@@ -17,30 +48,64 @@ export function createBackfillCommand(): Command {
     .requiredOption('--from-block <number>', 'Starting block number', parseInt)
     .requiredOption('--to-block <number|latest>', 'Ending block number or "latest"')
     .option('-c, --config <path>', 'Path to configuration file', './chaintap.yaml')
+    .option('--concurrency <number>', 'Block ranges fetched in parallel (overrides options.concurrency)')
+    .option('--chain <chain>', 'Only backfill contracts on this chain')
+    .option('--restart', 'Ignore checkpoints from a previous run of the same range', false)
+    .option('--metrics [port]', 'Expose Prometheus metrics at /metrics (default port: 9464)')
+    .option('--host <host>', 'Host for the metrics endpoint to bind to', '127.0.0.1')
     .option('-v, --verbose', 'Enable verbose logging', false)
     .action(async (options) => {
       const logger = createLogger(options.verbose);
-      let storage: SQLiteAdapter | null = null;
+      let storage: StorageAdapter | null = null;
+      let sinks: EventSink[] = [];
+      let metricsServer: MetricsServer | null = null;
 
       try {
         // Load configuration
         logger.info({ configPath: options.config }, 'Loading configuration');
         const config = loadConfigFile(options.config);
 
+        if (options.concurrency !== undefined) {
+          const concurrency = Number(options.concurrency);
+          if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new ConfigError('--concurrency must be a positive integer');
+          }
+          config.options.concurrency = concurrency;
+        }
+
         // Initialize storage
-        logger.info({ dbPath: config.database.path }, 'Initializing database');
-        storage = new SQLiteAdapter(config.database.path);
+        logger.info({ database: describeDatabase(config.database) }, 'Initializing database');
+        storage = createStorageAdapter(config.database);
         await storage.init();
 
-        // Initialize provider pool
+        // Initialize one provider pool per chain
+        const providerPools = createProviderPools(config);
         logger.info(
-          { providerCount: config.providers.length },
-          'Initializing provider pool'
+          { chains: [...providerPools.keys()] },
+          'Initializing provider pools'
+        );
+
+        // Optionally expose Prometheus metrics while the backfill runs
+        let metrics: Metrics | undefined;
+        if (options.metrics !== undefined) {
+          const port = parsePort(options.metrics === true ? '9464' : options.metrics);
+          metrics = new Metrics();
+          metrics.addProviderPools(providerPools);
+          metricsServer = new MetricsServer(metrics, logger, { port, host: options.host });
+          await metricsServer.start();
+        }
+
+        // Restrict the backfill to one chain if requested
+        const onlyChain: Chain | undefined = options.chain !== undefined
+          ? parseChain(config, options.chain)
+          : undefined;
+        if (onlyChain && !providerPools.has(onlyChain)) {
+          throw new ConfigError(`No contracts are configured on chain "${onlyChain}"`);
+        }
+        const chains = onlyChain ? [onlyChain] : [...providerPools.keys()];
+        const contracts = config.contracts.filter(contract =>
+          chains.includes(getContractChain(config, contract))
         );
-        const providerPool = new ProviderPool(config.providers, {
-          failureThreshold: 3,
-          cooldownPeriod: 30000,
-        });
 
         // Parse from block
         const fromBlock = options.fromBlock;
@@ -48,35 +113,47 @@ export function createBackfillCommand(): Command {
           throw new ConfigError('--from-block must be a non-negative integer');
         }
 
-        // Parse to block
-        let toBlock: number;
-        if (options.toBlock === 'latest') {
-          const provider = await providerPool.getProvider();
-          try {
-            toBlock = await provider.provider.getBlockNumber();
-            await providerPool.reportSuccess(provider.id);
-            logger.info({ toBlock }, 'Using latest block');
-          } catch (error) {
-            await providerPool.reportFailure(provider.id, error as Error);
-            throw new RPCError(
-              `Failed to get latest block number: ${error instanceof Error ? error.message : String(error)}`,
-              provider.id
-            );
+        // Parse to block, resolving "latest" separately for each chain
+        const toBlocks = new Map<Chain, number>();
+        for (const chain of chains) {
+          let toBlock: number;
+          if (options.toBlock === 'latest') {
+            const providerPool = providerPools.get(chain)!;
+            const provider = await providerPool.getProvider();
+            try {
+              toBlock = await provider.provider.getBlockNumber();
+              await providerPool.reportSuccess(provider.id);
+              metrics?.observeChainHead(chain, toBlock);
+              logger.info({ chain, toBlock }, 'Using latest block');
+            } catch (error) {
+              await providerPool.reportFailure(provider.id, error as Error);
+              throw new RPCError(
+                `Failed to get latest block number: ${error instanceof Error ? error.message : String(error)}`,
+                provider.id
+              );
+            }
+          } else {
+            toBlock = parseInt(options.toBlock);
+            if (isNaN(toBlock) || toBlock < 0) {
+              throw new ConfigError('--to-block must be a non-negative integer or "latest"');
+            }
           }
-        } else {
-          toBlock = parseInt(options.toBlock);
-          if (isNaN(toBlock) || toBlock < 0) {
-            throw new ConfigError('--to-block must be a non-negative integer or "latest"');
+
+          // Validate block range
+          if (fromBlock > toBlock) {
+            throw new ConfigError('--from-block must be less than or equal to --to-block');
           }
+          toBlocks.set(chain, toBlock);
         }
 
-        // Validate block range
-        if (fromBlock > toBlock) {
-          throw new ConfigError('--from-block must be less than or equal to --to-block');
+        // Start event sinks, delivering batches queued by earlier runs too
+        sinks = createEventSinks(config, storage, logger);
+        for (const sink of sinks) {
+          await sink.start();
         }
 
         // Create indexer
-        const indexer = new Indexer(config, storage, providerPool, logger);
+        const indexer = new Indexer(config, storage, providerPools, logger, sinks, metrics);
 
         // Track progress
         const startTime = Date.now();
@@ -85,38 +162,29 @@ export function createBackfillCommand(): Command {
 
         logger.info({
           fromBlock,
-          toBlock,
-          blockRange: toBlock - fromBlock + 1,
-          contracts: config.contracts.length,
+          toBlock: Object.fromEntries(toBlocks),
+          contracts: contracts.length,
         }, 'Starting backfill');
 
-        // Backfill each contract
-        for (const contractConfig of config.contracts) {
+        // Backfill a single contract from the given block to its chain's toBlock
+        const backfillContract = async (contractConfig: ContractConfig, startBlock: number) => {
           const contractName = contractConfig.name || contractConfig.address;
-          logger.info({ contract: contractName }, 'Backfilling contract');
+          const { chain } = getChainSettings(config, getContractChain(config, contractConfig));
+          const toBlock = toBlocks.get(chain)!;
+          logger.info({ contract: contractName, chain }, 'Backfilling contract');
 
           try {
-            // Get initial event count
-            const initialCount = await storage.queryEvents({
-              contractAddress: contractConfig.address.toLowerCase(),
-            });
-            const initialEventCount = initialCount.length;
-
-            // Index blocks for this contract
-            await indexer.indexBlocks(contractConfig, fromBlock, toBlock);
-
-            // Get final event count
-            const finalCount = await storage.queryEvents({
-              contractAddress: contractConfig.address.toLowerCase(),
+            // Index blocks for this contract, resuming a previous run of the same range
+            const { newEvents } = await indexer.backfill(contractConfig, startBlock, toBlock, {
+              restart: options.restart,
+              openEnded: options.toBlock === 'latest',
             });
-            const finalEventCount = finalCount.length;
-            const newEvents = finalEventCount - initialEventCount;
             totalEvents += newEvents;
 
             logger.info({
               contract: contractName,
               newEvents,
-              totalEvents: finalEventCount,
+              totalEvents: await countContractEvents(storage!, config, contractConfig),
             }, 'Contract backfill complete');
 
             // Progress report every 5 seconds
@@ -142,15 +210,31 @@ export function createBackfillCommand(): Command {
             }, 'Failed to backfill contract');
             throw error;
           }
+        };
+
+        // Backfill each contract
+        for (const contractConfig of contracts) {
+          await backfillContract(contractConfig, fromBlock);
+        }
+
+        // Backfill child contracts discovered from factory events, from their creation block
+        const children = await indexer.getChildContractConfigs();
+        for (const childConfig of children) {
+          const toBlock = toBlocks.get(getContractChain(config, childConfig));
+          const childFromBlock = Math.max(fromBlock, childConfig.from_block ?? fromBlock);
+          if (toBlock !== undefined && childFromBlock <= toBlock) {
+            await backfillContract(childConfig, childFromBlock);
+          }
         }
 
         // Final summary
         const duration = (Date.now() - startTime) / 1000;
-        const blocksProcessed = toBlock - fromBlock + 1;
+        const blocksProcessed = [...toBlocks.values()]
+          .reduce((sum, toBlock) => sum + toBlock - fromBlock + 1, 0);
 
         logger.info({
           fromBlock,
-          toBlock,
+          toBlock: Object.fromEntries(toBlocks),
           blocksProcessed,
           totalEvents,
           duration: `${duration.toFixed(2)}s`,
@@ -158,11 +242,26 @@ export function createBackfillCommand(): Command {
           blocksPerSecond: (blocksProcessed / duration).toFixed(2),
         }, 'Backfill complete');
 
+        // Stop sinks; undelivered batches stay queued for the next run
+        for (const sink of sinks) {
+          await sink.stop();
+        }
+
+        if (metricsServer) {
+          await metricsServer.stop();
+        }
+
         // Close storage
         await storage.close();
         process.exit(0);
 
       } catch (error) {
+        for (const sink of sinks) {
+          await sink.stop();
+        }
+        if (metricsServer) {
+          await metricsServer.stop();
+        }
         if (storage) {
           await storage.close();
         }
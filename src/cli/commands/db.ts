@@ -0,0 +1,121 @@
+import { Command } from 'commander';
+import { existsSync } from 'node:fs';
+import Database from 'better-sqlite3';
+import { loadConfigFile } from '../config.js';
+import {
+  Migration,
+  SQLITE_MIGRATIONS,
+  getPendingMigrations,
+  getSchemaVersion,
+  runMigrations,
+} from '../../storage/migrations/index.js';
+import { createLogger } from '../../utils/logger.js';
+import { ConfigError, StorageError } from '../../utils/errors.js';
+
+export interface MigrationResult {
+  /** Schema version before migrating */
+  fromVersion: number;
+  /** Migrations applied, or the ones that would be applied with dryRun */
+  migrations: Migration[];
+  dryRun: boolean;
+}
+
+/**
+ * Apply the pending migrations of a SQLite database, or only list them with dryRun
+ * A dry run never creates the database file.
+ */
+export function migrateSQLiteDatabase(path: string, options: { dryRun?: boolean } = {}): MigrationResult {
+  const dryRun = options.dryRun ?? false;
+  if (dryRun && path !== ':memory:' && !existsSync(path)) {
+    return { fromVersion: 0, migrations: SQLITE_MIGRATIONS, dryRun };
+  }
+
+  let db: Database.Database | null = null;
+  try {
+    db = new Database(path);
+    const fromVersion = getSchemaVersion(db);
+    const migrations = dryRun ? getPendingMigrations(db) : runMigrations(db);
+    return { fromVersion, migrations, dryRun };
+  } catch (error) {
+    if (error instanceof StorageError) {
+      throw error;
+    }
+    throw new StorageError(
+      `Failed to migrate database: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    db?.close();
+  }
+}
+
+/**
+ * Format a migration result as plain text
+ */
+export function formatMigrationText(result: MigrationResult): string {
+  const { fromVersion, migrations, dryRun } = result;
+  if (migrations.length === 0) {
+    return `Schema is up to date (version ${fromVersion})`;
+  }
+
+  const toVersion = migrations[migrations.length - 1].version;
+  const lines = [dryRun
+    ? `${migrations.length} pending migration(s), schema version ${fromVersion} -> ${toVersion}:`
+    : `Applied ${migrations.length} migration(s), schema version ${fromVersion} -> ${toVersion}:`];
+  for (const migration of migrations) {
+    lines.push(`  ${migration.version}  ${migration.description}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Create the db command
+ */
+export function createDbCommand(): Command {
+  const command = new Command('db');
+
+  command.description('Manage the database schema');
+
+  command
+    .command('migrate')
+    .description(`Apply pending schema migrations (latest version: ${SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version})`)
+    .option('-c, --config <path>', 'Path to configuration file', './chaintap.yaml')
+    .option('--dry-run', 'List pending migrations without applying them', false)
+    .option('-v, --verbose', 'Enable verbose logging', false)
+    .action(async (options) => {
+      const logger = createLogger(options.verbose);
+
+      try {
+        // Load configuration
+        logger.debug({ configPath: options.config }, 'Loading configuration');
+        const config = loadConfigFile(options.config);
+
+        if (config.database.type !== 'sqlite') {
+          throw new ConfigError('Schema migrations are only supported for SQLite databases');
+        }
+
+        logger.debug({ database: config.database.path, dryRun: options.dryRun }, 'Migrating database');
+        console.log(formatMigrationText(migrateSQLiteDatabase(config.database.path, { dryRun: options.dryRun })));
+        process.exit(0);
+
+      } catch (error) {
+        if (error instanceof ConfigError) {
+          logger.error({ error: error.message }, 'Configuration error');
+          console.error('\nError:', error.message);
+          process.exit(1);
+        } else if (error instanceof StorageError) {
+          logger.error({ error: error.message }, 'Storage error');
+          console.error('\nError:', error.message);
+          process.exit(3);
+        } else {
+          logger.error({
+            error: error instanceof Error ? error.message : String(error),
+          }, 'Unexpected error');
+          console.error('\nError:', error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+      }
+    });
+
+  return command;
+}
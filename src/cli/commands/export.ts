@@ -0,0 +1,133 @@
+import { Command } from 'commander';
+import { loadConfigFile, getChainId, resolveContractAddress } from '../config.js';
+import { collect, parseArgPredicates, parseNonNegativeInt } from './query.js';
+import { EventFilter, StorageAdapter } from '../../storage/adapter.js';
+import { createStorageAdapter, describeDatabase } from '../../storage/factory.js';
+import { EXPORT_FORMATS, ExportFormat } from '../../export/writers.js';
+import {
+  DEFAULT_PARTITION_BLOCKS,
+  EXPORT_PARTITIONS,
+  ExportPartition,
+  exportEvents,
+} from '../../export/exporter.js';
+import { createLogger } from '../../utils/logger.js';
+import { ConfigError, StorageError } from '../../utils/errors.js';
+
+/**
+ * Parse --partition-by into partitions, e.g. "event,block"
+ */
+export function parsePartitions(value: string | undefined): ExportPartition[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  const partitions = value.split(',').map(partition => partition.trim());
+  for (const partition of partitions) {
+    if (!EXPORT_PARTITIONS.includes(partition as ExportPartition)) {
+      throw new ConfigError(`--partition-by must be a comma-separated list of: ${EXPORT_PARTITIONS.join(', ')}`);
+    }
+  }
+  return partitions as ExportPartition[];
+}
+
+/**
+ * Create the export command
+ */
+export function createExportCommand(): Command {
+  const command = new Command('export');
+
+  command
+    .description('Export indexed events to Parquet, CSV or NDJSON files')
+    .option('-c, --config <path>', 'Path to configuration file', './chaintap.yaml')
+    .requiredOption('-o, --output <path>', 'Output file, or output directory when partitioned')
+    .option('-f, --format <format>', `Output format (${EXPORT_FORMATS.join(', ')})`, 'parquet')
+    .option('--partition-by <partitions>', `Split the output into files by ${EXPORT_PARTITIONS.join(' and/or ')}, e.g. event,block`)
+    .option('--partition-blocks <number>', 'Blocks per file when partitioning by block', String(DEFAULT_PARTITION_BLOCKS))
+    .option('--chain <chain>', 'Only export events indexed from this chain')
+    .option('--contract <address|name>', 'Contract address or configured contract name')
+    .option('--event <name>', 'Event name')
+    .option('--from-block <number>', 'Minimum block number (inclusive)')
+    .option('--to-block <number>', 'Maximum block number (inclusive)')
+    .option('--limit <number>', 'Maximum number of events to export')
+    .option('--offset <number>', 'Number of events to skip')
+    .option('--where <condition>', 'Filter on a decoded event argument, e.g. to=0x..., value>=1000 (repeatable)', collect, [])
+    .option('-v, --verbose', 'Enable verbose logging', false)
+    .action(async (options) => {
+      const logger = createLogger(options.verbose);
+      let storage: StorageAdapter | null = null;
+
+      try {
+        if (!EXPORT_FORMATS.includes(options.format)) {
+          throw new ConfigError(`--format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+        }
+        const format = options.format as ExportFormat;
+        const partitionBy = parsePartitions(options.partitionBy);
+        const partitionBlocks = parseNonNegativeInt(options.partitionBlocks, '--partition-blocks')!;
+        if (partitionBlocks === 0) {
+          throw new ConfigError('--partition-blocks must be a positive integer');
+        }
+
+        // Load configuration
+        logger.debug({ configPath: options.config }, 'Loading configuration');
+        const config = loadConfigFile(options.config);
+
+        // Build filter
+        const filter: EventFilter = {
+          chainId: options.chain !== undefined ? getChainId(config, options.chain) : undefined,
+          contractAddress: options.contract
+            ? resolveContractAddress(config, options.contract)
+            : undefined,
+          eventName: options.event,
+          fromBlock: parseNonNegativeInt(options.fromBlock, '--from-block'),
+          toBlock: parseNonNegativeInt(options.toBlock, '--to-block'),
+          limit: parseNonNegativeInt(options.limit, '--limit'),
+          offset: parseNonNegativeInt(options.offset, '--offset'),
+          where: parseArgPredicates(options.where),
+        };
+
+        // Initialize storage
+        logger.debug({ database: describeDatabase(config.database) }, 'Opening database');
+        storage = createStorageAdapter(config.database);
+        await storage.init();
+
+        logger.info({ output: options.output, format, partitionBy }, 'Exporting events');
+        const result = await exportEvents(storage.iterateEvents(filter), {
+          format,
+          output: options.output,
+          partitionBy,
+          partitionBlocks,
+        });
+
+        console.log(`Exported ${result.events.toLocaleString()} event(s) to ${result.files.length} file(s)`);
+        for (const file of result.files) {
+          console.log(`  ${file.path} (${file.events.toLocaleString()} events)`);
+        }
+
+        await storage.close();
+        process.exit(0);
+
+      } catch (error) {
+        if (storage) {
+          await storage.close();
+        }
+
+        if (error instanceof ConfigError) {
+          logger.error({ error: error.message }, 'Configuration error');
+          console.error('\nError:', error.message);
+          process.exit(1);
+        } else if (error instanceof StorageError) {
+          logger.error({ error: error.message }, 'Storage error');
+          console.error('\nError:', error.message);
+          process.exit(3);
+        } else {
+          logger.error({
+            error: error instanceof Error ? error.message : String(error),
+          }, 'Unexpected error');
+          console.error('\nError:', error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+      }
+    });
+
+  return command;
+}
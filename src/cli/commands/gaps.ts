@@ -0,0 +1,215 @@
+import { Command } from 'commander';
+import {
+  loadConfigFile,
+  Chain,
+  Config,
+  ContractConfig,
+  getChainSettings,
+  getContractChain,
+  parseChain,
+  resolveContractAddress,
+} from '../config.js';
+import { StorageAdapter } from '../../storage/adapter.js';
+import { createStorageAdapter, describeDatabase } from '../../storage/factory.js';
+import { createProviderPools } from '../../providers/factory.js';
+import { ProviderPool } from '../../providers/provider-pool.js';
+import { Indexer } from '../../core/indexer.js';
+import { findCoverageGaps } from '../../core/coverage.js';
+import { BlockRange } from '../../core/types.js';
+import { EventSink } from '../../sinks/sink.js';
+import { createEventSinks } from '../../sinks/factory.js';
+import { createLogger } from '../../utils/logger.js';
+import { ConfigError, RPCError, StorageError } from '../../utils/errors.js';
+
+export interface ContractGaps {
+  contract: ContractConfig;
+  chain: Chain;
+  /** The contract's from_block, or the first indexed block if it started at the chain head */
+  fromBlock: number;
+  lastBlock: number;
+  gaps: BlockRange[];
+}
+
+/**
+ * Find the block ranges between each contract's start and its last synced block that were never indexed
+ * Contracts that haven't been synced yet are skipped.
+ */
+export async function findContractGaps(
+  config: Config,
+  storage: StorageAdapter,
+  contracts: ContractConfig[]
+): Promise<ContractGaps[]> {
+  const results: ContractGaps[] = [];
+
+  for (const contract of contracts) {
+    const address = contract.address.toLowerCase();
+    const { chain, chainId } = getChainSettings(config, getContractChain(config, contract));
+    const lastBlock = await storage.getLastSyncedBlock(address, chainId);
+    if (lastBlock === null) {
+      continue;
+    }
+
+    const covered = await storage.getCoverage(address, chainId);
+    const fromBlock = contract.from_block ?? covered[0]?.fromBlock ?? lastBlock + 1;
+
+    results.push({
+      contract,
+      chain,
+      fromBlock,
+      lastBlock,
+      gaps: findCoverageGaps(covered, fromBlock, lastBlock),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Format gaps per contract as plain text
+ */
+export function formatGapsText(results: ContractGaps[]): string {
+  if (results.length === 0) {
+    return 'No synced contracts found';
+  }
+
+  const lines: string[] = [];
+  for (const { contract, chain, fromBlock, lastBlock, gaps } of results) {
+    const label = `${contract.name || 'Unknown'} (${contract.address}) on ${chain}`;
+    const range = `between ${fromBlock.toLocaleString()} and ${lastBlock.toLocaleString()}`;
+
+    if (gaps.length === 0) {
+      lines.push(`${label}: no gaps ${range}`);
+      continue;
+    }
+
+    const missing = gaps.reduce((sum, gap) => sum + gap.toBlock - gap.fromBlock + 1, 0);
+    lines.push(`${label}: ${gaps.length} gap(s), ${missing.toLocaleString()} blocks ${range}`);
+    for (const gap of gaps) {
+      lines.push(`  ${gap.fromBlock.toLocaleString()} - ${gap.toBlock.toLocaleString()}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Create the gaps command
+ */
+export function createGapsCommand(): Command {
+  const command = new Command('gaps');
+
+  command
+    .description('List block ranges that were never indexed, and optionally re-index them')
+    .option('-c, --config <path>', 'Path to configuration file', './chaintap.yaml')
+    .option('--chain <chain>', 'Only check contracts on this chain')
+    .option('--contract <address|name>', 'Only check this contract')
+    .option('--repair', 'Re-index the gaps', false)
+    .option('--json', 'Print the gaps as JSON', false)
+    .option('-v, --verbose', 'Enable verbose logging', false)
+    .action(async (options) => {
+      const logger = createLogger(options.verbose);
+      let storage: StorageAdapter | null = null;
+      let providerPools: Map<Chain, ProviderPool> = new Map();
+      let sinks: EventSink[] = [];
+
+      try {
+        // Load configuration
+        logger.debug({ configPath: options.config }, 'Loading configuration');
+        const config = loadConfigFile(options.config);
+
+        // Initialize storage
+        logger.debug({ database: describeDatabase(config.database) }, 'Opening database');
+        storage = createStorageAdapter(config.database);
+        await storage.init();
+
+        providerPools = createProviderPools(config);
+        let indexer = new Indexer(config, storage, providerPools, logger);
+
+        // Configured contracts and the children discovered from their factories
+        const onlyChain = options.chain !== undefined ? parseChain(config, options.chain) : undefined;
+        const onlyAddress = options.contract !== undefined
+          ? resolveContractAddress(config, options.contract).toLowerCase()
+          : undefined;
+        const contracts = [...config.contracts, ...await indexer.getChildContractConfigs()].filter(contract =>
+          (!onlyChain || getContractChain(config, contract) === onlyChain) &&
+          (!onlyAddress || contract.address.toLowerCase() === onlyAddress)
+        );
+
+        const results = await findContractGaps(config, storage, contracts);
+        if (options.json) {
+          console.log(JSON.stringify(results.map(({ contract, ...result }) => ({
+            name: contract.name ?? null,
+            address: contract.address.toLowerCase(),
+            ...result,
+          })), null, 2));
+        } else {
+          console.log(formatGapsText(results));
+        }
+
+        if (options.repair) {
+          // Repaired ranges are delivered to sinks like any other indexed range
+          sinks = createEventSinks(config, storage, logger);
+          for (const sink of sinks) {
+            await sink.start();
+          }
+          indexer = new Indexer(config, storage, providerPools, logger, sinks);
+
+          for (const { contract, gaps } of results) {
+            for (const gap of gaps) {
+              logger.info({
+                contract: contract.name || contract.address,
+                fromBlock: gap.fromBlock,
+                toBlock: gap.toBlock,
+              }, 'Repairing gap');
+              await indexer.indexBlocks(contract, gap.fromBlock, gap.toBlock);
+            }
+          }
+
+          const repaired = results.reduce((sum, result) => sum + result.gaps.length, 0);
+          logger.info({ gaps: repaired }, 'Gap repair complete');
+        }
+
+        // Stop sinks; undelivered batches stay queued for the next run
+        for (const sink of sinks) {
+          await sink.stop();
+        }
+        await Promise.all([...providerPools.values()].map(pool => pool.destroy()));
+        await storage.close();
+        process.exit(0);
+
+      } catch (error) {
+        for (const sink of sinks) {
+          await sink.stop();
+        }
+        await Promise.all([...providerPools.values()].map(pool => pool.destroy()));
+        if (storage) {
+          await storage.close();
+        }
+
+        if (error instanceof ConfigError) {
+          logger.error({ error: error.message }, 'Configuration error');
+          console.error('\nError:', error.message);
+          process.exit(1);
+        } else if (error instanceof RPCError) {
+          logger.error({
+            error: error.message,
+            providerId: error.providerId,
+          }, 'RPC provider error');
+          console.error('\nError:', error.message);
+          process.exit(2);
+        } else if (error instanceof StorageError) {
+          logger.error({ error: error.message }, 'Storage error');
+          console.error('\nError:', error.message);
+          process.exit(3);
+        } else {
+          logger.error({
+            error: error instanceof Error ? error.message : String(error),
+          }, 'Unexpected error');
+          console.error('\nError:', error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+      }
+    });
+
+  return command;
+}
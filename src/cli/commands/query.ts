@@ -0,0 +1,173 @@
+import { Command } from 'commander';
+import { loadConfigFile, getChainId, resolveContractAddress } from '../config.js';
+import { EVENT_OUTPUT_FORMATS, EventOutputFormat, formatEvents } from '../output.js';
+import { EventFilter, StorageAdapter } from '../../storage/adapter.js';
+import { ARG_PATH_PATTERN, ArgComparisonOperator, ArgPredicate } from '../../storage/arg-filters.js';
+import { createStorageAdapter, describeDatabase } from '../../storage/factory.js';
+import { createLogger } from '../../utils/logger.js';
+import { ConfigError, StorageError } from '../../utils/errors.js';
+
+/**
+ * Collect repeated --where options into a list
+ */
+export function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parse a non-negative integer option value
+ */
+export function parseNonNegativeInt(value: string | undefined, optionName: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ConfigError(`${optionName} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Comparison operators accepted by --where, longest first
+ */
+const WHERE_OPERATORS: Array<[string, 'eq' | ArgComparisonOperator]> = [
+  ['>=', 'gte'],
+  ['<=', 'lte'],
+  ['>', 'gt'],
+  ['<', 'lt'],
+  ['=', 'eq'],
+];
+
+/**
+ * Parse --where options into eventData predicates
+ * Conditions are <arg>=<value>, "<arg> in <value>,<value>" or an integer comparison
+ * such as <arg>>=<number>; args of structs are named with dots, e.g. order.maker=0x...
+ */
+export function parseArgPredicates(where: string[]): ArgPredicate[] {
+  return where.map(condition => {
+    const checkPath = (path: string) => {
+      if (!ARG_PATH_PATTERN.test(path)) {
+        throw new ConfigError(
+          `Invalid --where condition "${condition}". "${path}" must be an argument name, with dots for struct members.`
+        );
+      }
+    };
+
+    const list = /^\s*([^\s=<>]+)\s+in\s+(.+)$/i.exec(condition);
+    if (list) {
+      checkPath(list[1]);
+      return { path: list[1], op: 'in', values: list[2].split(',').map(value => value.trim()) };
+    }
+
+    const separator = condition.search(/[=<>]/);
+    const operator = separator > 0
+      ? WHERE_OPERATORS.find(([symbol]) => condition.startsWith(symbol, separator))
+      : undefined;
+    const path = condition.slice(0, separator).trim();
+    if (!operator || path === '') {
+      throw new ConfigError(
+        `Invalid --where condition "${condition}". Expected <arg>=<value>, "<arg> in <value>,<value>" or <arg>>=<number>.`
+      );
+    }
+
+    checkPath(path);
+
+    const [symbol, op] = operator;
+    const value = condition.slice(separator + symbol.length).trim();
+    if (op === 'eq') {
+      return { path, op, value };
+    }
+    if (!/^-?[0-9]+$/.test(value)) {
+      throw new ConfigError(`Invalid --where condition "${condition}". ${path}${symbol} needs an integer.`);
+    }
+    return { path, op, value };
+  });
+}
+
+/**
+ * Create the query command
+ */
+export function createQueryCommand(): Command {
+  const command = new Command('query');
+
+  command
+    .description('Query indexed events from the database')
+    .option('-c, --config <path>', 'Path to configuration file', './chaintap.yaml')
+    .option('--chain <chain>', 'Only return events indexed from this chain')
+    .option('--contract <address|name>', 'Contract address or configured contract name')
+    .option('--event <name>', 'Event name')
+    .option('--from-block <number>', 'Minimum block number (inclusive)')
+    .option('--to-block <number>', 'Maximum block number (inclusive)')
+    .option('--limit <number>', 'Maximum number of events to return', '100')
+    .option('--offset <number>', 'Number of events to skip')
+    .option('--where <condition>', 'Filter on a decoded event argument, e.g. to=0x..., value>=1000 (repeatable)', collect, [])
+    .option('-f, --format <format>', `Output format (${EVENT_OUTPUT_FORMATS.join(', ')})`, 'table')
+    .option('-v, --verbose', 'Enable verbose logging', false)
+    .action(async (options) => {
+      const logger = createLogger(options.verbose);
+      let storage: StorageAdapter | null = null;
+
+      try {
+        if (!EVENT_OUTPUT_FORMATS.includes(options.format)) {
+          throw new ConfigError(
+            `--format must be one of: ${EVENT_OUTPUT_FORMATS.join(', ')}`
+          );
+        }
+        const format = options.format as EventOutputFormat;
+
+        // Load configuration
+        logger.debug({ configPath: options.config }, 'Loading configuration');
+        const config = loadConfigFile(options.config);
+
+        // Build filter
+        const filter: EventFilter = {
+          chainId: options.chain !== undefined ? getChainId(config, options.chain) : undefined,
+          contractAddress: options.contract
+            ? resolveContractAddress(config, options.contract)
+            : undefined,
+          eventName: options.event,
+          fromBlock: parseNonNegativeInt(options.fromBlock, '--from-block'),
+          toBlock: parseNonNegativeInt(options.toBlock, '--to-block'),
+          limit: parseNonNegativeInt(options.limit, '--limit'),
+          offset: parseNonNegativeInt(options.offset, '--offset'),
+          where: parseArgPredicates(options.where),
+        };
+
+        // Initialize storage
+        logger.debug({ database: describeDatabase(config.database) }, 'Opening database');
+        storage = createStorageAdapter(config.database);
+        await storage.init();
+
+        const events = await storage.queryEvents(filter);
+        console.log(formatEvents(events, format));
+
+        await storage.close();
+        process.exit(0);
+
+      } catch (error) {
+        if (storage) {
+          await storage.close();
+        }
+
+        if (error instanceof ConfigError) {
+          logger.error({ error: error.message }, 'Configuration error');
+          console.error('\nError:', error.message);
+          process.exit(1);
+        } else if (error instanceof StorageError) {
+          logger.error({ error: error.message }, 'Storage error');
+          console.error('\nError:', error.message);
+          process.exit(3);
+        } else {
+          logger.error({
+            error: error instanceof Error ? error.message : String(error),
+          }, 'Unexpected error');
+          console.error('\nError:', error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,93 @@
+import { Command } from 'commander';
+import { loadConfigFile } from '../config.js';
+import { StorageAdapter } from '../../storage/adapter.js';
+import { createStorageAdapter, describeDatabase } from '../../storage/factory.js';
+import { ApiServer } from '../../server/api-server.js';
+import { createLogger } from '../../utils/logger.js';
+import { ConfigError, StorageError } from '../../utils/errors.js';
+
+/**
+ * Parse a TCP port option value
+ */
+export function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigError(`Invalid port "${value}". Must be an integer between 0 and 65535.`);
+  }
+  return port;
+}
+
+/**
+ * Create the serve command
+ */
+export function createServeCommand(): Command {
+  const command = new Command('serve');
+
+  command
+    .description('Serve indexed events and sync status over HTTP')
+    .option('-c, --config <path>', 'Path to configuration file', './chaintap.yaml')
+    .option('-p, --port <number>', 'Port to listen on', '3000')
+    .option('--host <host>', 'Host to bind to', '127.0.0.1')
+    .option('-v, --verbose', 'Enable verbose logging', false)
+    .action(async (options) => {
+      const logger = createLogger(options.verbose);
+      let storage: StorageAdapter | null = null;
+      let server: ApiServer | null = null;
+
+      try {
+        const port = parsePort(options.port);
+
+        // Load configuration
+        logger.info({ configPath: options.config }, 'Loading configuration');
+        const config = loadConfigFile(options.config);
+
+        // Initialize storage
+        logger.info({ database: describeDatabase(config.database) }, 'Opening database');
+        storage = createStorageAdapter(config.database);
+        await storage.init();
+
+        // Start server
+        server = new ApiServer(config, storage, logger, { port, host: options.host });
+        await server.start();
+
+        // Setup graceful shutdown
+        const shutdown = async (signal: string) => {
+          logger.info({ signal }, 'Received shutdown signal');
+
+          if (server) {
+            await server.stop();
+          }
+
+          if (storage) {
+            await storage.close();
+          }
+
+          logger.info('Shutdown complete');
+          process.exit(0);
+        };
+
+        process.on('SIGINT', () => shutdown('SIGINT'));
+        process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+      } catch (error) {
+        if (storage) {
+          await storage.close();
+        }
+
+        if (error instanceof ConfigError) {
+          logger.error({ error: error.message }, 'Configuration error');
+          process.exit(1);
+        } else if (error instanceof StorageError) {
+          logger.error({ error: error.message }, 'Storage error');
+          process.exit(3);
+        } else {
+          logger.error({
+            error: error instanceof Error ? error.message : String(error),
+          }, 'Unexpected error');
+          process.exit(1);
+        }
+      }
+    });
+
+  return command;
+}
@@ -1,29 +1,205 @@
 import { Command } from 'commander';
-import { loadConfigFile } from '../config.js';
-import { SQLiteAdapter } from '../../storage/sqlite.js';
+import * as yaml from 'yaml';
+import {
+  loadConfigFile,
+  Chain,
+  Config,
+  getChainById,
+  getChainSettings,
+  getConfiguredChains,
+  getContractChain,
+  getEventNames,
+} from '../config.js';
+import { StorageAdapter, SyncState } from '../../storage/adapter.js';
+import { createStorageAdapter, describeDatabase } from '../../storage/factory.js';
+import { createProviderPools } from '../../providers/factory.js';
+import { ProviderPool } from '../../providers/provider-pool.js';
 import { createLogger } from '../../utils/logger.js';
-import { ConfigError, StorageError } from '../../utils/errors.js';
-import Database from 'better-sqlite3';
-
-interface SyncState {
-  contract_address: string;
-  chain_id: number;
-  last_block: number;
-  last_sync: number;
-  status: string;
+import { ConfigError, RPCError, StorageError } from '../../utils/errors.js';
+
+/**
+ * Exit code when --max-lag is exceeded
+ */
+const LAG_EXIT_CODE = 4;
+
+/**
+ * Latest block of a chain, or the error that kept it from being fetched
+ */
+export interface ChainHead {
+  blockNumber: number | null;
+  error?: string;
+}
+
+export interface ContractStatus {
+  name: string | null;
+  address: string;
+  chain: Chain;
+  chainId: number;
+  events: string[];
+  /** Stored sync state, or null if the contract hasn't been synced yet */
+  syncState: SyncState | null;
+  eventCounts: Record<string, number>;
+  totalEvents: number;
+  chainHead: number | null;
+  /** Chain head minus the last synced block, including the chain's confirmations */
+  lag: number | null;
+}
+
+export interface StatusReport {
+  chains: Chain[];
+  database: string;
+  contracts: ContractStatus[];
+  templates: Array<{ name: string; factory: string; event: string; childContracts: number }>;
+}
+
+/**
+ * Collect the sync status of every configured contract
+ */
+export async function buildStatusReport(
+  config: Config,
+  storage: StorageAdapter,
+  chainHeads: Map<Chain, ChainHead>
+): Promise<StatusReport> {
+  const contracts: ContractStatus[] = [];
+
+  for (const contractConfig of config.contracts) {
+    const address = contractConfig.address.toLowerCase();
+    const { chain, chainId } = getChainSettings(config, getContractChain(config, contractConfig));
+    const syncState = await storage.getSyncState(address, chainId);
+    const eventCounts = syncState ? await storage.getEventCounts(address, chainId) : {};
+    const chainHead = chainHeads.get(chain)?.blockNumber ?? null;
+
+    contracts.push({
+      name: contractConfig.name ?? null,
+      address,
+      chain,
+      chainId,
+      events: getEventNames(contractConfig.events),
+      syncState,
+      eventCounts,
+      totalEvents: Object.values(eventCounts).reduce((sum, count) => sum + count, 0),
+      chainHead,
+      lag: syncState && chainHead !== null ? Math.max(chainHead - syncState.lastBlock, 0) : null,
+    });
+  }
+
+  // Summarize child contracts discovered through templates
+  const children = config.templates.length > 0 ? await storage.getChildContracts() : [];
+  const templates = config.templates.map(template => ({
+    name: template.name,
+    factory: template.factory,
+    event: template.event,
+    childContracts: children.filter(child => child.template === template.name).length,
+  }));
+
+  return {
+    chains: getConfiguredChains(config),
+    database: describeDatabase(config.database),
+    contracts,
+    templates,
+  };
+}
+
+/**
+ * Contracts that are not synced yet or lag more than maxLag blocks behind their chain head
+ */
+export function findLaggingContracts(report: StatusReport, maxLag: number): ContractStatus[] {
+  return report.contracts.filter(contract => contract.lag === null || contract.lag > maxLag);
+}
+
+/**
+ * Format a status report as the plain-text report
+ */
+export function formatStatusText(config: Config, report: StatusReport, now = Date.now()): string {
+  const lines = [
+    '',
+    'ChainTap Status Report',
+    '='.repeat(60),
+    `Chains: ${report.chains.join(', ')}`,
+    `Database: ${report.database}`,
+    '='.repeat(60),
+    '',
+  ];
+
+  for (const contract of report.contracts) {
+    const configured = config.contracts.find(c => c.address.toLowerCase() === contract.address);
+    lines.push(`Contract: ${contract.name ?? 'Unknown'} (${configured?.address ?? contract.address})`);
+
+    const { syncState } = contract;
+    if (syncState) {
+      const chainName = getChainById(config, syncState.chainId) ?? `Unknown (${syncState.chainId})`;
+      lines.push(`  Chain: ${chainName} (chain_id: ${syncState.chainId})`);
+      lines.push(`  Events: ${contract.events.join(', ')}`);
+      lines.push(`  Last synced block: ${syncState.lastBlock.toLocaleString()}`);
+      if (contract.chainHead !== null) {
+        lines.push(`  Chain head: ${contract.chainHead.toLocaleString()} (${contract.lag!.toLocaleString()} blocks behind)`);
+      } else {
+        lines.push('  Chain head: unavailable');
+      }
+      lines.push(`  Total events: ${contract.totalEvents.toLocaleString()}`);
+
+      // Format last sync time
+      const lastSyncDate = new Date(syncState.lastSync * 1000);
+      const timeDiff = Math.floor((now - lastSyncDate.getTime()) / 1000);
+
+      let timeAgo: string;
+      if (timeDiff < 60) {
+        timeAgo = `${timeDiff} seconds ago`;
+      } else if (timeDiff < 3600) {
+        timeAgo = `${Math.floor(timeDiff / 60)} minutes ago`;
+      } else if (timeDiff < 86400) {
+        timeAgo = `${Math.floor(timeDiff / 3600)} hours ago`;
+      } else {
+        timeAgo = `${Math.floor(timeDiff / 86400)} days ago`;
+      }
+
+      lines.push(`  Last sync: ${lastSyncDate.toISOString()} (${timeAgo})`);
+      lines.push(`  Status: ${syncState.status}`);
+    } else {
+      lines.push(`  Chain: ${contract.chain}`);
+      lines.push(`  Events: ${contract.events.join(', ')}`);
+      lines.push('  Status: not synced yet');
+    }
+
+    lines.push('');
+  }
+
+  for (const template of report.templates) {
+    lines.push(`Template: ${template.name} (factory: ${template.factory}, event: ${template.event})`);
+    lines.push(`  Child contracts: ${template.childContracts.toLocaleString()}`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
 }
 
 /**
- * Chain ID to name mapping
+ * Fetch the latest block of each chain from its provider pool
+ * Failures are recorded per chain so the rest of the report can still be shown.
  */
-const CHAIN_NAMES: Record<number, string> = {
-  1: 'ethereum',
-  137: 'polygon',
-  42161: 'arbitrum',
-  10: 'optimism',
-  8453: 'base',
-  56: 'bsc',
-};
+async function fetchChainHeads(providerPools: Map<Chain, ProviderPool>): Promise<Map<Chain, ChainHead>> {
+  const heads = new Map<Chain, ChainHead>();
+
+  await Promise.all([...providerPools].map(async ([chain, providerPool]) => {
+    try {
+      const provider = await providerPool.getProvider();
+      try {
+        heads.set(chain, { blockNumber: await provider.provider.getBlockNumber() });
+        await providerPool.reportSuccess(provider.id);
+      } catch (error) {
+        await providerPool.reportFailure(provider.id, error as Error);
+        throw error;
+      }
+    } catch (error) {
+      heads.set(chain, {
+        blockNumber: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }));
+
+  return heads;
+}
 
 /**
  * Create the status command
@@ -34,91 +210,83 @@ export function createStatusCommand(): Command {
   command
     .description('Show sync status for all configured contracts')
     .option('-c, --config <path>', 'Path to configuration file', './chaintap.yaml')
+    .option('--json', 'Print the status report as JSON', false)
+    .option('--yaml', 'Print the status report as YAML', false)
+    .option('--max-lag <blocks>', 'Exit with code 4 if a contract is not synced or lags more blocks behind its chain head')
     .option('-v, --verbose', 'Enable verbose logging', false)
     .action(async (options) => {
       const logger = createLogger(options.verbose);
-      let storage: SQLiteAdapter | null = null;
+      let storage: StorageAdapter | null = null;
+      let providerPools: Map<Chain, ProviderPool> = new Map();
 
       try {
+        if (options.json && options.yaml) {
+          throw new ConfigError('--json and --yaml cannot be used together');
+        }
+
+        let maxLag: number | undefined;
+        if (options.maxLag !== undefined) {
+          maxLag = Number(options.maxLag);
+          if (!Number.isInteger(maxLag) || maxLag < 0) {
+            throw new ConfigError('--max-lag must be a non-negative integer');
+          }
+        }
+
         // Load configuration
         logger.debug({ configPath: options.config }, 'Loading configuration');
         const config = loadConfigFile(options.config);
 
         // Initialize storage
-        logger.debug({ dbPath: config.database.path }, 'Opening database');
-        storage = new SQLiteAdapter(config.database.path);
+        logger.debug({ database: describeDatabase(config.database) }, 'Opening database');
+        storage = createStorageAdapter(config.database);
         await storage.init();
 
-        // Get raw database access for sync_state queries
-        const db = new Database(config.database.path);
-
-        console.log('\nChainTap Status Report');
-        console.log('='.repeat(60));
-        console.log(`Chain: ${config.chain}`);
-        console.log(`Database: ${config.database.path}`);
-        console.log('='.repeat(60));
-        console.log('');
-
-        // Get status for each contract
-        for (const contractConfig of config.contracts) {
-          const contractAddress = contractConfig.address.toLowerCase();
-          const contractName = contractConfig.name || 'Unknown';
-
-          console.log(`Contract: ${contractName} (${contractConfig.address})`);
-
-          // Get sync state
-          const syncStateStmt = db.prepare(`
-            SELECT * FROM sync_state WHERE contract_address = ?
-          `);
-          const syncState = syncStateStmt.get(contractAddress) as SyncState | undefined;
-
-          if (syncState) {
-            const chainName = CHAIN_NAMES[syncState.chain_id] || `Unknown (${syncState.chain_id})`;
-            console.log(`  Chain: ${chainName} (chain_id: ${syncState.chain_id})`);
-            console.log(`  Events: ${contractConfig.events.join(', ')}`);
-            console.log(`  Last synced block: ${syncState.last_block.toLocaleString()}`);
-
-            // Get event count
-            const countStmt = db.prepare(`
-              SELECT COUNT(*) as count FROM events WHERE contract_address = ?
-            `);
-            const countResult = countStmt.get(contractAddress) as { count: number };
-            console.log(`  Total events: ${countResult.count.toLocaleString()}`);
-
-            // Format last sync time
-            const lastSyncDate = new Date(syncState.last_sync * 1000);
-            const now = new Date();
-            const timeDiff = Math.floor((now.getTime() - lastSyncDate.getTime()) / 1000);
-
-            let timeAgo: string;
-            if (timeDiff < 60) {
-              timeAgo = `${timeDiff} seconds ago`;
-            } else if (timeDiff < 3600) {
-              timeAgo = `${Math.floor(timeDiff / 60)} minutes ago`;
-            } else if (timeDiff < 86400) {
-              timeAgo = `${Math.floor(timeDiff / 3600)} hours ago`;
-            } else {
-              timeAgo = `${Math.floor(timeDiff / 86400)} days ago`;
-            }
-
-            console.log(`  Last sync: ${lastSyncDate.toISOString()} (${timeAgo})`);
-            console.log(`  Status: ${syncState.status}`);
-          } else {
-            console.log(`  Chain: ${config.chain}`);
-            console.log(`  Events: ${contractConfig.events.join(', ')}`);
-            console.log(`  Status: not synced yet`);
+        // Fetch chain heads to compute how far each contract lags behind
+        providerPools = createProviderPools(config);
+        const chainHeads = await fetchChainHeads(providerPools);
+        for (const [chain, head] of chainHeads) {
+          if (head.error !== undefined) {
+            logger.debug({ chain, error: head.error }, 'Failed to fetch chain head');
+          }
+        }
+
+        const report = await buildStatusReport(config, storage, chainHeads);
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else if (options.yaml) {
+          process.stdout.write(yaml.stringify(report));
+        } else {
+          console.log(formatStatusText(config, report));
+        }
+
+        let exitCode = 0;
+        if (maxLag !== undefined) {
+          // A missing chain head makes the check impossible rather than failed
+          const failedHead = [...chainHeads].find(([, head]) => head.blockNumber === null);
+          if (failedHead) {
+            throw new RPCError(`Failed to get chain head for ${failedHead[0]}: ${failedHead[1].error}`);
           }
 
-          console.log('');
+          const lagging = findLaggingContracts(report, maxLag);
+          for (const contract of lagging) {
+            console.error(contract.lag === null
+              ? `Contract ${contract.name ?? contract.address} on ${contract.chain} is not synced yet`
+              : `Contract ${contract.name ?? contract.address} on ${contract.chain} is ${contract.lag} blocks behind (max ${maxLag})`);
+          }
+          if (lagging.length > 0) {
+            exitCode = LAG_EXIT_CODE;
+          }
         }
 
-        // Close database
-        db.close();
+        // Close provider connections and the database
+        await Promise.all([...providerPools.values()].map(pool => pool.destroy()));
         await storage.close();
 
-        process.exit(0);
+        process.exit(exitCode);
 
       } catch (error) {
+        await Promise.all([...providerPools.values()].map(pool => pool.destroy()));
         if (storage) {
           await storage.close();
         }
@@ -127,6 +295,10 @@ export function createStatusCommand(): Command {
           logger.error({ error: error.message }, 'Configuration error');
           console.error('\nError:', error.message);
           process.exit(1);
+        } else if (error instanceof RPCError) {
+          logger.error({ error: error.message }, 'RPC provider error');
+          console.error('\nError:', error.message);
+          process.exit(2);
         } else if (error instanceof StorageError) {
           logger.error({ error: error.message }, 'Storage error');
           console.error('\nError:', error.message);
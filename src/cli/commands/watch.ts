@@ -1,8 +1,15 @@
 import { Command } from 'commander';
 import { loadConfigFile } from '../config.js';
-import { SQLiteAdapter } from '../../storage/sqlite.js';
-import { ProviderPool } from '../../providers/provider-pool.js';
+import { StorageAdapter } from '../../storage/adapter.js';
+import { createStorageAdapter, describeDatabase } from '../../storage/factory.js';
+import { createProviderPools } from '../../providers/factory.js';
 import { Indexer } from '../../core/indexer.js';
+import { EventSink } from '../../sinks/sink.js';
+import { createEventSinks } from '../../sinks/factory.js';
+import { ApiServer } from '../../server/api-server.js';
+import { MetricsServer } from '../../server/metrics-server.js';
+import { Metrics } from '../../utils/metrics.js';
+import { parsePort } from './serve.js';
 import { createLogger } from '../../utils/logger.js';
 import { ConfigError, RPCError, StorageError } from '../../utils/errors.js';
 
@@ -15,11 +22,17 @@ export function createWatchCommand(): Command {
   command
     .description('Watch and index events from configured contracts in real-time')
     .option('-c, --config <path>', 'Path to configuration file', './chaintap.yaml')
+    .option('--serve [port]', 'Also serve the HTTP API from this process (default port: 3000)')
+    .option('--metrics [port]', 'Expose Prometheus metrics at /metrics (default port: 9464)')
+    .option('--host <host>', 'Host for the HTTP API and metrics to bind to', '127.0.0.1')
     .option('-v, --verbose', 'Enable verbose logging', false)
     .action(async (options) => {
       const logger = createLogger(options.verbose);
-      let storage: SQLiteAdapter | null = null;
+      let storage: StorageAdapter | null = null;
       let indexer: Indexer | null = null;
+      let server: ApiServer | null = null;
+      let metricsServer: MetricsServer | null = null;
+      let sinks: EventSink[] = [];
 
       try {
         // Load configuration
@@ -27,22 +40,45 @@ export function createWatchCommand(): Command {
         const config = loadConfigFile(options.config);
 
         // Initialize storage
-        logger.info({ dbPath: config.database.path }, 'Initializing database');
-        storage = new SQLiteAdapter(config.database.path);
+        logger.info({ database: describeDatabase(config.database) }, 'Initializing database');
+        storage = createStorageAdapter(config.database);
         await storage.init();
 
-        // Initialize provider pool
+        // Initialize one provider pool per chain
+        const providerPools = createProviderPools(config);
         logger.info(
-          { providerCount: config.providers.length },
-          'Initializing provider pool'
+          { chains: [...providerPools.keys()] },
+          'Initializing provider pools'
         );
-        const providerPool = new ProviderPool(config.providers, {
-          failureThreshold: 3,
-          cooldownPeriod: 30000,
-        });
+
+        // Optionally expose Prometheus metrics
+        let metrics: Metrics | undefined;
+        if (options.metrics !== undefined) {
+          const port = parsePort(options.metrics === true ? '9464' : options.metrics);
+          metrics = new Metrics();
+          metrics.addProviderPools(providerPools);
+          metricsServer = new MetricsServer(metrics, logger, { port, host: options.host });
+          await metricsServer.start();
+        }
+
+        // Start event sinks, delivering batches queued by earlier runs too
+        sinks = createEventSinks(config, storage, logger);
+        for (const sink of sinks) {
+          await sink.start();
+        }
+        if (sinks.length > 0) {
+          logger.info({ sinks: sinks.map(sink => sink.name) }, 'Started event sinks');
+        }
 
         // Create indexer
-        indexer = new Indexer(config, storage, providerPool, logger);
+        indexer = new Indexer(config, storage, providerPools, logger, sinks, metrics);
+
+        // Optionally serve the HTTP API alongside the indexer
+        if (options.serve !== undefined) {
+          const port = parsePort(options.serve === true ? '3000' : options.serve);
+          server = new ApiServer(config, storage, logger, { port, host: options.host });
+          await server.start();
+        }
 
         // Setup graceful shutdown
         const shutdown = async (signal: string) => {
@@ -52,6 +88,18 @@ export function createWatchCommand(): Command {
             await indexer.stop();
           }
 
+          for (const sink of sinks) {
+            await sink.stop();
+          }
+
+          if (server) {
+            await server.stop();
+          }
+
+          if (metricsServer) {
+            await metricsServer.stop();
+          }
+
           if (storage) {
             await storage.close();
           }
@@ -1,30 +1,92 @@
 import { z } from 'zod';
 import * as yaml from 'yaml';
 import * as fs from 'node:fs';
+import { getAddress } from 'ethers';
 import { ConfigError } from '../utils/errors.js';
+import { BUILTIN_CHAINS, ChainDefinition, ChainRegistry } from '../core/chains.js';
+import { isInlineABI, parseInlineABI } from '../abi/inline.js';
+import { ARG_INDEX_TYPES, ARG_PATH_PATTERN } from '../storage/arg-filters.js';
 
 // Ethereum address validation regex
 const ETH_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
 
-// Chain enum
-const ChainSchema = z.enum([
-  'ethereum',
-  'polygon',
-  'arbitrum',
-  'optimism',
-  'base',
-  'bsc',
+// Chain name; built-in chains or chains declared under `chains` with a chain_id
+const ChainSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, {
+  message: 'Chain name must consist of lowercase letters, digits, "-" and "_"',
+});
+
+// Value for an indexed event argument filter; addresses and large numbers must be quoted in YAML
+const EventFilterScalarSchema = z.union([
+  z.string().min(1),
+  z.number().int().refine(Number.isSafeInteger, {
+    message: 'Numeric filter value is too large. Quote addresses and large numbers.',
+  }),
+  z.boolean(),
+]);
+
+// Event configuration schema: an event name, or a name with indexed argument filters
+const EventConfigSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    filter: z.record(
+      z.union([EventFilterScalarSchema, z.array(EventFilterScalarSchema).min(1)])
+    ).optional(),
+  }),
 ]);
 
+/**
+ * `events` value selecting every event in the contract's ABI
+ */
+export const ALL_EVENTS = '*';
+
+// Events of a contract: a list, or "*" (the default) for every event in the ABI
+const EventsConfigSchema = z.union([
+  z.literal(ALL_EVENTS),
+  z.array(EventConfigSchema).min(1, 'At least one event is required'),
+]).default(ALL_EVENTS);
+
+// ABI schema: a JSON ABI file path, or inline human-readable fragments
+const ABIConfigSchema = z.union([
+  z.string().min(1, 'ABI path or fragment is required'),
+  z.array(z.string().min(1)).min(1, 'At least one ABI fragment is required'),
+]).superRefine((abi, ctx) => {
+  if (!isInlineABI(abi)) {
+    return;
+  }
+  try {
+    parseInlineABI(abi);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 // Contract configuration schema
 const ContractConfigSchema = z.object({
   address: z.string().regex(ETH_ADDRESS_REGEX, {
     message: 'Invalid Ethereum address format. Must be 0x followed by 40 hex characters.',
   }),
   name: z.string().optional(),
-  events: z.array(z.string().min(1)).min(1, 'At least one event is required'),
+  events: EventsConfigSchema,
   from_block: z.number().int().nonnegative().nullable().default(null),
-  abi: z.string().optional(),
+  abi: ABIConfigSchema.optional(),
+  // Store logs the ABI can't decode as raw topics and data instead of dropping them
+  raw_logs: z.boolean().optional(),
+  chain: ChainSchema.optional(),
+});
+
+// Contract template schema: child contracts discovered from a factory event
+const TemplateConfigSchema = z.object({
+  name: z.string().min(1, 'Template name is required'),
+  factory: z.string().min(1, 'Factory contract name or address is required'),
+  event: z.string().min(1, 'Factory event name is required'),
+  address_arg: z.string().min(1, 'Factory event argument holding the child address is required'),
+  events: EventsConfigSchema,
+  abi: ABIConfigSchema,
+  raw_logs: z.boolean().optional(),
 });
 
 // Provider configuration schema
@@ -33,23 +95,99 @@ const ProviderConfigSchema = z.object({
   priority: z.number().int().positive().default(1),
 });
 
+// ABI source schema; a bare type uses the source's default URL
+const ABISourceTypeSchema = z.enum(['etherscan', 'sourcify', 'blockscout']);
+
+const ABISourceSchema = z.union([
+  ABISourceTypeSchema.transform(type => ({ type, url: undefined })),
+  z.object({
+    type: ABISourceTypeSchema,
+    url: z.string().url('ABI source URL must be a valid URL').optional(),
+  }),
+]).refine(source => source.type !== 'blockscout' || source.url !== undefined, {
+  message: 'Blockscout ABI sources require a url',
+});
+
+// Per-chain configuration schema; declares a custom chain when chain_id is set
+// and overrides built-in chain settings otherwise. Confirmations default to options.confirmations.
+const ChainConfigSchema = z.object({
+  chain_id: z.number().int().positive().optional(),
+  providers: z.array(ProviderConfigSchema).min(1, 'At least one provider is required').optional(),
+  confirmations: z.number().int().nonnegative().optional(),
+  block_time: z.number().int().positive().optional(),
+  explorer_api: z.string().url('Explorer API must be a valid URL').optional(),
+  abi_sources: z.array(ABISourceSchema).min(1, 'At least one ABI source is required').optional(),
+});
+
+// Index on a decoded event argument; the path names an argument, with dots for struct members
+const ArgIndexConfigSchema = z.object({
+  path: z.string().regex(ARG_PATH_PATTERN, 'Index path must be an argument name, with dots for struct members'),
+  type: z.enum(ARG_INDEX_TYPES).default('text'),
+});
+
 // Database configuration schema
-const DatabaseConfigSchema = z.object({
+const SQLiteDatabaseConfigSchema = z.object({
   type: z.literal('sqlite'),
   path: z.string().min(1, 'Database path is required'),
+  indexes: z.array(ArgIndexConfigSchema).optional(),
+});
+
+const PostgresDatabaseConfigSchema = z.object({
+  type: z.literal('postgres'),
+  url: z.string().min(1, 'Database URL is required'),
+});
+
+const DatabaseConfigSchema = z.discriminatedUnion('type', [
+  SQLiteDatabaseConfigSchema,
+  PostgresDatabaseConfigSchema,
+]);
+
+// Event sink configuration schema; batches are signed with the secret using HMAC-SHA256
+const WebhookSinkConfigSchema = z.object({
+  type: z.literal('webhook'),
+  name: z.string().min(1, 'Sink name is required'),
+  url: z.string().url('Webhook URL must be a valid URL'),
+  secret: z.string().min(1, 'Webhook secret is required'),
+  timeout: z.number().int().positive().default(10000),
+  max_retry_delay: z.number().int().positive().default(300000),
 });
 
+// Kafka sink schema; each event is published as one message to the topic
+const KafkaSinkConfigSchema = z.object({
+  type: z.literal('kafka'),
+  name: z.string().min(1, 'Sink name is required'),
+  brokers: z.array(z.string().min(1)).min(1, 'At least one broker is required'),
+  topic: z.string().min(1, 'Kafka topic is required'),
+  client_id: z.string().min(1).default('chaintap'),
+  ssl: z.boolean().default(false),
+  sasl: z.object({
+    mechanism: z.enum(['plain', 'scram-sha-256', 'scram-sha-512']),
+    username: z.string().min(1),
+    password: z.string().min(1),
+  }).optional(),
+  max_retry_delay: z.number().int().positive().default(300000),
+});
+
+const SinkConfigSchema = z.discriminatedUnion('type', [
+  WebhookSinkConfigSchema,
+  KafkaSinkConfigSchema,
+]);
+
 // Options configuration schema
 const OptionsConfigSchema = z.object({
   batch_size: z.number().int().positive().default(2000),
   confirmations: z.number().int().nonnegative().default(12),
-  poll_interval: z.number().int().positive().default(15000),
+  // Defaults to the chain's block time
+  poll_interval: z.number().int().positive().optional(),
   max_retries: z.number().int().positive().default(5),
+  max_reorg_depth: z.number().int().positive().default(64),
+  concurrency: z.number().int().positive().max(32, 'Concurrency must be at most 32').default(1),
 }).default({
   batch_size: 2000,
   confirmations: 12,
-  poll_interval: 15000,
   max_retries: 5,
+  max_reorg_depth: 64,
+  concurrency: 1,
 });
 
 // Main config schema
@@ -59,15 +197,120 @@ const ConfigSchema = z.object({
   contracts: z.array(ContractConfigSchema)
     .min(1, 'At least one contract is required')
     .max(100, 'Maximum of 100 contracts allowed'),
-  providers: z.array(ProviderConfigSchema).min(1, 'At least one provider is required'),
+  templates: z.array(TemplateConfigSchema).default([]),
+  providers: z.array(ProviderConfigSchema).default([]),
+  chains: z.record(ChainSchema, ChainConfigSchema).default({}),
+  sinks: z.array(SinkConfigSchema).default([]),
   options: OptionsConfigSchema,
+}).superRefine((config, ctx) => {
+  // Chains must be built in or declared with a chain ID
+  const registry = buildChainRegistry(config.chains);
+  const unknownChains = new Set<string>();
+  for (const [name, chainConfig] of Object.entries(config.chains)) {
+    if (!registry.get(name)) {
+      unknownChains.add(name);
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['chains', name, 'chain_id'],
+        message: `Chain "${name}" is not built in and needs a chain_id`,
+      });
+    } else if (chainConfig.chain_id !== undefined) {
+      const other = registry.getById(chainConfig.chain_id);
+      if (other && other.name !== name) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['chains', name, 'chain_id'],
+          message: `Chain ID ${chainConfig.chain_id} is already used by chain "${other.name}"`,
+        });
+      }
+    }
+  }
+  if (!registry.get(config.chain)) {
+    unknownChains.add(config.chain);
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['chain'],
+      message: `Unknown chain "${config.chain}". Declare it under chains with a chain_id.`,
+    });
+  }
+  config.contracts.forEach((contract, index) => {
+    if (contract.chain !== undefined && !registry.get(contract.chain)) {
+      unknownChains.add(contract.chain);
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['contracts', index, 'chain'],
+        message: `Unknown chain "${contract.chain}". Declare it under chains with a chain_id.`,
+      });
+    }
+  });
+
+  // Every chain a contract is indexed on needs providers
+  for (const chain of getConfiguredChains(config)) {
+    if (unknownChains.has(chain)) {
+      continue;
+    }
+    if (getChainSettings(config, chain).providers.length > 0) {
+      continue;
+    }
+    if (chain === config.chain) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['providers'],
+        message: 'At least one provider is required',
+      });
+    } else {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['chains', chain, 'providers'],
+        message: `No providers configured for chain "${chain}"`,
+      });
+    }
+  }
+
+  // Outbox entries are keyed by sink name
+  const sinkNames = new Set<string>();
+  config.sinks.forEach((sink, index) => {
+    if (sinkNames.has(sink.name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['sinks', index, 'name'],
+        message: `Duplicate sink name "${sink.name}"`,
+      });
+    }
+    sinkNames.add(sink.name);
+  });
+
+  // Each template must point at a configured contract that indexes its factory event
+  config.templates.forEach((template, index) => {
+    const factory = config.contracts.find(contract => isTemplateFactory(template, contract));
+    if (!factory) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['templates', index, 'factory'],
+        message: `Factory "${template.factory}" is not a configured contract name or address`,
+      });
+    } else if (factory.events !== ALL_EVENTS && !factory.events.map(getEventName).includes(template.event)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['templates', index, 'event'],
+        message: `Event "${template.event}" must be listed in the events of factory "${template.factory}"`,
+      });
+    }
+  });
 });
 
 // Export inferred type
 export type Config = z.infer<typeof ConfigSchema>;
 export type ContractConfig = z.infer<typeof ContractConfigSchema>;
+export type EventConfig = z.infer<typeof EventConfigSchema>;
+export type EventsConfig = z.infer<typeof EventsConfigSchema>;
+export type TemplateConfig = z.infer<typeof TemplateConfigSchema>;
 export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+export type ChainConfig = z.infer<typeof ChainConfigSchema>;
 export type DatabaseConfig = z.infer<typeof DatabaseConfigSchema>;
+export type SinkConfig = z.infer<typeof SinkConfigSchema>;
+export type WebhookSinkConfig = z.infer<typeof WebhookSinkConfigSchema>;
+export type KafkaSinkConfig = z.infer<typeof KafkaSinkConfigSchema>;
 export type OptionsConfig = z.infer<typeof OptionsConfigSchema>;
 export type Chain = z.infer<typeof ChainSchema>;
 
@@ -197,3 +440,208 @@ export function loadConfigFile(path: string): Config {
   // Parse config
   return parseConfig(content);
 }
+
+/**
+ * Resolves a contract given by configured name or by address to its stored address
+ * Events are stored with checksummed addresses, as returned by the provider
+ * @param config The validated config object
+ * @param contract A contract name from the config or a 0x address
+ * @returns The checksummed contract address
+ * @throws ConfigError if the contract is neither a configured name nor a valid address
+ */
+export function resolveContractAddress(config: Config, contract: string): string {
+  const byName = config.contracts.find(c => c.name === contract);
+  if (byName) {
+    return getAddress(byName.address.toLowerCase());
+  }
+
+  if (!ETH_ADDRESS_REGEX.test(contract)) {
+    throw new ConfigError(
+      `Unknown contract "${contract}". Use a contract name from the config or a 0x address.`
+    );
+  }
+  return getAddress(contract.toLowerCase());
+}
+
+/**
+ * Returns the name of a configured event
+ * @param event An event name or an event with argument filters
+ * @returns The event name
+ */
+export function getEventName(event: EventConfig): string {
+  return typeof event === 'string' ? event : event.name;
+}
+
+/**
+ * Returns the names of a contract's configured events
+ * @param events The `events` of a contract or template
+ * @returns The event names, or ["*"] if every event in the ABI is indexed
+ */
+export function getEventNames(events: EventsConfig): string[] {
+  return events === ALL_EVENTS ? [ALL_EVENTS] : events.map(getEventName);
+}
+
+/**
+ * Checks whether a contract is the factory of a template
+ * @param template The contract template
+ * @param contract A configured contract
+ * @returns True if the template's factory names this contract by name or address
+ */
+export function isTemplateFactory(template: TemplateConfig, contract: ContractConfig): boolean {
+  return template.factory === contract.name ||
+    template.factory.toLowerCase() === contract.address.toLowerCase();
+}
+
+/**
+ * Builds the chain registry from the built-in chains and the `chains` section
+ * @param chains The `chains` section of the config
+ * @returns The registry; entries without a chain_id only override built-in chains
+ */
+function buildChainRegistry(chains: Record<string, ChainConfig>): ChainRegistry {
+  const definitions: ChainDefinition[] = [...BUILTIN_CHAINS];
+
+  for (const [name, chainConfig] of Object.entries(chains)) {
+    const builtin = BUILTIN_CHAINS.find(definition => definition.name === name);
+    const chainId = chainConfig.chain_id ?? builtin?.chainId;
+    if (chainId === undefined) {
+      continue;
+    }
+    definitions.push({
+      name,
+      chainId,
+      confirmations: chainConfig.confirmations ?? builtin?.confirmations,
+      blockTime: chainConfig.block_time ?? builtin?.blockTime,
+      explorerApi: chainConfig.explorer_api ?? builtin?.explorerApi,
+      abiSources: chainConfig.abi_sources ?? builtin?.abiSources,
+    });
+  }
+
+  return new ChainRegistry(definitions);
+}
+
+const chainRegistries = new WeakMap<Config, ChainRegistry>();
+
+/**
+ * Returns the registry of chains known to a config
+ * @param config The validated config object
+ * @returns Built-in chains merged with the chains declared in the config
+ */
+export function getChainRegistry(config: Config): ChainRegistry {
+  let registry = chainRegistries.get(config);
+  if (!registry) {
+    registry = buildChainRegistry(config.chains);
+    chainRegistries.set(config, registry);
+  }
+  return registry;
+}
+
+/**
+ * Resolved settings for indexing one chain
+ */
+export interface ChainSettings {
+  chain: Chain;
+  chainId: number;
+  providers: ProviderConfig[];
+  confirmations: number;
+  /** Milliseconds between polls for new blocks in watch mode */
+  pollInterval: number;
+}
+
+/**
+ * Poll interval for chains without a block time when options.poll_interval is not set
+ */
+const DEFAULT_POLL_INTERVAL = 15000;
+
+/**
+ * Returns the chain a contract is indexed on
+ * @param config The validated config object
+ * @param contract A configured contract
+ * @returns The contract's own chain, or the top-level chain
+ */
+export function getContractChain(config: Config, contract: ContractConfig): Chain {
+  return contract.chain ?? config.chain;
+}
+
+/**
+ * Returns the chains that configured contracts are indexed on, top-level chain first
+ * @param config The validated config object
+ * @returns Distinct chain names
+ */
+export function getConfiguredChains(config: Config): Chain[] {
+  const chains = new Set<Chain>();
+  for (const contract of config.contracts) {
+    chains.add(getContractChain(config, contract));
+  }
+  return [...chains].sort((a, b) => Number(b === config.chain) - Number(a === config.chain));
+}
+
+/**
+ * Resolves providers, confirmation depth and poll interval for a chain
+ * An entry under `chains` takes precedence; the top-level chain falls back to the
+ * top-level providers, and confirmations fall back to options.confirmations.
+ * options.poll_interval applies to every chain; without it, each chain is polled at its block time.
+ * @param config The validated config object
+ * @param chain The chain name
+ * @returns The chain's settings; providers are empty if none are configured
+ */
+export function getChainSettings(config: Config, chain: Chain): ChainSettings {
+  const chainConfig = config.chains[chain];
+  const definition = getChainDefinition(config, chain);
+  return {
+    chain,
+    chainId: getChainId(config, chain),
+    providers: chainConfig?.providers ?? (chain === config.chain ? config.providers : []),
+    confirmations: definition.confirmations ?? config.options.confirmations,
+    pollInterval: config.options.poll_interval ?? definition.blockTime ?? DEFAULT_POLL_INTERVAL,
+  };
+}
+
+/**
+ * Returns the definition of a chain known to a config
+ * @param config The validated config object
+ * @param chain The chain name
+ * @returns The chain definition
+ * @throws ConfigError if the chain is unknown
+ */
+export function getChainDefinition(config: Config, chain: Chain): ChainDefinition {
+  const registry = getChainRegistry(config);
+  const definition = registry.get(chain);
+  if (!definition) {
+    throw new ConfigError(
+      `Unknown chain "${chain}". Supported chains: ${registry.names().join(', ')}`
+    );
+  }
+  return definition;
+}
+
+/**
+ * Parses a chain name given on the command line or in a request
+ * @param config The validated config object
+ * @param value A chain name
+ * @returns The chain name
+ * @throws ConfigError if the chain is unknown
+ */
+export function parseChain(config: Config, value: string): Chain {
+  return getChainDefinition(config, value).name;
+}
+
+/**
+ * Returns the chain ID of a chain known to a config
+ * @param config The validated config object
+ * @param chain The chain name
+ * @returns The EIP-155 chain ID
+ * @throws ConfigError if the chain is unknown
+ */
+export function getChainId(config: Config, chain: Chain): number {
+  return getChainDefinition(config, chain).chainId;
+}
+
+/**
+ * Returns the chain with a chain ID
+ * @param config The validated config object
+ * @param chainId The EIP-155 chain ID
+ * @returns The chain name, or undefined for unknown chains
+ */
+export function getChainById(config: Config, chainId: number): Chain | undefined {
+  return getChainRegistry(config).getById(chainId)?.name;
+}
@@ -3,6 +3,11 @@ import { Command } from 'commander';
 import { createWatchCommand } from './commands/watch.js';
 import { createBackfillCommand } from './commands/backfill.js';
 import { createStatusCommand } from './commands/status.js';
+import { createQueryCommand } from './commands/query.js';
+import { createServeCommand } from './commands/serve.js';
+import { createGapsCommand } from './commands/gaps.js';
+import { createDbCommand } from './commands/db.js';
+import { createExportCommand } from './commands/export.js';
 
 const program = new Command();
 
@@ -14,5 +19,10 @@ program
 program.addCommand(createWatchCommand());
 program.addCommand(createBackfillCommand());
 program.addCommand(createStatusCommand());
+program.addCommand(createQueryCommand());
+program.addCommand(createExportCommand());
+program.addCommand(createServeCommand());
+program.addCommand(createGapsCommand());
+program.addCommand(createDbCommand());
 
 program.parse();
@@ -0,0 +1,104 @@
+import { DecodedEvent } from '../core/types.js';
+
+/**
+ * Supported output formats for commands that print events
+ */
+export const EVENT_OUTPUT_FORMATS = ['table', 'json', 'ndjson', 'csv'] as const;
+
+export type EventOutputFormat = (typeof EVENT_OUTPUT_FORMATS)[number];
+
+/**
+ * Column order used by the table and CSV formats
+ */
+export const EVENT_COLUMNS = [
+  'chainId',
+  'blockNumber',
+  'blockTimestamp',
+  'transactionHash',
+  'logIndex',
+  'contractAddress',
+  'eventName',
+  'eventData',
+] as const;
+
+/**
+ * Format events in the given output format
+ */
+export function formatEvents(events: DecodedEvent[], format: EventOutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(events, null, 2);
+    case 'ndjson':
+      return events.map(event => JSON.stringify(event)).join('\n');
+    case 'csv':
+      return [formatCsvHeader(), ...events.map(formatCsvRow)].join('\n');
+    case 'table':
+      return formatTable(events);
+  }
+}
+
+/**
+ * CSV header row for {@link formatCsvRow}
+ */
+export function formatCsvHeader(): string {
+  return EVENT_COLUMNS.join(',');
+}
+
+/**
+ * Format a single event as a CSV row, with eventData as a JSON string
+ */
+export function formatCsvRow(event: DecodedEvent): string {
+  return EVENT_COLUMNS.map(column => escapeCsvValue(columnValue(event, column))).join(',');
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+export function escapeCsvValue(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Format events as a padded plain-text table
+ */
+function formatTable(events: DecodedEvent[]): string {
+  if (events.length === 0) {
+    return 'No events found';
+  }
+
+  const headers = ['Chain', 'Block', 'Log', 'Event', 'Transaction', 'Contract', 'Data'];
+  const rows = events.map(event => [
+    String(event.chainId ?? ''),
+    String(event.blockNumber),
+    String(event.logIndex),
+    event.eventName,
+    event.transactionHash,
+    event.contractAddress,
+    JSON.stringify(event.eventData),
+  ]);
+
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map(row => row[i].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ');
+
+  return [
+    formatRow(headers),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...rows.map(formatRow),
+    '',
+    `${events.length} event(s)`,
+  ].join('\n');
+}
+
+function columnValue(event: DecodedEvent, column: (typeof EVENT_COLUMNS)[number]): string {
+  const value = event[column];
+  if (value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
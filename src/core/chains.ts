@@ -0,0 +1,86 @@
+/**
+ * Service that serves verified contract ABIs
+ */
+export type ABISourceType = 'etherscan' | 'sourcify' | 'blockscout';
+
+/**
+ * An ABI source of a chain
+ */
+export interface ABISourceDefinition {
+  type: ABISourceType;
+  /** API base URL; Etherscan defaults to the chain's explorer API and Sourcify to sourcify.dev */
+  url?: string;
+}
+
+/**
+ * A chain that contracts can be indexed on
+ */
+export interface ChainDefinition {
+  /** Name used in the config and on the command line */
+  name: string;
+  /** EIP-155 chain ID */
+  chainId: number;
+  /** Default confirmation depth; options.confirmations applies when absent */
+  confirmations?: number;
+  /** Average block time in milliseconds, polled at in watch mode unless options.poll_interval is set */
+  blockTime?: number;
+  /** Etherscan-compatible API used to fetch verified ABIs */
+  explorerApi?: string;
+  /** ABI sources tried in order; defaults to Etherscan if the chain has an explorer API */
+  abiSources?: ABISourceDefinition[];
+}
+
+/**
+ * Chains known without any configuration
+ */
+export const BUILTIN_CHAINS: ChainDefinition[] = [
+  { name: 'ethereum', chainId: 1, blockTime: 12000, explorerApi: 'https://api.etherscan.io/v2/api' },
+  { name: 'polygon', chainId: 137, blockTime: 2000, explorerApi: 'https://api.polygonscan.com/api' },
+  { name: 'arbitrum', chainId: 42161, blockTime: 250, explorerApi: 'https://api.arbiscan.io/api' },
+  { name: 'optimism', chainId: 10, blockTime: 2000, explorerApi: 'https://api-optimistic.etherscan.io/api' },
+  { name: 'base', chainId: 8453, blockTime: 2000, explorerApi: 'https://api.basescan.org/api' },
+  { name: 'bsc', chainId: 56, blockTime: 3000, explorerApi: 'https://api.bscscan.com/api' },
+];
+
+/**
+ * ChainRegistry resolves chains by name or chain ID
+ * Built-in chains can be extended or overridden by definitions from the config.
+ */
+export class ChainRegistry {
+  private byName: Map<string, ChainDefinition> = new Map();
+
+  /**
+   * @param definitions Chain definitions; a later definition replaces an earlier one of the same name
+   */
+  constructor(definitions: ChainDefinition[] = BUILTIN_CHAINS) {
+    for (const definition of definitions) {
+      this.byName.set(definition.name, definition);
+    }
+  }
+
+  /**
+   * Get a chain by name
+   */
+  get(name: string): ChainDefinition | undefined {
+    return this.byName.get(name);
+  }
+
+  /**
+   * Get a chain by its chain ID
+   */
+  getById(chainId: number): ChainDefinition | undefined {
+    for (const definition of this.byName.values()) {
+      if (definition.chainId === chainId) {
+        return definition;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Names of all known chains
+   */
+  names(): string[] {
+    return [...this.byName.keys()];
+  }
+}
@@ -0,0 +1,30 @@
+import { BlockRange } from './types.js';
+
+/**
+ * Find the parts of a block range that no covered range includes
+ * @param covered Covered ranges ordered by fromBlock, as returned by StorageAdapter.getCoverage
+ * @returns Uncovered ranges within fromBlock-toBlock, in block order
+ */
+export function findCoverageGaps(covered: BlockRange[], fromBlock: number, toBlock: number): BlockRange[] {
+  const gaps: BlockRange[] = [];
+  let next = fromBlock;
+
+  for (const range of covered) {
+    if (next > toBlock) {
+      break;
+    }
+    if (range.toBlock < next) {
+      continue;
+    }
+    if (range.fromBlock > next) {
+      gaps.push({ fromBlock: next, toBlock: Math.min(range.fromBlock - 1, toBlock) });
+    }
+    next = Math.max(next, range.toBlock + 1);
+  }
+
+  if (next <= toBlock) {
+    gaps.push({ fromBlock: next, toBlock });
+  }
+
+  return gaps;
+}
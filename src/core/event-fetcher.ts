@@ -2,43 +2,52 @@ import { ethers } from 'ethers';
 import { EventDecoder } from '../abi/decoder.js';
 import { DecodedEvent } from './types.js';
 import { Logger } from '../utils/logger.js';
+import { ALL_EVENTS, EventsConfig, getEventName } from '../cli/config.js';
 import { retry } from '../utils/retry.js';
+import { Metrics } from '../utils/metrics.js';
 
 export interface EnrichedEvent extends DecodedEvent {
   blockTimestamp: number;
+  /** Hash of the block the log was fetched from, checked against the reorg window's headers */
+  blockHash: string;
 }
 
+/**
+ * getLogs topic filter, one entry per topic position
+ */
+type TopicFilter = Array<null | string | string[]>;
+
 export class EventFetcher {
   private blockRangeLimits: Map<string, number> = new Map();
   private blockTimestampCache: Map<number, number> = new Map();
 
   constructor(
-    private provider: ethers.JsonRpcProvider,
+    private provider: ethers.JsonRpcApiProvider,
     private providerId: string,
     private decoder: EventDecoder,
     private logger: Logger,
-    private initialChunkSize: number = 2000
+    private initialChunkSize: number = 2000,
+    private metrics?: Metrics
   ) {}
 
+  /**
+   * Fetch and decode a contract's events in a block range
+   * With rawLogs, logs the ABI can't decode are kept as raw events instead of being dropped.
+   */
   async fetchEvents(
     contractAddress: string,
-    eventNames: string[],
+    events: EventsConfig,
     fromBlock: number,
-    toBlock: number
+    toBlock: number,
+    options: { rawLogs?: boolean } = {}
   ): Promise<EnrichedEvent[]> {
-    const allLogs: ethers.Log[] = [];
+    let allLogs: ethers.Log[] = [];
 
     // Get the current chunk size for this provider (cached or initial)
     let chunkSize = this.blockRangeLimits.get(this.providerId) ?? this.initialChunkSize;
 
-    // Convert event names to topic hashes
-    const topics = eventNames.map(name => {
-      const event = this.decoder.interface.getEvent(name);
-      if (!event) {
-        throw new Error(`Event ${name} not found in contract interface`);
-      }
-      return event.topicHash;
-    });
+    // Convert events to topic filters, one getLogs query per filter
+    const topicFilters = this.buildTopicFilters(events, options.rawLogs ?? false);
 
     let currentBlock = fromBlock;
 
@@ -54,14 +63,32 @@ export class EventFetcher {
       }, 'Fetching logs');
 
       try {
-        const logs = await this.provider.getLogs({
-          address: contractAddress,
-          topics: [topics],
-          fromBlock: currentBlock,
-          toBlock: rangeEnd,
-        });
+        // Only keep the chunk's logs once every query succeeded, so a retry can't duplicate them
+        const chunkLogs: ethers.Log[] = [];
+        // Overlapping filters match the same log more than once, so keep its first copy only
+        const seen = new Set<string>();
+        for (const topics of topicFilters) {
+          const endTimer = this.metrics?.getLogsDuration.startTimer({ provider: this.providerId });
+          try {
+            const logs = await this.provider.getLogs({
+              address: contractAddress,
+              topics,
+              fromBlock: currentBlock,
+              toBlock: rangeEnd,
+            });
+            for (const log of logs) {
+              const key = `${log.transactionHash}:${log.index}`;
+              if (!seen.has(key)) {
+                seen.add(key);
+                chunkLogs.push(log);
+              }
+            }
+          } finally {
+            endTimer?.();
+          }
+        }
 
-        allLogs.push(...logs);
+        allLogs.push(...chunkLogs);
 
         // Move to next chunk
         currentBlock = rangeEnd + 1;
@@ -84,6 +111,7 @@ export class EventFetcher {
 
           // Cache the new chunk size for this provider
           this.blockRangeLimits.set(this.providerId, chunkSize);
+          this.metrics?.chunkSizeReductions.inc({ provider: this.providerId });
 
           // Don't increment currentBlock - retry with smaller chunk
           continue;
@@ -94,8 +122,13 @@ export class EventFetcher {
       }
     }
 
+    // Logs from separate queries are interleaved back into chain order
+    if (topicFilters.length > 1) {
+      allLogs = allLogs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    }
+
     // Enrich logs with timestamps
-    const enrichedEvents = await this.enrichWithTimestamps(allLogs);
+    const enrichedEvents = await this.enrichWithTimestamps(allLogs, options.rawLogs ?? false);
 
     this.logger.info({
       providerId: this.providerId,
@@ -109,7 +142,70 @@ export class EventFetcher {
     return enrichedEvents;
   }
 
-  private async enrichWithTimestamps(logs: ethers.Log[]): Promise<EnrichedEvent[]> {
+  /**
+   * Build getLogs topic filters for the configured events
+   * Events without argument filters share one query on topic0; each event with
+   * filters gets its own query with its indexed arguments in topic1-topic3.
+   * All events query every topic0 in the ABI, or every log of the contract with raw logs.
+   */
+  private buildTopicFilters(events: EventsConfig, rawLogs: boolean): TopicFilter[] {
+    if (events === ALL_EVENTS) {
+      if (rawLogs) {
+        return [[]];
+      }
+
+      // Anonymous events have no topic0 to match on
+      const topics: string[] = [];
+      this.decoder.interface.forEachEvent(event => {
+        if (!event.anonymous) {
+          topics.push(event.topicHash);
+        }
+      });
+      if (topics.length === 0) {
+        throw new Error('Contract interface has no events');
+      }
+      return [[topics]];
+    }
+
+    const unfilteredTopics: string[] = [];
+    const topicFilters: TopicFilter[] = [];
+
+    for (const eventConfig of events) {
+      const name = getEventName(eventConfig);
+      const event = this.decoder.interface.getEvent(name);
+      if (!event) {
+        throw new Error(`Event ${name} not found in contract interface`);
+      }
+
+      const filter = typeof eventConfig === 'string' ? undefined : eventConfig.filter;
+      if (!filter || Object.keys(filter).length === 0) {
+        unfilteredTopics.push(event.topicHash);
+        continue;
+      }
+
+      for (const argName of Object.keys(filter)) {
+        const input = event.inputs.find(param => param.name === argName);
+        if (!input) {
+          throw new Error(`Event ${name} has no argument named ${argName}`);
+        }
+        if (!input.indexed) {
+          throw new Error(`Cannot filter on ${name}.${argName} because it is not indexed`);
+        }
+      }
+
+      // Positional values over all inputs; null leaves a topic unconstrained
+      const values = event.inputs.map(param => filter[param.name] ?? null);
+      topicFilters.push(this.decoder.interface.encodeFilterTopics(event, values));
+    }
+
+    if (unfilteredTopics.length > 0) {
+      topicFilters.unshift([unfilteredTopics]);
+    }
+
+    return topicFilters;
+  }
+
+  private async enrichWithTimestamps(logs: ethers.Log[], rawLogs: boolean): Promise<EnrichedEvent[]> {
     if (logs.length === 0) {
       return [];
     }
@@ -137,6 +233,7 @@ export class EventFetcher {
               maxTimeout: 10000,
               logger: this.logger,
               operationName: `getBlock(${blockNum})`,
+              onRetry: () => this.metrics?.retries.inc({ operation: 'getBlock' }),
             }
           );
 
@@ -151,7 +248,7 @@ export class EventFetcher {
     const enrichedEvents: EnrichedEvent[] = [];
 
     for (const log of logs) {
-      const decodedEvent = this.decoder.decode(log);
+      const decodedEvent = this.decoder.decode(log) ?? (rawLogs ? this.decoder.toRawEvent(log) : null);
 
       // Skip events that couldn't be decoded (unknown signature)
       if (!decodedEvent) {
@@ -176,6 +273,7 @@ export class EventFetcher {
         eventName: decodedEvent.eventName,
         eventData: decodedEvent.eventData,
         blockTimestamp,
+        blockHash: log.blockHash,
       });
     }
 
@@ -1,43 +1,80 @@
-import { Config, ContractConfig, Chain } from '../cli/config.js';
-import { StorageAdapter } from '../storage/adapter.js';
+import {
+  Config,
+  ContractConfig,
+  Chain,
+  getChainById,
+  getChainRegistry,
+  getChainSettings,
+  getContractChain,
+  getEventNames,
+  isTemplateFactory,
+} from '../cli/config.js';
+import { StorageAdapter, BackfillJob, OutboxEntry } from '../storage/adapter.js';
 import { ProviderPool } from '../providers/provider-pool.js';
 import { Logger } from '../utils/logger.js';
+import { Interface } from 'ethers';
 import { ABIFetcher } from '../abi/fetcher.js';
 import { EventDecoder } from '../abi/decoder.js';
-import { EventFetcher } from './event-fetcher.js';
-import { RPCError } from '../utils/errors.js';
+import { EventFetcher, EnrichedEvent } from './event-fetcher.js';
+import { BlockRange, BlockRecord, ChildContract, DecodedEvent } from './types.js';
+import { ProviderInfo } from '../providers/provider-pool.js';
+import { HeadSubscription } from '../providers/head-subscription.js';
+import { EventBatch, EventSink } from '../sinks/sink.js';
+import { ConfigError, RPCError, StorageError } from '../utils/errors.js';
+import { Metrics } from '../utils/metrics.js';
+import { validateEthereumAddress } from '../utils/validation.js';
+import { buildEventViews } from '../storage/event-views.js';
 import * as path from 'node:path';
 import * as os from 'node:os';
 
 /**
- * Chain ID mapping for supported chains
+ * Attempts at fetching a reorg window whose headers match its logs before giving up until the next poll
  */
-const CHAIN_IDS: Record<Chain, number> = {
-  ethereum: 1,
-  polygon: 137,
-  arbitrum: 42161,
-  optimism: 10,
-  base: 8453,
-  bsc: 56,
-};
+const REORG_WINDOW_ATTEMPTS = 3;
+
+/**
+ * Headers of the reorg window don't link up or don't match the logs of their blocks
+ * The chain reorganized between calls, which says nothing about the provider's health.
+ */
+class ReorgInProgressError extends RPCError {}
+
+/**
+ * Backfill job as left by Indexer.backfill
+ */
+export interface BackfillResult extends BackfillJob {
+  /** Events stored by this run, excluding ones that were already stored */
+  newEvents: number;
+}
 
 /**
  * Main indexer orchestrator that coordinates event fetching, decoding, and storage
+ * Contracts on different chains are indexed side by side, each with its chain's provider pool.
+ * Watch tasks and known children are keyed by chain and address.
+ * Every committed batch with events is queued for each event sink in the same transaction.
+ * With metrics, progress, reorgs and retries are recorded for the /metrics endpoint.
  */
 export class Indexer {
   private running = false;
   private watchTasks: Map<string, NodeJS.Timeout> = new Map();
+  private watchWakers: Map<string, () => void> = new Map();
+  private headSubscriptions: Map<Chain, HeadSubscription> = new Map();
+  private subscriptionRetries: Map<Chain, NodeJS.Timeout> = new Map();
   private abiFetcher: ABIFetcher;
+  private reorgCount = 0;
+  private knownChildren: Set<string> = new Set();
+  private syncedViews: Set<string> = new Set();
 
   constructor(
     private config: Config,
     private storage: StorageAdapter,
-    private providerPool: ProviderPool,
-    private logger: Logger
+    private providerPools: Map<Chain, ProviderPool>,
+    private logger: Logger,
+    private sinks: EventSink[] = [],
+    private metrics?: Metrics
   ) {
     // Initialize ABI fetcher with cache directory
     const cacheDir = path.join(os.homedir(), '.chaintap', 'abi-cache');
-    this.abiFetcher = new ABIFetcher(cacheDir, process.env.ETHERSCAN_API_KEY);
+    this.abiFetcher = new ABIFetcher(cacheDir, process.env.ETHERSCAN_API_KEY, getChainRegistry(config), logger);
   }
 
   /**
@@ -51,8 +88,12 @@ export class Indexer {
     this.running = true;
     this.logger.info('Starting watch mode for all contracts');
 
-    // Start watching all contracts
-    const watchPromises = this.config.contracts.map(contract =>
+    // Index new blocks as soon as they arrive on chains with a WebSocket provider
+    await Promise.all([...this.providerPools.keys()].map(chain => this.startHeadSubscription(chain)));
+
+    // Start watching all contracts, including children discovered in earlier runs
+    const children = await this.getChildContractConfigs();
+    const watchPromises = [...this.config.contracts, ...children].map(contract =>
       this.watchContract(contract)
     );
 
@@ -64,28 +105,34 @@ export class Indexer {
    */
   async watchContract(contractConfig: ContractConfig): Promise<void> {
     const contractAddress = contractConfig.address.toLowerCase();
+    const { chain, chainId, confirmations, pollInterval } = getChainSettings(
+      this.config,
+      getContractChain(this.config, contractConfig)
+    );
+    const providerPool = this.getProviderPool(chain);
+    const watchKey = `${chain}:${contractAddress}`;
 
     this.logger.info({
       contract: contractConfig.name || contractAddress,
       address: contractAddress,
-      events: contractConfig.events,
-      chain: this.config.chain,
+      events: getEventNames(contractConfig.events),
+      chain,
     }, 'Starting to watch contract');
 
     // Get or initialize from_block
     let currentBlock: number;
     if (contractConfig.from_block === null) {
       // If from_block is null, get current block number
-      const provider = await this.providerPool.getProvider();
+      const provider = await providerPool.getProvider();
       try {
         currentBlock = await provider.provider.getBlockNumber();
-        await this.providerPool.reportSuccess(provider.id);
+        await providerPool.reportSuccess(provider.id);
         this.logger.info({
           contract: contractConfig.name || contractAddress,
           fromBlock: currentBlock,
         }, 'Using current block as starting point');
       } catch (error) {
-        await this.providerPool.reportFailure(provider.id, error as Error);
+        await providerPool.reportFailure(provider.id, error as Error);
         throw new RPCError(
           `Failed to get current block number: ${error instanceof Error ? error.message : String(error)}`,
           provider.id
@@ -94,7 +141,7 @@ export class Indexer {
     } else {
       currentBlock = contractConfig.from_block;
       // Check if we have a last synced block in storage
-      const lastSyncedBlock = await this.storage.getLastSyncedBlock(contractAddress);
+      const lastSyncedBlock = await this.storage.getLastSyncedBlock(contractAddress, chainId);
       if (lastSyncedBlock !== null && lastSyncedBlock >= currentBlock) {
         currentBlock = lastSyncedBlock + 1;
         this.logger.info({
@@ -103,23 +150,35 @@ export class Indexer {
         }, 'Resuming from last synced block');
       }
     }
+    this.metrics?.observeSyncedBlock(chain, contractConfig.name || contractAddress, currentBlock - 1);
+
+    // Start polling loop; a new head from the subscription wakes it early
+    let polling = false;
+    let wakeRequested = false;
 
-    // Start polling loop
     const pollLoop = async () => {
       if (!this.running) {
         return;
       }
+      polling = true;
 
       try {
-        const provider = await this.providerPool.getProvider();
+        const provider = await providerPool.getProvider();
 
         try {
           // Get latest block number
           const latestBlock = await provider.provider.getBlockNumber();
-          await this.providerPool.reportSuccess(provider.id);
+          await providerPool.reportSuccess(provider.id);
+          this.metrics?.observeChainHead(chain, latestBlock);
 
-          // Calculate target block with confirmations
-          const targetBlock = latestBlock - this.config.options.confirmations;
+          // Calculate target block with the chain's confirmations
+          const targetBlock = latestBlock - confirmations;
+
+          // Rewind if blocks we already indexed are no longer canonical
+          const rewindBlock = await this.checkForReorg(contractConfig, provider);
+          if (rewindBlock !== null) {
+            currentBlock = rewindBlock + 1;
+          }
 
           if (currentBlock <= targetBlock) {
             this.logger.debug({
@@ -128,8 +187,8 @@ export class Indexer {
               toBlock: targetBlock,
             }, 'Indexing block range');
 
-            // Index the block range
-            await this.indexBlocks(contractConfig, currentBlock, targetBlock);
+            // Index the block range, recording block hashes for reorg detection
+            await this.indexBlocks(contractConfig, currentBlock, targetBlock, { trackBlocks: true });
 
             // Update current block for next iteration
             currentBlock = targetBlock + 1;
@@ -138,16 +197,25 @@ export class Indexer {
               contract: contractConfig.name || contractAddress,
               currentBlock,
               latestBlock,
-              confirmations: this.config.options.confirmations,
+              confirmations,
             }, 'Waiting for new blocks');
           }
         } catch (error) {
-          await this.providerPool.reportFailure(provider.id, error as Error);
-          this.logger.error({
-            error: error instanceof Error ? error.message : String(error),
-            providerId: provider.id,
-            contract: contractConfig.name || contractAddress,
-          }, 'Error during polling');
+          if (error instanceof ReorgInProgressError) {
+            // The final segment wasn't committed; the next poll checks stored blocks and retries it
+            this.logger.warn({
+              error: error.message,
+              contract: contractConfig.name || contractAddress,
+            }, 'Chain reorganization in progress, retrying on the next poll');
+          } else {
+            await providerPool.reportFailure(provider.id, error as Error);
+            this.metrics?.retries.inc({ operation: 'poll' });
+            this.logger.error({
+              error: error instanceof Error ? error.message : String(error),
+              providerId: provider.id,
+              contract: contractConfig.name || contractAddress,
+            }, 'Error during polling');
+          }
         }
       } catch (error) {
         this.logger.error({
@@ -156,97 +224,782 @@ export class Indexer {
         }, 'Error getting provider');
       }
 
-      // Schedule next poll
+      // Schedule next poll, right away if a new head arrived while polling
+      polling = false;
       if (this.running) {
-        const timeout = setTimeout(pollLoop, this.config.options.poll_interval);
-        this.watchTasks.set(contractAddress, timeout);
+        const delay = wakeRequested ? 0 : pollInterval;
+        wakeRequested = false;
+        const timeout = setTimeout(pollLoop, delay);
+        this.watchTasks.set(watchKey, timeout);
       }
     };
 
+    this.watchWakers.set(watchKey, () => {
+      if (!this.running) {
+        return;
+      }
+      if (polling) {
+        wakeRequested = true;
+        return;
+      }
+      clearTimeout(this.watchTasks.get(watchKey));
+      void pollLoop();
+    });
+
     // Start the polling loop
     await pollLoop();
   }
 
+  /**
+   * Subscribe to new heads of a chain over WebSocket and wake the chain's watched contracts on each block
+   * Polling at the chain's poll interval continues as a fallback and takes over when the socket
+   * drops; resubscribing is retried at the same interval.
+   */
+  private async startHeadSubscription(chain: Chain): Promise<void> {
+    const url = this.getProviderPool(chain).getSubscriptionUrl();
+    if (!url || !this.running) {
+      return;
+    }
+
+    const subscription = new HeadSubscription(url, {
+      onBlock: blockNumber => {
+        this.logger.debug({ chain, blockNumber }, 'New head received');
+        for (const [watchKey, wake] of this.watchWakers) {
+          if (watchKey.startsWith(`${chain}:`)) {
+            wake();
+          }
+        }
+      },
+      onClose: error => {
+        this.logger.warn({
+          chain,
+          error: error.message,
+        }, 'WebSocket subscription dropped, falling back to polling');
+        this.headSubscriptions.delete(chain);
+        this.scheduleSubscriptionRetry(chain);
+      },
+    });
+
+    try {
+      await subscription.start();
+      if (!this.running) {
+        await subscription.stop();
+        return;
+      }
+      this.headSubscriptions.set(chain, subscription);
+      this.logger.info({ chain }, 'Subscribed to new heads over WebSocket');
+    } catch (error) {
+      this.logger.warn({
+        chain,
+        error: error instanceof Error ? error.message : String(error),
+      }, 'Failed to subscribe to new heads, falling back to polling');
+      this.scheduleSubscriptionRetry(chain);
+    }
+  }
+
+  private scheduleSubscriptionRetry(chain: Chain): void {
+    if (!this.running) {
+      return;
+    }
+    this.subscriptionRetries.set(chain, setTimeout(() => {
+      this.subscriptionRetries.delete(chain);
+      void this.startHeadSubscription(chain);
+    }, getChainSettings(this.config, chain).pollInterval));
+  }
+
+  /**
+   * Backfill a block range as a checkpointed job
+   * Re-running the same range resumes after the last committed chunk. With
+   * `openEnded`, the most recent unfinished job starting at fromBlock is resumed
+   * with its recorded end block instead.
+   */
+  async backfill(
+    contractConfig: ContractConfig,
+    fromBlock: number,
+    toBlock: number,
+    options: { restart?: boolean; openEnded?: boolean } = {}
+  ): Promise<BackfillResult> {
+    const { chainId } = getChainSettings(this.config, getContractChain(this.config, contractConfig));
+    const contractAddress = contractConfig.address.toLowerCase();
+    const contractName = contractConfig.name || contractAddress;
+
+    let job = options.restart
+      ? null
+      : await this.storage.findBackfillJob(
+          contractAddress,
+          chainId,
+          fromBlock,
+          options.openEnded ? undefined : toBlock
+        );
+
+    if (job?.status === 'completed') {
+      this.logger.info({
+        contract: contractName,
+        fromBlock: job.fromBlock,
+        toBlock: job.toBlock,
+      }, 'Backfill job already completed, use --restart to run it again');
+      return { ...job, newEvents: 0 };
+    }
+
+    if (!job) {
+      job = await this.storage.createBackfillJob(contractAddress, chainId, fromBlock, toBlock);
+    }
+
+    const resumeFrom = job.lastBlock === null ? job.fromBlock : job.lastBlock + 1;
+    if (job.lastBlock !== null) {
+      this.logger.info({
+        contract: contractName,
+        jobId: job.id,
+        lastBlock: job.lastBlock,
+        toBlock: job.toBlock,
+      }, 'Resuming backfill job');
+    }
+
+    let newEvents = 0;
+    if (resumeFrom <= job.toBlock) {
+      newEvents = await this.indexBlocks(contractConfig, resumeFrom, job.toBlock, { backfillJobId: job.id });
+    }
+
+    await this.storage.completeBackfillJob(job.id);
+    return { ...job, lastBlock: job.toBlock, status: 'completed', newEvents };
+  }
+
   /**
    * Index events for a specific block range
+   * The range is split into batch_size segments that are fetched concurrently across providers
+   * (up to options.concurrency at a time) and committed strictly in block order.
+   * With trackBlocks, the hashes of the most recent blocks are stored alongside the events
+   * @returns Number of events stored, excluding ones that were already stored
    */
   async indexBlocks(
     contractConfig: ContractConfig,
     fromBlock: number,
-    toBlock: number
-  ): Promise<void> {
-    const chainId = this.getChainId(this.config.chain);
+    toBlock: number,
+    options: { trackBlocks?: boolean; backfillJobId?: number } = {}
+  ): Promise<number> {
+    const { chain, chainId } = getChainSettings(this.config, getContractChain(this.config, contractConfig));
+    const providerPool = this.getProviderPool(chain);
     const contractAddress = contractConfig.address.toLowerCase();
+    const contractName = contractConfig.name || contractAddress;
+    const concurrency = this.config.options.concurrency;
 
     this.logger.info({
       contract: contractConfig.name || contractAddress,
       fromBlock,
       toBlock,
       blockCount: toBlock - fromBlock + 1,
+      concurrency,
     }, 'Indexing blocks');
 
-    // Get provider
-    const provider = await this.providerPool.getProvider();
-
     try {
       // Get ABI and create decoder
-      const iface = await this.abiFetcher.getABI(
-        contractAddress,
-        chainId,
-        contractConfig.abi
-      );
+      const iface = await this.getContractABI(contractConfig, chainId, providerPool);
       const decoder = new EventDecoder(iface);
+      await this.syncEventViews(contractConfig, chainId, iface);
 
-      // Create event fetcher
-      const fetcher = new EventFetcher(
-        provider.provider,
-        provider.id,
-        decoder,
-        this.logger,
-        this.config.options.batch_size
-      );
+      // One fetcher per provider so learned chunk sizes carry across segments
+      const fetchers = new Map<string, EventFetcher>();
+      const segments = this.splitRange(fromBlock, toBlock);
 
-      // Fetch events
-      const events = await fetcher.fetchEvents(
-        contractAddress,
-        contractConfig.events,
-        fromBlock,
-        toBlock
-      );
+      // Sliding window: at most `concurrency` segments are fetched or awaiting commit
+      const inFlight: Array<Promise<EnrichedEvent[]>> = [];
+      let nextSegment = 0;
+      const launchNext = () => {
+        if (nextSegment >= segments.length) {
+          return;
+        }
+        const segment = segments[nextSegment++];
+        const fetch = this.fetchSegment(contractConfig, providerPool, decoder, fetchers, segment);
+        // Failures surface when the segment is awaited in order; avoid unhandled rejections
+        fetch.catch(() => undefined);
+        inFlight.push(fetch);
+      };
 
-      await this.providerPool.reportSuccess(provider.id);
+      while (inFlight.length < concurrency && nextSegment < segments.length) {
+        launchNext();
+      }
 
-      // Store events and update sync state
-      await this.storage.updateSyncStateAndInsertEvents(
-        contractAddress,
-        chainId,
-        toBlock,
-        events
-      );
+      let eventCount = 0;
+      let newEvents = 0;
+      // Block hashes of the committed segments' logs, checked against the reorg window
+      const logBlockHashes = new Map<number, string>();
+      for (const segment of segments) {
+        let events = await inFlight.shift()!;
+
+        // Fetch block headers for the reorg window with the final segment
+        let blocks: BlockRecord[] = [];
+        if (options.trackBlocks && segment.toBlock === toBlock) {
+          ({ events, blocks } = await this.fetchReorgWindow(
+            contractConfig,
+            chainId,
+            providerPool,
+            decoder,
+            fetchers,
+            segment,
+            fromBlock,
+            events,
+            logBlockHashes
+          ));
+        }
+
+        // Register children before committing, so a crash can't skip past their creation
+        await this.registerChildContracts(contractConfig, events);
+
+        // Queue the segment's events for every sink with the commit
+        const batch: EventBatch | null = this.sinks.length > 0 && events.length > 0
+          ? {
+              chainId,
+              contractAddress,
+              fromBlock: segment.fromBlock,
+              toBlock: segment.toBlock,
+              events: events.map(event => ({
+                contractAddress: event.contractAddress,
+                blockNumber: event.blockNumber,
+                blockTimestamp: event.blockTimestamp,
+                transactionHash: event.transactionHash,
+                logIndex: event.logIndex,
+                eventName: event.eventName,
+                eventData: event.eventData,
+                chainId,
+              })),
+            }
+          : null;
+        const payload = batch ? JSON.stringify(batch) : '';
+        const outbox: OutboxEntry[] = batch
+          ? this.sinks.map(sink => ({ sink: sink.name, payload }))
+          : [];
+
+        // Store events and update sync state, checkpointing the backfill job if any
+        if (options.backfillJobId !== undefined) {
+          newEvents += await this.storage.commitBackfillChunk(
+            options.backfillJobId,
+            contractAddress,
+            chainId,
+            segment.toBlock,
+            events,
+            outbox,
+            segment.fromBlock
+          );
+        } else {
+          newEvents += await this.storage.updateSyncStateAndInsertEvents(
+            contractAddress,
+            chainId,
+            segment.toBlock,
+            events,
+            blocks,
+            outbox,
+            segment.fromBlock
+          );
+        }
+        eventCount += events.length;
+        this.metrics?.eventsIndexed.inc({ chain, contract: contractName }, events.length);
+        this.metrics?.observeSyncedBlock(chain, contractName, segment.toBlock);
+
+        if (batch) {
+          for (const sink of this.sinks) {
+            sink.onCommit(batch);
+          }
+        }
+
+        if (options.trackBlocks) {
+          for (const event of events) {
+            logBlockHashes.set(event.blockNumber, event.blockHash);
+          }
+        }
+
+        launchNext();
+      }
+
+      if (options.trackBlocks) {
+        await this.storage.pruneBlockHashes(
+          contractAddress,
+          chainId,
+          toBlock - this.config.options.max_reorg_depth + 1
+        );
+      }
 
       this.logger.info({
         contract: contractConfig.name || contractAddress,
         fromBlock,
         toBlock,
-        eventCount: events.length,
+        eventCount,
+        newEvents,
       }, 'Indexed blocks successfully');
 
-    } catch (error) {
-      await this.providerPool.reportFailure(provider.id, error as Error);
+      return newEvents;
 
+    } catch (error) {
       this.logger.error({
         error: error instanceof Error ? error.message : String(error),
         contract: contractConfig.name || contractAddress,
         fromBlock,
         toBlock,
-        providerId: provider.id,
+        providerId: error instanceof RPCError ? error.providerId : undefined,
       }, 'Failed to index blocks');
 
+      if (error instanceof StorageError || error instanceof ReorgInProgressError) {
+        throw error;
+      }
+
       throw new RPCError(
         `Failed to index blocks: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof RPCError ? error.providerId : undefined
+      );
+    }
+  }
+
+  /**
+   * Compare stored block hashes against the canonical chain and roll back on mismatch
+   * @returns The common ancestor block to resume after, or null if no reorg was detected
+   */
+  async checkForReorg(
+    contractConfig: ContractConfig,
+    provider: ProviderInfo
+  ): Promise<number | null> {
+    const contractAddress = contractConfig.address.toLowerCase();
+    const { chain, chainId } = getChainSettings(this.config, getContractChain(this.config, contractConfig));
+    const storedBlocks = await this.storage.getBlockHashes(
+      contractAddress,
+      chainId,
+      this.config.options.max_reorg_depth
+    );
+
+    if (storedBlocks.length === 0) {
+      return null;
+    }
+
+    // Walk back from the most recent stored block until the hashes agree
+    let commonAncestor: number | null = null;
+    for (const stored of storedBlocks) {
+      const block = await provider.provider.getBlock(stored.blockNumber);
+      if (block && block.hash === stored.blockHash) {
+        commonAncestor = stored.blockNumber;
+        break;
+      }
+    }
+
+    const lastIndexedBlock = storedBlocks[0].blockNumber;
+    if (commonAncestor === lastIndexedBlock) {
+      return null;
+    }
+
+    if (commonAncestor === null) {
+      commonAncestor = storedBlocks[storedBlocks.length - 1].blockNumber - 1;
+      this.logger.error({
+        contract: contractConfig.name || contractAddress,
+        maxReorgDepth: this.config.options.max_reorg_depth,
+        rewindTo: commonAncestor,
+      }, 'Reorg is deeper than the tracked block window, rewinding to the oldest tracked block');
+    }
+
+    const removedEvents = await this.storage.rollbackToBlock(contractAddress, chainId, commonAncestor);
+    this.reorgCount++;
+    this.metrics?.reorgs.inc({ chain, contract: contractConfig.name || contractAddress });
+
+    this.logger.warn({
+      contract: contractConfig.name || contractAddress,
+      commonAncestor,
+      depth: lastIndexedBlock - commonAncestor,
+      removedEvents,
+      reorgCount: this.reorgCount,
+    }, 'Chain reorganization detected, rolled back to common ancestor');
+
+    return commonAncestor;
+  }
+
+  /**
+   * Contract configs for all persisted child contracts, built from their templates
+   */
+  async getChildContractConfigs(): Promise<ContractConfig[]> {
+    if (this.config.templates.length === 0) {
+      return [];
+    }
+
+    const configs: ContractConfig[] = [];
+    for (const child of await this.storage.getChildContracts()) {
+      this.knownChildren.add(`${child.chainId}:${child.address}`);
+
+      const contractConfig = this.toChildContractConfig(child);
+      if (!contractConfig) {
+        this.logger.warn({
+          address: child.address,
+          chainId: child.chainId,
+          template: child.template,
+        }, 'Skipping child contract whose template or chain is no longer configured');
+        continue;
+      }
+      configs.push(contractConfig);
+    }
+
+    return configs;
+  }
+
+  /**
+   * Persist child contracts created by factory events and start watching them in watch mode
+   */
+  private async registerChildContracts(
+    contractConfig: ContractConfig,
+    events: DecodedEvent[]
+  ): Promise<void> {
+    const templates = this.config.templates.filter(template =>
+      isTemplateFactory(template, contractConfig)
+    );
+    if (templates.length === 0) {
+      return;
+    }
+
+    // Children live on the same chain as their factory
+    const { chainId } = getChainSettings(this.config, getContractChain(this.config, contractConfig));
+    const children: ChildContract[] = [];
+    for (const event of events) {
+      for (const template of templates) {
+        if (event.eventName !== template.event) {
+          continue;
+        }
+
+        const value = event.eventData[template.address_arg];
+        if (typeof value !== 'string' || !validateEthereumAddress(value)) {
+          this.logger.warn({
+            template: template.name,
+            transactionHash: event.transactionHash,
+            argument: template.address_arg,
+          }, 'Factory event argument is not an address');
+          continue;
+        }
+
+        const address = value.toLowerCase();
+        if (this.knownChildren.has(`${chainId}:${address}`)) {
+          continue;
+        }
+        this.knownChildren.add(`${chainId}:${address}`);
+        children.push({
+          address,
+          chainId,
+          template: template.name,
+          factoryAddress: contractConfig.address.toLowerCase(),
+          createdBlock: event.blockNumber,
+        });
+      }
+    }
+
+    if (children.length === 0) {
+      return;
+    }
+
+    await this.storage.insertChildContracts(children);
+
+    for (const child of children) {
+      this.logger.info({
+        template: child.template,
+        address: child.address,
+        createdBlock: child.createdBlock,
+      }, 'Discovered child contract');
+
+      const childConfig = this.toChildContractConfig(child);
+      if (this.running && childConfig) {
+        this.watchContract(childConfig).catch(error => {
+          this.logger.error({
+            error: error instanceof Error ? error.message : String(error),
+            contract: childConfig.name,
+          }, 'Failed to start watching child contract');
+        });
+      }
+    }
+  }
+
+  /**
+   * Build a contract config for a child contract from its template
+   */
+  private toChildContractConfig(child: ChildContract): ContractConfig | null {
+    const template = this.config.templates.find(t => t.name === child.template);
+    const chain = getChainById(this.config, child.chainId);
+    if (!template || !chain || !this.providerPools.has(chain)) {
+      return null;
+    }
+
+    return {
+      address: child.address,
+      name: `${template.name} ${child.address}`,
+      events: template.events,
+      from_block: child.createdBlock,
+      abi: template.abi,
+      raw_logs: template.raw_logs,
+      chain,
+    };
+  }
+
+  /**
+   * Number of chain reorganizations detected since the indexer was created
+   */
+  getReorgCount(): number {
+    return this.reorgCount;
+  }
+
+  /**
+   * Fetch events for one segment with a provider from the pool
+   */
+  private async fetchSegment(
+    contractConfig: ContractConfig,
+    providerPool: ProviderPool,
+    decoder: EventDecoder,
+    fetchers: Map<string, EventFetcher>,
+    segment: BlockRange
+  ): Promise<EnrichedEvent[]> {
+    const provider = await providerPool.getProvider();
+
+    let fetcher = fetchers.get(provider.id);
+    if (!fetcher) {
+      fetcher = new EventFetcher(
+        provider.provider,
+        provider.id,
+        decoder,
+        this.logger,
+        this.config.options.batch_size,
+        this.metrics
+      );
+      fetchers.set(provider.id, fetcher);
+    }
+
+    try {
+      const events = await fetcher.fetchEvents(
+        contractConfig.address.toLowerCase(),
+        contractConfig.events,
+        segment.fromBlock,
+        segment.toBlock,
+        { rawLogs: contractConfig.raw_logs }
+      );
+      await providerPool.reportSuccess(provider.id);
+      return events;
+    } catch (error) {
+      await providerPool.reportFailure(provider.id, error as Error);
+      throw new RPCError(
+        `Failed to fetch blocks ${segment.fromBlock}-${segment.toBlock}: ${error instanceof Error ? error.message : String(error)}`,
+        provider.id
+      );
+    }
+  }
+
+  /**
+   * Split a block range into batch_size segments
+   */
+  private splitRange(fromBlock: number, toBlock: number): BlockRange[] {
+    const segments: BlockRange[] = [];
+    const segmentSize = this.config.options.batch_size;
+
+    for (let start = fromBlock; start <= toBlock; start += segmentSize) {
+      segments.push({ fromBlock: start, toBlock: Math.min(start + segmentSize - 1, toBlock) });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Get a contract's ABI, merged with its implementations' ABIs if it is a proxy
+   */
+  private async getContractABI(
+    contractConfig: ContractConfig,
+    chainId: number,
+    providerPool: ProviderPool
+  ): Promise<Interface> {
+    const contractAddress = contractConfig.address.toLowerCase();
+    if (contractConfig.abi) {
+      return this.abiFetcher.getABI(contractAddress, chainId, contractConfig.abi);
+    }
+
+    // Detect proxies through the pool so RPC failures count against the provider
+    const provider = await providerPool.getProvider();
+    try {
+      await this.abiFetcher.getProxyInfo(contractAddress, chainId, provider.provider);
+      await providerPool.reportSuccess(provider.id);
+    } catch (error) {
+      await providerPool.reportFailure(provider.id, error as Error);
+      throw new RPCError(
+        `Failed to detect proxy: ${error instanceof Error ? error.message : String(error)}`,
         provider.id
       );
     }
+
+    return this.abiFetcher.getABI(contractAddress, chainId, undefined, provider.provider);
+  }
+
+  /**
+   * Create the per-event views of a configured contract, once per process
+   * Child contracts share their template's events, so they get no views of their own.
+   * Views are a convenience for querying, so failures are logged and indexing continues.
+   */
+  private async syncEventViews(contractConfig: ContractConfig, chainId: number, iface: Interface): Promise<void> {
+    const contractAddress = contractConfig.address.toLowerCase();
+    const key = `${chainId}:${contractAddress}`;
+    const configured = this.config.contracts.some(contract => contract.address.toLowerCase() === contractAddress);
+    if (!configured || this.syncedViews.has(key)) {
+      return;
+    }
+    this.syncedViews.add(key);
+
+    try {
+      const views = buildEventViews(contractAddress, contractConfig.name, iface, contractConfig.events);
+      await this.storage.syncEventViews(contractAddress, chainId, views);
+      this.logger.debug({
+        contract: contractConfig.name || contractAddress,
+        views: views.map(view => view.name),
+      }, 'Synced event views');
+    } catch (error) {
+      this.logger.warn({
+        contract: contractConfig.name || contractAddress,
+        error: error instanceof Error ? error.message : String(error),
+      }, 'Failed to create event views');
+    }
+  }
+
+  /**
+   * Fetch the reorg window's headers for the final segment of a range
+   * Headers and logs come from separate calls that may reach different providers, so while
+   * they disagree the segment is fetched again rather than storing hashes of another fork.
+   */
+  private async fetchReorgWindow(
+    contractConfig: ContractConfig,
+    chainId: number,
+    providerPool: ProviderPool,
+    decoder: EventDecoder,
+    fetchers: Map<string, EventFetcher>,
+    segment: BlockRange,
+    fromBlock: number,
+    events: EnrichedEvent[],
+    logBlockHashes: Map<number, string>
+  ): Promise<{ events: EnrichedEvent[]; blocks: BlockRecord[] }> {
+    const contractAddress = contractConfig.address.toLowerCase();
+
+    for (let attempt = 1; ; attempt++) {
+      const expectedHashes = new Map(logBlockHashes);
+      for (const event of events) {
+        expectedHashes.set(event.blockNumber, event.blockHash);
+      }
+
+      try {
+        const blocks = await this.fetchBlockRecordsWithPool(
+          contractAddress,
+          chainId,
+          providerPool,
+          fromBlock,
+          segment.toBlock,
+          expectedHashes
+        );
+        return { events, blocks };
+      } catch (error) {
+        if (!(error instanceof ReorgInProgressError) || attempt >= REORG_WINDOW_ATTEMPTS) {
+          throw error;
+        }
+        this.logger.warn({
+          contract: contractConfig.name || contractAddress,
+          fromBlock: segment.fromBlock,
+          toBlock: segment.toBlock,
+          attempt,
+          error: error.message,
+        }, 'Chain reorganization in progress, refetching the reorg window');
+        events = await this.fetchSegment(contractConfig, providerPool, decoder, fetchers, segment);
+      }
+    }
+  }
+
+  /**
+   * Fetch block records with a provider from the pool, reporting its health
+   * A reorg in progress isn't reported as a failure of the provider.
+   */
+  private async fetchBlockRecordsWithPool(
+    contractAddress: string,
+    chainId: number,
+    providerPool: ProviderPool,
+    fromBlock: number,
+    toBlock: number,
+    logBlockHashes: Map<number, string>
+  ): Promise<BlockRecord[]> {
+    const provider = await providerPool.getProvider();
+
+    try {
+      const records = await this.fetchBlockRecords(
+        contractAddress,
+        chainId,
+        provider,
+        fromBlock,
+        toBlock,
+        logBlockHashes
+      );
+      await providerPool.reportSuccess(provider.id);
+      return records;
+    } catch (error) {
+      if (error instanceof ReorgInProgressError) {
+        await providerPool.reportSuccess(provider.id);
+        throw error;
+      }
+      await providerPool.reportFailure(provider.id, error as Error);
+      throw new RPCError(
+        `Failed to fetch block headers: ${error instanceof Error ? error.message : String(error)}`,
+        provider.id
+      );
+    }
+  }
+
+  /**
+   * Fetch headers for the tail of a range that falls within the reorg window
+   * and verify that their parent hashes link up with the last stored block,
+   * and that blocks with logs have the hashes the logs were fetched with
+   */
+  private async fetchBlockRecords(
+    contractAddress: string,
+    chainId: number,
+    provider: ProviderInfo,
+    fromBlock: number,
+    toBlock: number,
+    logBlockHashes: Map<number, string>
+  ): Promise<BlockRecord[]> {
+    const windowStart = Math.max(fromBlock, toBlock - this.config.options.max_reorg_depth + 1);
+    const blockNumbers: number[] = [];
+    for (let blockNumber = windowStart; blockNumber <= toBlock; blockNumber++) {
+      blockNumbers.push(blockNumber);
+    }
+
+    const blocks = await Promise.all(
+      blockNumbers.map(blockNumber => provider.provider.getBlock(blockNumber))
+    );
+
+    const records: BlockRecord[] = blocks.map((block, i) => {
+      if (!block || !block.hash) {
+        throw new Error(`Block ${blockNumbers[i]} not found`);
+      }
+      return {
+        blockNumber: block.number,
+        blockHash: block.hash,
+        parentHash: block.parentHash,
+      };
+    });
+
+    // The first header only links to stored state when the range continues from it
+    let previous: BlockRecord | undefined;
+    if (windowStart === fromBlock) {
+      const [lastStored] = await this.storage.getBlockHashes(contractAddress, chainId, 1);
+      if (lastStored && lastStored.blockNumber === fromBlock - 1) {
+        previous = lastStored;
+      }
+    }
+
+    for (const record of records) {
+      if (previous && record.parentHash !== previous.blockHash) {
+        throw new ReorgInProgressError(
+          `Parent hash mismatch at block ${record.blockNumber}, chain reorganization in progress`,
+          provider.id
+        );
+      }
+      const logBlockHash = logBlockHashes.get(record.blockNumber);
+      if (logBlockHash !== undefined && record.blockHash !== logBlockHash) {
+        throw new ReorgInProgressError(
+          `Block hash mismatch at block ${record.blockNumber}, chain reorganization in progress`,
+          provider.id
+        );
+      }
+      previous = record;
+    }
+
+    return records;
   }
 
   /**
@@ -257,19 +1010,33 @@ export class Indexer {
     this.running = false;
 
     // Clear all watch task timeouts
-    for (const [contractAddress, timeout] of this.watchTasks.entries()) {
+    for (const [watchKey, timeout] of this.watchTasks.entries()) {
       clearTimeout(timeout);
-      this.logger.debug({ contractAddress }, 'Stopped watching contract');
+      this.logger.debug({ contract: watchKey }, 'Stopped watching contract');
     }
 
     this.watchTasks.clear();
+    this.watchWakers.clear();
+
+    // Close the new heads subscriptions
+    for (const retry of this.subscriptionRetries.values()) {
+      clearTimeout(retry);
+    }
+    this.subscriptionRetries.clear();
+    await Promise.all([...this.headSubscriptions.values()].map(subscription => subscription.stop()));
+    this.headSubscriptions.clear();
+
     this.logger.info('Indexer stopped');
   }
 
   /**
-   * Get chain ID from chain name
+   * Get the provider pool of a chain
    */
-  private getChainId(chain: Chain): number {
-    return CHAIN_IDS[chain];
+  private getProviderPool(chain: Chain): ProviderPool {
+    const providerPool = this.providerPools.get(chain);
+    if (!providerPool) {
+      throw new ConfigError(`No providers configured for chain "${chain}"`);
+    }
+    return providerPool;
   }
 }
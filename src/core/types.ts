@@ -6,4 +6,28 @@ export interface DecodedEvent {
   logIndex: number;
   eventName: string;
   eventData: Record<string, unknown>;
+  /** Chain the event was indexed from; absent for rows written before multi-chain support */
+  chainId?: number;
+}
+
+/**
+ * Inclusive block range
+ */
+export interface BlockRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface BlockRecord {
+  blockNumber: number;
+  blockHash: string;
+  parentHash: string;
+}
+
+export interface ChildContract {
+  address: string;
+  chainId: number;
+  template: string;
+  factoryAddress: string;
+  createdBlock: number;
 }
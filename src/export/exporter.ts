@@ -0,0 +1,147 @@
+import { mkdirSync } from 'node:fs';
+import * as path from 'node:path';
+import { DecodedEvent } from '../core/types.js';
+import {
+  EXPORT_FILE_EXTENSIONS,
+  ExportFileWriter,
+  ExportFormat,
+  createExportFileWriter,
+  getEventDataShape,
+} from './writers.js';
+
+/**
+ * Ways to split an export into several files
+ * - event: one file per event name
+ * - block: one file per range of partitionBlocks blocks
+ */
+export const EXPORT_PARTITIONS = ['event', 'block'] as const;
+
+export type ExportPartition = (typeof EXPORT_PARTITIONS)[number];
+
+/**
+ * Default number of blocks per file when partitioning by block
+ */
+export const DEFAULT_PARTITION_BLOCKS = 1_000_000;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Output file, or the output directory when the export is partitioned */
+  output: string;
+  partitionBy?: ExportPartition[];
+  /** Blocks per file when partitioning by block */
+  partitionBlocks?: number;
+}
+
+export interface ExportFile {
+  path: string;
+  events: number;
+}
+
+export interface ExportResult {
+  files: ExportFile[];
+  events: number;
+}
+
+interface OpenFile extends ExportFile {
+  writer: ExportFileWriter;
+  /** First block of the file's block range, when partitioning by block */
+  blockRange: number | null;
+}
+
+/**
+ * Write events to export files as they are read
+ * Parquet files have a column per eventData field, so Parquet exports are always partitioned
+ * by event name, and events of one name with different fields go to numbered files.
+ * Events must arrive in block order: when partitioning by block, the files of a range are
+ * closed as soon as an event of a later range arrives, so only one range is open at a time.
+ * Nothing is written if there are no events.
+ */
+export async function exportEvents(events: AsyncIterable<DecodedEvent>, options: ExportOptions): Promise<ExportResult> {
+  const partitionBy = new Set(options.partitionBy ?? []);
+  if (options.format === 'parquet') {
+    partitionBy.add('event');
+  }
+  const partitionBlocks = options.partitionBlocks ?? DEFAULT_PARTITION_BLOCKS;
+  const extension = EXPORT_FILE_EXTENSIONS[options.format];
+
+  const open = new Map<string, OpenFile>();
+  const shapes = new Map<string, string[]>();
+  const files: ExportFile[] = [];
+  let total = 0;
+  let currentRange = -Infinity;
+
+  const closeFiles = async (keep: (file: OpenFile) => boolean) => {
+    for (const [key, file] of open) {
+      if (!keep(file)) {
+        open.delete(key);
+        await file.writer.close();
+        files.push({ path: file.path, events: file.events });
+      }
+    }
+  };
+
+  try {
+    for await (const event of events) {
+      const blockRange = partitionBy.has('block')
+        ? Math.floor(event.blockNumber / partitionBlocks) * partitionBlocks
+        : null;
+      if (blockRange !== null && blockRange !== currentRange) {
+        if (blockRange < currentRange) {
+          throw new Error(`Events must be exported in block order, block ${event.blockNumber} arrived too late`);
+        }
+        await closeFiles(file => file.blockRange === blockRange);
+        currentRange = blockRange;
+      }
+
+      // File name without extension, relative to the output directory
+      const parts: string[] = [];
+      if (partitionBy.has('event')) {
+        parts.push(toFileName(event.eventName));
+      }
+      if (blockRange !== null) {
+        parts.push(`blocks-${blockRange}-${blockRange + partitionBlocks - 1}`);
+      }
+      let name = parts.join(path.sep);
+
+      if (options.format === 'parquet') {
+        const known = shapes.get(name) ?? [];
+        const shape = getEventDataShape(event);
+        if (!known.includes(shape)) {
+          known.push(shape);
+          shapes.set(name, known);
+        }
+        const index = known.indexOf(shape);
+        name = index === 0 ? name : `${name}-${index + 1}`;
+      }
+
+      let file = open.get(name);
+      if (!file) {
+        const filePath = parts.length > 0 ? path.join(options.output, `${name}${extension}`) : options.output;
+        mkdirSync(path.dirname(filePath), { recursive: true });
+        file = { path: filePath, events: 0, writer: createExportFileWriter(options.format, filePath), blockRange };
+        open.set(name, file);
+      }
+
+      await file.writer.write(event);
+      file.events++;
+      total++;
+    }
+
+    await closeFiles(() => false);
+  } catch (error) {
+    // Close what was opened so file handles aren't leaked
+    for (const file of open.values()) {
+      await file.writer.close().catch(() => undefined);
+    }
+    throw error;
+  }
+
+  return { files, events: total };
+}
+
+/**
+ * Event name as a file name, e.g. "(unknown)" -> "_unknown_"
+ */
+function toFileName(eventName: string): string {
+  return eventName.replace(/[^A-Za-z0-9_.-]/g, '_');
+}
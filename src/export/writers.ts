@@ -0,0 +1,203 @@
+import { closeSync, createWriteStream, openSync, WriteStream, writeSync } from 'node:fs';
+import { once } from 'node:events';
+import { finished } from 'node:stream/promises';
+import { ByteWriter, ColumnSource, ParquetWriter, schemaFromColumnData } from 'hyparquet-writer';
+import { DecodedEvent } from '../core/types.js';
+import { formatCsvHeader, formatCsvRow } from '../cli/output.js';
+
+/**
+ * File formats supported by the export command
+ */
+export const EXPORT_FORMATS = ['parquet', 'csv', 'ndjson'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  parquet: '.parquet',
+  csv: '.csv',
+  ndjson: '.ndjson',
+};
+
+/**
+ * Rows buffered per Parquet row group
+ */
+const PARQUET_ROW_GROUP_SIZE = 10000;
+
+/**
+ * Writes events to one export file
+ */
+export interface ExportFileWriter {
+  write(event: DecodedEvent): Promise<void>;
+  /** Flush buffered rows and close the file */
+  close(): Promise<void>;
+}
+
+/**
+ * Create a writer for one export file, replacing any existing file
+ * Parquet files take their eventData columns from the first event, so every event
+ * written to one Parquet file must have the same eventData fields.
+ */
+export function createExportFileWriter(format: ExportFormat, path: string): ExportFileWriter {
+  switch (format) {
+    case 'parquet':
+      return new ParquetFileWriter(path);
+    case 'csv':
+      return new TextFileWriter(path, formatCsvRow, formatCsvHeader());
+    case 'ndjson':
+      return new TextFileWriter(path, event => JSON.stringify(event));
+  }
+}
+
+/**
+ * Line-based writer for CSV and NDJSON
+ */
+class TextFileWriter implements ExportFileWriter {
+  private stream: WriteStream;
+
+  constructor(path: string, private formatLine: (event: DecodedEvent) => string, header?: string) {
+    this.stream = createWriteStream(path);
+    if (header !== undefined) {
+      this.stream.write(`${header}\n`);
+    }
+  }
+
+  async write(event: DecodedEvent): Promise<void> {
+    // Wait for the file to catch up instead of buffering the export in memory
+    if (!this.stream.write(`${this.formatLine(event)}\n`)) {
+      await once(this.stream, 'drain');
+    }
+  }
+
+  async close(): Promise<void> {
+    this.stream.end();
+    await finished(this.stream);
+  }
+}
+
+/**
+ * Column of a Parquet export file
+ */
+interface ParquetColumn {
+  name: string;
+  type: NonNullable<ColumnSource['type']>;
+  value: (event: DecodedEvent) => unknown;
+}
+
+/**
+ * Parquet writer with one column per eventData field, written one row group at a time
+ */
+class ParquetFileWriter implements ExportFileWriter {
+  private sink: ParquetFileSink;
+  private writer: ParquetWriter | null = null;
+  private columns: ParquetColumn[] | null = null;
+  private rows: DecodedEvent[] = [];
+
+  constructor(path: string) {
+    this.sink = new ParquetFileSink(path);
+  }
+
+  async write(event: DecodedEvent): Promise<void> {
+    this.columns ??= getParquetColumns(event);
+    this.rows.push(event);
+    if (this.rows.length >= PARQUET_ROW_GROUP_SIZE) {
+      await this.writeRowGroup();
+    }
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.writeRowGroup();
+      await this.writer?.finish();
+    } finally {
+      this.sink.close();
+    }
+  }
+
+  private async writeRowGroup(): Promise<void> {
+    if (this.rows.length === 0 || !this.columns) {
+      return;
+    }
+
+    const columnData: ColumnSource[] = this.columns.map(column => ({
+      name: column.name,
+      type: column.type,
+      nullable: true,
+      data: this.rows.map(row => column.value(row) ?? null),
+    }));
+    this.writer ??= new ParquetWriter({ writer: this.sink, schema: schemaFromColumnData({ columnData }) });
+    await this.writer.write({ columnData, rowGroupSize: this.rows.length });
+    this.rows = [];
+  }
+}
+
+/**
+ * Byte writer that appends to a file each time the Parquet writer flushes
+ */
+class ParquetFileSink extends ByteWriter {
+  private fd: number;
+
+  constructor(path: string) {
+    super();
+    this.fd = openSync(path, 'w');
+  }
+
+  flush(): void {
+    writeSync(this.fd, new Uint8Array(this.buffer, 0, this.index));
+    this.index = 0;
+  }
+
+  finish(): void {
+    this.flush();
+  }
+
+  close(): void {
+    closeSync(this.fd);
+  }
+}
+
+/**
+ * Columns of a Parquet file: the event's location followed by its eventData fields
+ * Decoded integers are strings, so uint256 values keep their precision.
+ */
+function getParquetColumns(event: DecodedEvent): ParquetColumn[] {
+  const columns: ParquetColumn[] = [
+    { name: 'chain_id', type: 'INT32', value: e => e.chainId },
+    { name: 'contract_address', type: 'STRING', value: e => e.contractAddress },
+    { name: 'block_number', type: 'INT64', value: e => BigInt(e.blockNumber) },
+    { name: 'block_timestamp', type: 'INT64', value: e => BigInt(e.blockTimestamp) },
+    { name: 'transaction_hash', type: 'STRING', value: e => e.transactionHash },
+    { name: 'log_index', type: 'INT32', value: e => e.logIndex },
+    { name: 'event_name', type: 'STRING', value: e => e.eventName },
+  ];
+
+  const names = new Set(columns.map(column => column.name));
+  for (const [field, value] of Object.entries(event.eventData)) {
+    // Fields named like a base column are prefixed rather than dropped
+    const name = names.has(field) ? `arg_${field}` : field;
+    names.add(name);
+    columns.push({ name, type: getParquetType(value), value: e => e.eventData[field] });
+  }
+
+  return columns;
+}
+
+function getParquetType(value: unknown): ParquetColumn['type'] {
+  switch (typeof value) {
+    case 'string':
+      return 'STRING';
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'number':
+      return 'DOUBLE';
+    default:
+      return 'JSON';
+  }
+}
+
+/**
+ * Key of an event's eventData fields and value types
+ * Events with the same key can share a Parquet file.
+ */
+export function getEventDataShape(event: DecodedEvent): string {
+  return Object.entries(event.eventData).map(([field, value]) => `${field}:${getParquetType(value)}`).join(',');
+}
@@ -3,35 +3,114 @@ export * from './core/types.js';
 
 // Export main indexer
 export { Indexer } from './core/indexer.js';
+export type { BackfillResult } from './core/indexer.js';
 
 // Export storage adapters
-export { StorageAdapter, EventFilter } from './storage/adapter.js';
+export type {
+  StorageAdapter,
+  EventFilter,
+  SyncState,
+  OutboxEntry,
+  OutboxDelivery,
+} from './storage/adapter.js';
 export { SQLiteAdapter } from './storage/sqlite.js';
+export { PostgresAdapter } from './storage/postgres.js';
+export { createStorageAdapter } from './storage/factory.js';
+export { buildEventViews } from './storage/event-views.js';
+export type { EventView, EventViewColumn, EventViewColumnType } from './storage/event-views.js';
+export { ARG_OPERATORS, ARG_INDEX_TYPES } from './storage/arg-filters.js';
+export type {
+  ArgPredicate,
+  ArgOperator,
+  ArgComparisonOperator,
+  ArgIndex,
+  ArgIndexType,
+} from './storage/arg-filters.js';
+export type { Migration } from './storage/migrations/index.js';
+export {
+  SQLITE_MIGRATIONS,
+  getPendingMigrations,
+  getSchemaVersion,
+  runMigrations,
+} from './storage/migrations/index.js';
+
+// Export event exporter
+export { exportEvents, EXPORT_PARTITIONS } from './export/exporter.js';
+export type { ExportOptions, ExportResult, ExportFile, ExportPartition } from './export/exporter.js';
+export { EXPORT_FORMATS } from './export/writers.js';
+export type { ExportFormat } from './export/writers.js';
 
 // Export configuration
-export {
+export type {
   Config,
   ContractConfig,
+  EventConfig,
+  EventsConfig,
+  TemplateConfig,
   ProviderConfig,
+  ChainConfig,
+  SinkConfig,
+  WebhookSinkConfig,
+  KafkaSinkConfig,
   DatabaseConfig,
   OptionsConfig,
   Chain,
+} from './cli/config.js';
+export {
   parseConfig,
   loadConfigFile,
+  resolveContractAddress,
+  getEventName,
+  getEventNames,
+  ALL_EVENTS,
+  isTemplateFactory,
+  getChainRegistry,
 } from './cli/config.js';
 
+// Export chain registry
+export { ChainRegistry, BUILTIN_CHAINS } from './core/chains.js';
+export type { ChainDefinition, ABISourceDefinition, ABISourceType } from './core/chains.js';
+
+// Export HTTP API server
+export { ApiServer } from './server/api-server.js';
+export type { ApiServerOptions } from './server/api-server.js';
+
+// Export metrics
+export { Metrics } from './utils/metrics.js';
+export { MetricsServer } from './server/metrics-server.js';
+export type { MetricsServerOptions } from './server/metrics-server.js';
+
+// Export event sinks
+export type { EventSink, EventBatch } from './sinks/sink.js';
+export { OutboxSink } from './sinks/outbox-sink.js';
+export { WebhookSink, signWebhookPayload } from './sinks/webhook.js';
+export { KafkaSink } from './sinks/kafka.js';
+export { createEventSinks } from './sinks/factory.js';
+
 // Export provider pool
-export { ProviderPool, ProviderInfo, ProviderHealth } from './providers/provider-pool.js';
+export { ProviderPool } from './providers/provider-pool.js';
+export type { ProviderInfo, ProviderHealth } from './providers/provider-pool.js';
 
 // Export ABI utilities
 export { ABIFetcher } from './abi/fetcher.js';
-export { EventDecoder } from './abi/decoder.js';
+export { isInlineABI, parseInlineABI } from './abi/inline.js';
+export { detectProxy, mergeABIs } from './abi/proxy.js';
+export type { ProxyInfo, ProxyType } from './abi/proxy.js';
+export type { ABISource, ABISourceResult } from './abi/sources/source.js';
+export { EtherscanSource } from './abi/sources/etherscan.js';
+export { SourcifySource } from './abi/sources/sourcify.js';
+export { BlockscoutSource } from './abi/sources/blockscout.js';
+export { EventDecoder, UNKNOWN_EVENT_NAME } from './abi/decoder.js';
 
 // Export event fetcher
 export { EventFetcher } from './core/event-fetcher.js';
 
+// Export coverage helpers
+export { findCoverageGaps } from './core/coverage.js';
+
 // Export logger
-export { createLogger, Logger } from './utils/logger.js';
+export { createLogger } from './utils/logger.js';
+export type { Logger } from './utils/logger.js';
 
 // Export errors
 export {
@@ -41,4 +120,5 @@ export {
   StorageError,
   ABIError,
   FileSystemError,
+  SinkError,
 } from './utils/errors.js';
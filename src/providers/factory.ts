@@ -0,0 +1,18 @@
+import { Config, Chain, getChainSettings, getConfiguredChains } from '../cli/config.js';
+import { ProviderPool } from './provider-pool.js';
+
+/**
+ * Create one provider pool per chain that configured contracts are indexed on
+ */
+export function createProviderPools(config: Config): Map<Chain, ProviderPool> {
+  const pools = new Map<Chain, ProviderPool>();
+
+  for (const chain of getConfiguredChains(config)) {
+    pools.set(chain, new ProviderPool(getChainSettings(config, chain).providers, {
+      failureThreshold: 3,
+      cooldownPeriod: 30000,
+    }));
+  }
+
+  return pools;
+}
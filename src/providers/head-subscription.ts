@@ -0,0 +1,154 @@
+import WebSocket from 'ws';
+
+/**
+ * Time allowed for connecting and confirming the eth_subscribe request
+ */
+const SUBSCRIBE_TIMEOUT = 10000;
+
+/**
+ * JSON-RPC response or subscription notification
+ */
+interface JsonRpcMessage {
+  id?: number;
+  result?: unknown;
+  error?: { message?: string };
+  method?: string;
+  params?: { subscription?: string; result?: { number?: string } };
+}
+
+export interface HeadSubscriptionHandlers {
+  /** Called with the block number of every new head */
+  onBlock: (blockNumber: number) => void;
+  /** Called when an established subscription drops; not called after stop() */
+  onClose: (error: Error) => void;
+}
+
+/**
+ * HeadSubscription listens for new blocks with eth_subscribe("newHeads") over a WebSocket
+ */
+export class HeadSubscription {
+  private socket: WebSocket | null = null;
+  private subscriptionId: string | null = null;
+  private stopped = false;
+
+  constructor(
+    private url: string,
+    private handlers: HeadSubscriptionHandlers,
+    private timeout: number = SUBSCRIBE_TIMEOUT
+  ) {}
+
+  /**
+   * Connect and subscribe to new heads
+   * Resolves once the node confirms the subscription, rejects if it cannot be established
+   */
+  async start(): Promise<void> {
+    if (this.socket) {
+      throw new Error('Head subscription is already started');
+    }
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      let socketError: Error | null = null;
+      const timer = setTimeout(() => {
+        fail(new Error(`Timed out subscribing to new heads at ${this.url}`));
+      }, this.timeout);
+
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        this.socket = null;
+        socket.terminate();
+        reject(error);
+      };
+
+      socket.on('error', error => {
+        socketError = error;
+      });
+
+      socket.on('open', () => {
+        socket.send(JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'eth_subscribe',
+          params: ['newHeads'],
+        }));
+      });
+
+      socket.on('message', data => {
+        let message: JsonRpcMessage;
+        try {
+          message = JSON.parse(data.toString());
+        } catch {
+          return;
+        }
+
+        // Response to our eth_subscribe request
+        if (message.id === 1 && this.subscriptionId === null) {
+          if (message.error || typeof message.result !== 'string') {
+            fail(new Error(
+              `eth_subscribe failed: ${message.error?.message ?? 'invalid subscription id'}`
+            ));
+            return;
+          }
+          clearTimeout(timer);
+          this.subscriptionId = message.result;
+          resolve();
+          return;
+        }
+
+        if (
+          message.method === 'eth_subscription' &&
+          message.params?.subscription === this.subscriptionId
+        ) {
+          const blockNumber = Number(message.params.result?.number);
+          if (Number.isSafeInteger(blockNumber)) {
+            this.handlers.onBlock(blockNumber);
+          }
+        }
+      });
+
+      socket.on('close', code => {
+        const error = new Error(
+          `WebSocket connection to ${this.url} closed${socketError ? `: ${socketError.message}` : ` (code ${code})`}`
+        );
+
+        if (this.subscriptionId === null) {
+          fail(error);
+          return;
+        }
+
+        this.socket = null;
+        this.subscriptionId = null;
+        if (!this.stopped) {
+          this.handlers.onClose(error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Whether the subscription is established
+   */
+  isActive(): boolean {
+    return this.subscriptionId !== null;
+  }
+
+  /**
+   * Close the socket without reporting it as a dropped subscription
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    const socket = this.socket;
+    if (!socket || socket.readyState === WebSocket.CLOSED) {
+      return;
+    }
+
+    this.socket = null;
+    await new Promise<void>(resolve => {
+      socket.once('close', () => resolve());
+      socket.close();
+    });
+  }
+}
@@ -1,10 +1,11 @@
 import { ethers } from 'ethers';
+import { WebSocketRpcProvider, isWebSocketUrl } from './websocket-provider.js';
 
 export interface ProviderInfo {
   id: string;
   url: string;
   priority: number;
-  provider: ethers.JsonRpcProvider;
+  provider: ethers.JsonRpcApiProvider;
 }
 
 export interface ProviderHealth {
@@ -16,6 +17,8 @@ export interface ProviderHealth {
   lastFailure: number | null;
   lastSuccess: number | null;
   lastError?: string;
+  totalFailures: number;
+  selections: number;
 }
 
 export interface ProviderPoolOptions {
@@ -27,12 +30,14 @@ interface ProviderEntry {
   id: string;
   url: string;
   priority: number;
-  provider: ethers.JsonRpcProvider;
+  provider: ethers.JsonRpcApiProvider;
   healthy: boolean;
   consecutiveFailures: number;
   lastFailure: number | null;
   lastSuccess: number | null;
   lastError?: string;
+  totalFailures: number;
+  selections: number;
 }
 
 /**
@@ -59,7 +64,7 @@ export class ProviderPool {
     // Initialize providers
     for (const config of providerConfigs) {
       const id = this.generateProviderId(config.url);
-      const provider = new ethers.JsonRpcProvider(config.url);
+      const provider = this.createProvider(id, config.url);
 
       const entry: ProviderEntry = {
         id,
@@ -70,6 +75,8 @@ export class ProviderPool {
         consecutiveFailures: 0,
         lastFailure: null,
         lastSuccess: null,
+        totalFailures: 0,
+        selections: 0,
       };
 
       this.providers.set(id, entry);
@@ -121,6 +128,8 @@ export class ProviderPool {
       // Use round-robin on weighted list for load distribution with priority bias
       const provider = weightedList[this.roundRobinIndex % weightedList.length];
       this.roundRobinIndex++;
+      provider.selections++;
+      this.reconnectIfClosed(provider);
 
       return {
         id: provider.id,
@@ -132,6 +141,8 @@ export class ProviderPool {
 
     // If we found an unhealthy provider past cooldown, give it another chance
     if (bestUnhealthyProvider) {
+      bestUnhealthyProvider.selections++;
+      this.reconnectIfClosed(bestUnhealthyProvider);
       return {
         id: bestUnhealthyProvider.id,
         url: bestUnhealthyProvider.url,
@@ -168,6 +179,7 @@ export class ProviderPool {
     }
 
     entry.consecutiveFailures++;
+    entry.totalFailures++;
     entry.lastFailure = Date.now();
     entry.lastError = error.message;
 
@@ -190,9 +202,71 @@ export class ProviderPool {
       lastFailure: entry.lastFailure,
       lastSuccess: entry.lastSuccess,
       ...(entry.lastError && { lastError: entry.lastError }),
+      totalFailures: entry.totalFailures,
+      selections: entry.selections,
     }));
   }
 
+  /**
+   * URL of the preferred WebSocket provider for subscriptions, or null if none is configured
+   * Healthy providers are preferred, in priority order
+   */
+  getSubscriptionUrl(): string | null {
+    const webSocketProviders = this.providerList.filter(entry => isWebSocketUrl(entry.url));
+    const preferred = webSocketProviders.find(entry => entry.healthy) ?? webSocketProviders[0];
+    return preferred?.url ?? null;
+  }
+
+  /**
+   * Close all provider connections
+   */
+  async destroy(): Promise<void> {
+    for (const entry of this.providerList) {
+      entry.provider.destroy();
+    }
+  }
+
+  /**
+   * Create a provider for a URL, over WebSocket for ws:// and wss:// URLs
+   */
+  private createProvider(id: string, url: string): ethers.JsonRpcApiProvider {
+    if (!isWebSocketUrl(url)) {
+      return new ethers.JsonRpcProvider(url);
+    }
+
+    const provider: WebSocketRpcProvider = new WebSocketRpcProvider(url, error => {
+      this.handleSocketClose(id, provider, error);
+    });
+    return provider;
+  }
+
+  /**
+   * Mark a provider unhealthy when its WebSocket drops
+   */
+  private handleSocketClose(id: string, provider: WebSocketRpcProvider, error: Error): void {
+    const entry = this.providers.get(id);
+    // Ignore closes of connections that were already replaced
+    if (!entry || entry.provider !== provider) {
+      return;
+    }
+
+    entry.healthy = false;
+    entry.consecutiveFailures = Math.max(entry.consecutiveFailures, this.failureThreshold);
+    entry.totalFailures++;
+    entry.lastFailure = Date.now();
+    entry.lastError = error.message;
+  }
+
+  /**
+   * Replace a closed WebSocket provider with a new connection
+   */
+  private reconnectIfClosed(entry: ProviderEntry): void {
+    if (entry.provider instanceof WebSocketRpcProvider && entry.provider.isClosed()) {
+      entry.provider.destroy();
+      entry.provider = this.createProvider(entry.id, entry.url);
+    }
+  }
+
   /**
    * Generate a unique ID for a provider based on URL
    */
@@ -0,0 +1,65 @@
+import { ethers } from 'ethers';
+import WebSocket from 'ws';
+
+/**
+ * Whether a provider URL uses the WebSocket protocol
+ */
+export function isWebSocketUrl(url: string): boolean {
+  return /^wss?:\/\//i.test(url);
+}
+
+/**
+ * WebSocket JSON-RPC provider that fails in-flight requests when its socket closes
+ * ethers' WebSocketProvider leaves them pending forever, which would stall the indexer.
+ * A closed provider stays closed; the pool replaces it with a new connection.
+ */
+export class WebSocketRpcProvider extends ethers.WebSocketProvider {
+  private closed: Promise<never>;
+  private closedError: Error | null;
+
+  constructor(url: string, onClose?: (error: Error) => void) {
+    let rejectClosed!: (error: Error) => void;
+    const closed = new Promise<never>((_, reject) => {
+      rejectClosed = reject;
+    });
+    // Only observed through _send; don't report it as unhandled
+    closed.catch(() => undefined);
+
+    let socketError: Error | null = null;
+    super(() => {
+      const socket = new WebSocket(url);
+      // An error is always followed by close, which carries the failure
+      socket.on('error', error => {
+        socketError = error;
+      });
+      socket.on('close', code => {
+        const error = new Error(
+          `WebSocket connection to ${url} closed${socketError ? `: ${socketError.message}` : ` (code ${code})`}`
+        );
+        this.closedError = error;
+        rejectClosed(error);
+        onClose?.(error);
+      });
+      return socket as unknown as ethers.WebSocketLike;
+    });
+
+    this.closed = closed;
+    this.closedError = null;
+  }
+
+  /**
+   * Whether the underlying socket has closed
+   */
+  isClosed(): boolean {
+    return this.closedError !== null;
+  }
+
+  async _send(
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+  ): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    if (this.closedError) {
+      throw this.closedError;
+    }
+    return Promise.race([super._send(payload), this.closed]);
+  }
+}
@@ -0,0 +1,255 @@
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  Config,
+  getChainId,
+  getContractChain,
+  parseChain,
+  resolveContractAddress,
+} from '../cli/config.js';
+import { EventFilter, StorageAdapter } from '../storage/adapter.js';
+import { ARG_PATH_PATTERN } from '../storage/arg-filters.js';
+import { Logger } from '../utils/logger.js';
+import { ConfigError } from '../utils/errors.js';
+
+/**
+ * Default and maximum page sizes for /events
+ */
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Query parameter prefix for filters on decoded event arguments, e.g. ?arg.to=0x...
+ */
+const ARG_PARAM_PREFIX = 'arg.';
+
+export interface ApiServerOptions {
+  port: number;
+  host?: string;
+}
+
+/**
+ * Error that maps to an HTTP status code in the response
+ */
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * ApiServer exposes the indexed events and sync state over a read-only HTTP API
+ */
+export class ApiServer {
+  private server: http.Server | null = null;
+  private startedAt = 0;
+
+  constructor(
+    private config: Config,
+    private storage: StorageAdapter,
+    private logger: Logger,
+    private options: ApiServerOptions
+  ) {}
+
+  /**
+   * Start listening for requests
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('API server is already running');
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        this.logger.error({
+          error: error instanceof Error ? error.message : String(error),
+        }, 'Unhandled API error');
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.startedAt = Date.now();
+
+    const address = this.getAddress();
+    this.logger.info({ host: address.address, port: address.port }, 'API server listening');
+  }
+
+  /**
+   * Stop accepting requests and close the server
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    });
+
+    this.logger.info('API server stopped');
+  }
+
+  /**
+   * Address the server is bound to, useful when listening on port 0
+   */
+  getAddress(): AddressInfo {
+    if (!this.server) {
+      throw new Error('API server is not running');
+    }
+    return this.server.address() as AddressInfo;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (req.method !== 'GET') {
+        throw new HttpError(405, `Method ${req.method} not allowed`);
+      }
+
+      if (url.pathname === '/health') {
+        this.sendJson(res, 200, {
+          status: 'ok',
+          uptime: Math.floor((Date.now() - this.startedAt) / 1000),
+        });
+        return;
+      }
+
+      if (url.pathname === '/events') {
+        await this.handleEvents(url, res);
+        return;
+      }
+
+      const statusMatch = url.pathname.match(/^\/contracts\/([^/]+)\/status$/);
+      if (statusMatch) {
+        await this.handleContractStatus(decodeURIComponent(statusMatch[1]), url, res);
+        return;
+      }
+
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.sendJson(res, error.statusCode, { error: error.message });
+      } else if (error instanceof ConfigError) {
+        this.sendJson(res, 400, { error: error.message });
+      } else {
+        this.logger.error({
+          error: error instanceof Error ? error.message : String(error),
+          path: url.pathname,
+        }, 'API request failed');
+        this.sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  }
+
+  /**
+   * GET /events - paginated events matching the EventFilter query parameters
+   */
+  private async handleEvents(url: URL, res: http.ServerResponse): Promise<void> {
+    const filter = this.parseEventFilter(url.searchParams);
+    const events = await this.storage.queryEvents(filter);
+
+    this.sendJson(res, 200, {
+      events,
+      pagination: {
+        limit: filter.limit,
+        offset: filter.offset ?? 0,
+        count: events.length,
+        nextOffset: events.length === filter.limit ? (filter.offset ?? 0) + events.length : null,
+      },
+    });
+  }
+
+  /**
+   * GET /contracts/:address/status - sync state and event counts for a contract
+   * The chain defaults to the configured contract's chain, or the top-level chain
+   */
+  private async handleContractStatus(
+    contract: string,
+    url: URL,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const contractAddress = resolveContractAddress(this.config, contract).toLowerCase();
+    const chainParam = url.searchParams.get('chain');
+    const configured = this.config.contracts.find(c => c.address.toLowerCase() === contractAddress);
+    const chain = chainParam !== null
+      ? parseChain(this.config, chainParam)
+      : configured ? getContractChain(this.config, configured) : this.config.chain;
+    const chainId = getChainId(this.config, chain);
+    const syncState = await this.storage.getSyncState(contractAddress, chainId);
+
+    if (!syncState) {
+      throw new HttpError(404, `Contract ${contractAddress} has not been synced on ${chain}`);
+    }
+
+    const eventCounts = await this.storage.getEventCounts(contractAddress, chainId);
+    this.sendJson(res, 200, { ...syncState, eventCounts });
+  }
+
+  /**
+   * Build an EventFilter from query parameters
+   */
+  private parseEventFilter(params: URLSearchParams): EventFilter {
+    const limit = this.parseIntParam(params, 'limit') ?? DEFAULT_PAGE_SIZE;
+    if (limit > MAX_PAGE_SIZE) {
+      throw new HttpError(400, `limit must not exceed ${MAX_PAGE_SIZE}`);
+    }
+
+    const args: Record<string, string> = {};
+    for (const [key, value] of params.entries()) {
+      if (key.startsWith(ARG_PARAM_PREFIX) && key.length > ARG_PARAM_PREFIX.length) {
+        const path = key.slice(ARG_PARAM_PREFIX.length);
+        if (!ARG_PATH_PATTERN.test(path)) {
+          throw new HttpError(400, `${key} must name an argument, with dots for struct members`);
+        }
+        args[path] = value;
+      }
+    }
+
+    const contract = params.get('contract');
+    const chain = params.get('chain');
+    return {
+      chainId: chain !== null ? getChainId(this.config, chain) : undefined,
+      contractAddress: contract ? resolveContractAddress(this.config, contract) : undefined,
+      eventName: params.get('event') ?? undefined,
+      fromBlock: this.parseIntParam(params, 'fromBlock'),
+      toBlock: this.parseIntParam(params, 'toBlock'),
+      limit,
+      offset: this.parseIntParam(params, 'offset'),
+      args,
+    };
+  }
+
+  private parseIntParam(params: URLSearchParams, name: string): number | undefined {
+    const value = params.get(name);
+    if (value === null) {
+      return undefined;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new HttpError(400, `${name} must be a non-negative integer`);
+    }
+    return parsed;
+  }
+
+  private sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    const payload = JSON.stringify(body);
+    res.writeHead(statusCode, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+}
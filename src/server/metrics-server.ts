@@ -0,0 +1,104 @@
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Metrics } from '../utils/metrics.js';
+import { Logger } from '../utils/logger.js';
+
+export interface MetricsServerOptions {
+  port: number;
+  host?: string;
+}
+
+/**
+ * MetricsServer exposes the process's metrics at GET /metrics for Prometheus to scrape
+ */
+export class MetricsServer {
+  private server: http.Server | null = null;
+
+  constructor(
+    private metrics: Metrics,
+    private logger: Logger,
+    private options: MetricsServerOptions
+  ) {}
+
+  /**
+   * Start listening for scrapes
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('Metrics server is already running');
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        this.logger.error({
+          error: error instanceof Error ? error.message : String(error),
+        }, 'Failed to render metrics');
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'text/plain' });
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+
+    const address = this.getAddress();
+    this.logger.info({ host: address.address, port: address.port }, 'Metrics server listening');
+  }
+
+  /**
+   * Stop accepting scrapes and close the server
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Address the server is bound to, useful when listening on port 0
+   */
+  getAddress(): AddressInfo {
+    if (!this.server) {
+      throw new Error('Metrics server is not running');
+    }
+    return this.server.address() as AddressInfo;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end(`Not found: ${url.pathname}\n`);
+      return;
+    }
+    if (req.method !== 'GET') {
+      res.writeHead(405, { 'Content-Type': 'text/plain', Allow: 'GET' });
+      res.end(`Method ${req.method} not allowed\n`);
+      return;
+    }
+
+    const body = await this.metrics.render();
+    res.writeHead(200, {
+      'Content-Type': this.metrics.contentType,
+      'Content-Length': Buffer.byteLength(body),
+    });
+    res.end(body);
+  }
+}
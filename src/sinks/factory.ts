@@ -0,0 +1,20 @@
+import { Config } from '../cli/config.js';
+import { StorageAdapter } from '../storage/adapter.js';
+import { Logger } from '../utils/logger.js';
+import { EventSink } from './sink.js';
+import { WebhookSink } from './webhook.js';
+import { KafkaSink } from './kafka.js';
+
+/**
+ * Create the event sinks listed under `sinks` in the config
+ */
+export function createEventSinks(config: Config, storage: StorageAdapter, logger: Logger): EventSink[] {
+  return config.sinks.map(sinkConfig => {
+    switch (sinkConfig.type) {
+      case 'webhook':
+        return new WebhookSink(sinkConfig, storage, logger);
+      case 'kafka':
+        return new KafkaSink(sinkConfig, storage, logger);
+    }
+  });
+}
@@ -0,0 +1,147 @@
+import { Kafka, Partitioners, Producer, SASLOptions, logLevel } from 'kafkajs';
+import { KafkaSinkConfig } from '../cli/config.js';
+import { StorageAdapter, OutboxDelivery } from '../storage/adapter.js';
+import { Logger } from '../utils/logger.js';
+import { SinkError } from '../utils/errors.js';
+import { EventBatch } from './sink.js';
+import { OutboxSink } from './outbox-sink.js';
+
+/**
+ * KafkaSink publishes every event of a committed batch as one message
+ * Messages are keyed by contract address and event name. Each batch is published in a Kafka
+ * transaction that also commits the batch's outbox ID as the offset of a dedicated consumer
+ * group. After a crash or a failed commit, the sink reads that offset back and drops the
+ * batch it names, so a batch is never skipped or published twice. Only that one batch is
+ * dropped: outbox IDs are assigned before their transactions commit, so batches with lower
+ * IDs may still be unpublished. Outbox IDs start over in a new database, so the group is
+ * named after the database's ID.
+ */
+export class KafkaSink extends OutboxSink {
+  private kafka: Kafka;
+  private producer: Producer | null = null;
+  /** Consumer group whose committed offset records the last published outbox ID */
+  private progressGroup: string | null = null;
+  /** Outbox ID committed as the group's offset when the sink connected */
+  private lastPublishedId = 0;
+
+  constructor(
+    private config: KafkaSinkConfig,
+    storage: StorageAdapter,
+    logger: Logger,
+    kafka?: Kafka
+  ) {
+    super(config.name, storage, logger, config.max_retry_delay);
+    this.kafka = kafka ?? new Kafka({
+      clientId: config.client_id,
+      brokers: config.brokers,
+      ssl: config.ssl,
+      sasl: config.sasl as SASLOptions | undefined,
+      logCreator: () => ({ level, log }) => {
+        const entry = { sink: config.name, kafka: log.message };
+        if (level === logLevel.ERROR) {
+          logger.error(entry, 'Kafka client error');
+        } else if (level === logLevel.WARN) {
+          logger.warn(entry, 'Kafka client warning');
+        } else {
+          logger.debug(entry, 'Kafka client');
+        }
+      },
+    });
+  }
+
+  protected async deliver(delivery: OutboxDelivery): Promise<void> {
+    const producer = await this.connect();
+
+    // Published in a transaction whose result was lost before the outbox entry was deleted
+    if (delivery.id === this.lastPublishedId) {
+      this.logger.info({ sink: this.name, deliveryId: delivery.id }, 'Batch already published to Kafka');
+      return;
+    }
+
+    const batch = JSON.parse(delivery.payload) as EventBatch;
+    const transaction = await producer.transaction();
+
+    try {
+      await transaction.send({
+        topic: this.config.topic,
+        messages: batch.events.map(event => ({
+          key: `${event.contractAddress.toLowerCase()}:${event.eventName}`,
+          value: JSON.stringify(event),
+          headers: {
+            'chaintap-block-number': String(event.blockNumber),
+            'chaintap-log-index': String(event.logIndex),
+          },
+        })),
+      });
+      await transaction.sendOffsets({
+        consumerGroupId: this.progressGroup!,
+        topics: [{
+          topic: this.config.topic,
+          partitions: [{ partition: 0, offset: String(delivery.id) }],
+        }],
+      });
+      await transaction.commit();
+    } catch (error) {
+      await transaction.abort().catch(() => undefined);
+      // Reconnect and re-read progress before the retry; the commit may have succeeded
+      await this.close();
+      throw new SinkError(
+        `Failed to publish to Kafka: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+
+  }
+
+  protected async close(): Promise<void> {
+    const producer = this.producer;
+    this.producer = null;
+    await producer?.disconnect().catch(() => undefined);
+  }
+
+  /**
+   * Connect the transactional producer and read the last published outbox ID
+   * Connecting with the same transactional ID aborts a transaction left open by a crash.
+   * The last published batch is removed from the outbox before anything else is published,
+   * since a later commit moves the offset past it.
+   */
+  private async connect(): Promise<Producer> {
+    if (this.producer) {
+      return this.producer;
+    }
+
+    const producer = this.kafka.producer({
+      transactionalId: `chaintap-${this.config.name}`,
+      idempotent: true,
+      maxInFlightRequests: 1,
+      createPartitioner: Partitioners.DefaultPartitioner,
+    });
+    const admin = this.kafka.admin();
+
+    try {
+      this.progressGroup = `chaintap-${this.config.name}-outbox-${await this.storage.getDatabaseId()}`;
+      await producer.connect();
+      await admin.connect();
+      const offsets = await admin.fetchOffsets({
+        groupId: this.progressGroup,
+        topics: [this.config.topic],
+      });
+      const committed = offsets[0]?.partitions.find(p => p.partition === 0)?.offset;
+      this.lastPublishedId = committed !== undefined ? Math.max(Number(committed), 0) : 0;
+      if (this.lastPublishedId > 0) {
+        await this.storage.deleteOutboxDelivery(this.lastPublishedId);
+      }
+    } catch (error) {
+      await producer.disconnect().catch(() => undefined);
+      throw new SinkError(
+        `Failed to connect to Kafka: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    } finally {
+      await admin.disconnect().catch(() => undefined);
+    }
+
+    this.producer = producer;
+    return producer;
+  }
+}
@@ -0,0 +1,150 @@
+import { StorageAdapter, OutboxDelivery } from '../storage/adapter.js';
+import { Logger } from '../utils/logger.js';
+import { EventBatch, EventSink } from './sink.js';
+
+/**
+ * Queued deliveries read from the outbox at a time
+ */
+const OUTBOX_PAGE_SIZE = 10;
+
+/**
+ * Delay before the first retry; doubles with every failed attempt up to the sink's maximum
+ */
+const INITIAL_RETRY_DELAY = 1000;
+
+/**
+ * OutboxSink delivers the batches queued in a sink's outbox
+ * Batches are delivered one at a time in commit order and removed once delivered. A failed
+ * delivery is retried with exponential backoff and blocks later batches until it succeeds.
+ */
+export abstract class OutboxSink implements EventSink {
+  private running = false;
+  private draining: Promise<void> | null = null;
+  private wakeRequested = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly name: string,
+    protected storage: StorageAdapter,
+    protected logger: Logger,
+    private maxRetryDelay: number
+  ) {}
+
+  async start(): Promise<void> {
+    this.running = true;
+    this.wake();
+  }
+
+  onCommit(_batch: EventBatch): void {
+    this.wake();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    await this.draining;
+    await this.close();
+  }
+
+  /**
+   * Deliver one queued batch
+   * @throws if the batch was not delivered; it is retried later
+   */
+  protected abstract deliver(delivery: OutboxDelivery): Promise<void>;
+
+  /**
+   * Release connections after the sink has stopped
+   */
+  protected async close(): Promise<void> {}
+
+  /**
+   * Deliver queued batches, or note that more arrived while a delivery is in progress
+   */
+  private wake(): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.draining) {
+      this.wakeRequested = true;
+      return;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    this.draining = this.drain()
+      .catch(error => {
+        this.logger.error({
+          sink: this.name,
+          error: error instanceof Error ? error.message : String(error),
+        }, 'Failed to read sink outbox');
+        this.scheduleRetry(this.maxRetryDelay);
+      })
+      .finally(() => {
+        this.draining = null;
+        if (this.wakeRequested) {
+          this.wakeRequested = false;
+          this.wake();
+        }
+      });
+  }
+
+  /**
+   * Deliver queued batches until the outbox is empty or a delivery has to wait
+   */
+  private async drain(): Promise<void> {
+    while (this.running) {
+      const deliveries = await this.storage.getOutboxDeliveries(this.name, OUTBOX_PAGE_SIZE);
+      if (deliveries.length === 0) {
+        return;
+      }
+
+      for (const delivery of deliveries) {
+        if (!this.running) {
+          return;
+        }
+
+        const wait = delivery.nextAttemptAt - Date.now();
+        if (wait > 0) {
+          this.scheduleRetry(wait);
+          return;
+        }
+
+        try {
+          await this.deliver(delivery);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const delay = Math.min(INITIAL_RETRY_DELAY * 2 ** delivery.attempts, this.maxRetryDelay);
+          this.logger.warn({
+            sink: this.name,
+            deliveryId: delivery.id,
+            attempts: delivery.attempts + 1,
+            retryIn: delay,
+            error: message,
+          }, 'Sink delivery failed, will retry');
+
+          await this.storage.recordOutboxFailure(delivery.id, message, Date.now() + delay);
+          this.scheduleRetry(delay);
+          return;
+        }
+
+        await this.storage.deleteOutboxDelivery(delivery.id);
+        this.logger.debug({ sink: this.name, deliveryId: delivery.id }, 'Delivered batch to sink');
+      }
+    }
+  }
+
+  private scheduleRetry(delay: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.wake();
+    }, delay);
+  }
+}
@@ -0,0 +1,28 @@
+import { DecodedEvent } from '../core/types.js';
+
+/**
+ * Events of one contract committed for a block range
+ */
+export interface EventBatch {
+  chainId: number;
+  contractAddress: string;
+  fromBlock: number;
+  toBlock: number;
+  events: DecodedEvent[];
+}
+
+/**
+ * EventSink delivers indexed events to a system other than the database
+ * The indexer queues every committed batch in the sink's outbox, in the same transaction
+ * as its events, so a sink sees each batch at least once even across restarts.
+ */
+export interface EventSink {
+  /** Unique name; the sink's outbox entries are stored under it */
+  readonly name: string;
+  /** Start delivering queued batches, including those left over from a previous run */
+  start(): Promise<void>;
+  /** Called after a batch has been committed to the sink's outbox */
+  onCommit(batch: EventBatch): void;
+  /** Stop delivering after the delivery in progress; queued batches stay in the outbox */
+  stop(): Promise<void>;
+}
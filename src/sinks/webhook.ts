@@ -0,0 +1,70 @@
+import { createHmac } from 'node:crypto';
+import { WebhookSinkConfig } from '../cli/config.js';
+import { StorageAdapter, OutboxDelivery } from '../storage/adapter.js';
+import { Logger } from '../utils/logger.js';
+import { SinkError } from '../utils/errors.js';
+import { OutboxSink } from './outbox-sink.js';
+
+/**
+ * Sign a webhook body
+ * The signature covers the timestamp so receivers can reject replayed requests.
+ * @returns Hex-encoded HMAC-SHA256 of `${timestamp}.${body}`
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * WebhookSink POSTs each committed batch as JSON to a URL
+ */
+export class WebhookSink extends OutboxSink {
+  constructor(
+    private config: WebhookSinkConfig,
+    storage: StorageAdapter,
+    logger: Logger
+  ) {
+    super(config.name, storage, logger, config.max_retry_delay);
+  }
+
+  /**
+   * POST one queued batch, signed with the sink's secret
+   * @throws SinkError if the request fails or the receiver doesn't answer with 2xx
+   */
+  protected async deliver(delivery: OutboxDelivery): Promise<void> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = signWebhookPayload(this.config.secret, timestamp, delivery.payload);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ChainTap/1.0',
+          'X-ChainTap-Delivery': String(delivery.id),
+          'X-ChainTap-Timestamp': timestamp,
+          'X-ChainTap-Signature': `sha256=${signature}`,
+        },
+        body: delivery.payload,
+      });
+    } catch (error) {
+      throw new SinkError(
+        `Failed to POST webhook: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+
+    if (!response.ok) {
+      throw new SinkError(`Webhook responded with HTTP ${response.status}`, this.name);
+    }
+  }
+}
@@ -1,24 +1,130 @@
-import { DecodedEvent } from '../core/types.js';
+import { BlockRange, BlockRecord, ChildContract, DecodedEvent } from '../core/types.js';
+import { EventView } from './event-views.js';
+import { ArgPredicate } from './arg-filters.js';
 
 export interface EventFilter {
+  chainId?: number;
   contractAddress?: string;
   eventName?: string;
   fromBlock?: number;
   toBlock?: number;
   limit?: number;
   offset?: number;
+  /** Equality filters on top-level decoded eventData fields; hex values match case-insensitively */
+  args?: Record<string, string>;
+  /** Predicates on decoded eventData fields that events must all match */
+  where?: ArgPredicate[];
+}
+
+export interface SyncState {
+  contractAddress: string;
+  chainId: number;
+  lastBlock: number;
+  lastSync: number;
+  status: string;
+}
+
+export type BackfillJobStatus = 'running' | 'completed';
+
+export interface BackfillJob {
+  id: number;
+  contractAddress: string;
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  /** Last block committed by this job, or null if no chunk has been committed yet */
+  lastBlock: number | null;
+  status: BackfillJobStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Serialized batch queued for an event sink, written in the same transaction as its events
+ */
+export interface OutboxEntry {
+  sink: string;
+  payload: string;
+}
+
+export interface OutboxDelivery extends OutboxEntry {
+  id: number;
+  attempts: number;
+  /** Unix time in milliseconds before which the delivery must not be retried */
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
 }
 
 export interface StorageAdapter {
   init(): Promise<void>;
   insertEvents(events: DecodedEvent[]): Promise<number>;
-  getLastSyncedBlock(contractAddress: string): Promise<number | null>;
+  getLastSyncedBlock(contractAddress: string, chainId: number): Promise<number | null>;
+  getSyncState(contractAddress: string, chainId: number): Promise<SyncState | null>;
+  /**
+   * Commit the events of a range ending at blockNumber
+   * The sync state never moves backwards. With fromBlock, fromBlock-blockNumber is recorded as covered.
+   * @returns Number of events inserted, excluding ones that were already stored
+   */
   updateSyncStateAndInsertEvents(
     contractAddress: string,
     chainId: number,
     blockNumber: number,
-    events: DecodedEvent[]
-  ): Promise<void>;
+    events: DecodedEvent[],
+    blocks?: BlockRecord[],
+    outbox?: OutboxEntry[],
+    fromBlock?: number
+  ): Promise<number>;
+  /** @returns Number of events inserted, excluding ones that were already stored */
+  commitBackfillChunk(
+    jobId: number,
+    contractAddress: string,
+    chainId: number,
+    blockNumber: number,
+    events: DecodedEvent[],
+    outbox?: OutboxEntry[],
+    fromBlock?: number
+  ): Promise<number>;
+  /** Block ranges indexed for a contract, merged and ordered by block */
+  getCoverage(contractAddress: string, chainId: number): Promise<BlockRange[]>;
+  createBackfillJob(
+    contractAddress: string,
+    chainId: number,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<BackfillJob>;
+  findBackfillJob(
+    contractAddress: string,
+    chainId: number,
+    fromBlock: number,
+    toBlock?: number
+  ): Promise<BackfillJob | null>;
+  completeBackfillJob(jobId: number): Promise<void>;
+  getBlockHashes(contractAddress: string, chainId: number, limit: number): Promise<BlockRecord[]>;
+  pruneBlockHashes(contractAddress: string, chainId: number, belowBlock: number): Promise<void>;
+  rollbackToBlock(contractAddress: string, chainId: number, blockNumber: number): Promise<number>;
+  insertChildContracts(children: ChildContract[]): Promise<void>;
+  getChildContracts(): Promise<ChildContract[]>;
   queryEvents(filter: EventFilter): Promise<DecodedEvent[]>;
+  /**
+   * Events matching a filter in block order, read pageSize at a time
+   * Pages are keyed on (block_number, log_index) rather than offset, so reading a large
+   * result never holds more than one page in memory and later pages stay fast.
+   */
+  iterateEvents(filter: EventFilter, pageSize?: number): AsyncIterable<DecodedEvent>;
+  /** Number of events matching a filter, ignoring its limit and offset */
+  countEvents(filter: EventFilter): Promise<number>;
+  getEventCounts(contractAddress: string, chainId: number): Promise<Record<string, number>>;
+  /**
+   * Create a contract's per-event views, recreating those whose columns changed
+   * Views created for the contract earlier that are not in views are dropped.
+   */
+  syncEventViews(contractAddress: string, chainId: number, views: EventView[]): Promise<void>;
+  /** Oldest queued deliveries of a sink, in commit order */
+  getOutboxDeliveries(sink: string, limit: number): Promise<OutboxDelivery[]>;
+  deleteOutboxDelivery(id: number): Promise<void>;
+  recordOutboxFailure(id: number, error: string, nextAttemptAt: number): Promise<void>;
+  /** Random identifier generated with the database, which tells apart databases whose outbox IDs overlap */
+  getDatabaseId(): Promise<string>;
   close(): Promise<void>;
 }
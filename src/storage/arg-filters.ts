@@ -0,0 +1,120 @@
+import { isHexString } from '../utils/validation.js';
+
+/**
+ * Argument path: an argument name, with dots for struct members
+ */
+export const ARG_PATH_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*(\.[A-Za-z_$][A-Za-z0-9_$]*)*$/;
+
+/**
+ * Comparison operators on decoded event arguments
+ * - eq / in: exact matches; hex values such as addresses match case-insensitively
+ * - gt / gte / lt / lte: integer comparisons of decimal strings, exact for uint256 and int256 values
+ */
+export const ARG_OPERATORS = ['eq', 'in', 'gt', 'gte', 'lt', 'lte'] as const;
+
+export type ArgOperator = (typeof ARG_OPERATORS)[number];
+
+export type ArgComparisonOperator = Exclude<ArgOperator, 'eq' | 'in'>;
+
+/**
+ * Predicate on a decoded eventData field
+ * The path names a top-level argument, with dots for struct members, e.g. "order.maker".
+ */
+export type ArgPredicate =
+  | { path: string; op: 'eq'; value: string }
+  | { path: string; op: 'in'; values: string[] }
+  | { path: string; op: ArgComparisonOperator; value: string | bigint };
+
+/**
+ * Kinds of argument index, one per way of comparing an argument
+ * - text: eq and in with non-hex values
+ * - hex: eq and in with hex values, which are compared lowercased
+ * - integer: gt, gte, lt and lte
+ */
+export const ARG_INDEX_TYPES = ['text', 'hex', 'integer'] as const;
+
+export type ArgIndexType = (typeof ARG_INDEX_TYPES)[number];
+
+/**
+ * Database index on a decoded event argument, declared under database.indexes
+ */
+export interface ArgIndex {
+  path: string;
+  type: ArgIndexType;
+}
+
+/**
+ * Digits of the zero-padded keys that integers are compared by; uint256 values have up to 78
+ */
+export const INTEGER_KEY_DIGITS = 78;
+
+/**
+ * Name of the index of an argument; every generated index name starts with "idx_arg_"
+ */
+export function getArgIndexName(index: ArgIndex): string {
+  return `idx_arg_${index.type}_${index.path}`;
+}
+
+/**
+ * Segments of an argument path, e.g. "order.maker" -> ["order", "maker"]
+ */
+export function splitArgPath(path: string): string[] {
+  const segments = path.split('.');
+  if (segments.some(segment => segment === '')) {
+    throw new Error(`Invalid argument path "${path}"`);
+  }
+  return segments;
+}
+
+/**
+ * Kind of index that serves a predicate, or null for an IN list mixing hex and other values
+ */
+export function getArgIndexType(predicate: ArgPredicate): ArgIndexType | null {
+  switch (predicate.op) {
+    case 'eq':
+      return isHexString(predicate.value) ? 'hex' : 'text';
+    case 'in': {
+      const hex = predicate.values.filter(isHexString).length;
+      if (hex === 0) {
+        return 'text';
+      }
+      return hex === predicate.values.length ? 'hex' : null;
+    }
+    default:
+      return 'integer';
+  }
+}
+
+/**
+ * Parse the value of a comparison predicate as an integer
+ */
+export function parseIntegerArg(predicate: { path: string; value: string | bigint }): bigint {
+  if (typeof predicate.value === 'bigint') {
+    return predicate.value;
+  }
+  if (!/^-?[0-9]+$/.test(predicate.value.trim())) {
+    throw new Error(`Comparison on ${predicate.path} requires an integer, got "${predicate.value}"`);
+  }
+  return BigInt(predicate.value.trim());
+}
+
+/**
+ * Absolute value of an integer as a zero-padded key whose string order is numeric order
+ */
+export function toIntegerKey(value: bigint): string {
+  const digits = (value < 0n ? -value : value).toString();
+  if (digits.length > INTEGER_KEY_DIGITS) {
+    throw new Error(`Integer ${value} has more than ${INTEGER_KEY_DIGITS} digits`);
+  }
+  return digits.padStart(INTEGER_KEY_DIGITS, '0');
+}
+
+/**
+ * Predicates of a filter's args equality filters followed by its where predicates
+ */
+export function getArgPredicates(filter: { args?: Record<string, string>; where?: ArgPredicate[] }): ArgPredicate[] {
+  return [
+    ...Object.entries(filter.args ?? {}).map(([path, value]): ArgPredicate => ({ path, op: 'eq', value })),
+    ...(filter.where ?? []),
+  ];
+}
@@ -0,0 +1,154 @@
+import { Interface, ParamType, getAddress } from 'ethers';
+import { ALL_EVENTS, EventsConfig, getEventName } from '../cli/config.js';
+
+/**
+ * Column type of a decoded event argument
+ * - integer: integers that fit in a signed 64-bit column
+ * - numeric: larger integers such as uint256; SQLite keeps them as decimal TEXT
+ * - json: arrays and tuples, as JSON
+ */
+export type EventViewColumnType = 'integer' | 'numeric' | 'boolean' | 'text' | 'json';
+
+export interface EventViewColumn {
+  /** Column name in the view */
+  name: string;
+  /** Key of the argument in event_data */
+  field: string;
+  type: EventViewColumnType;
+}
+
+/**
+ * A view over one contract's rows of one event, with a column per ABI input
+ */
+export interface EventView {
+  name: string;
+  eventName: string;
+  columns: EventViewColumn[];
+}
+
+/**
+ * Columns of the events table that every view starts with
+ */
+export const EVENT_VIEW_BASE_COLUMNS = [
+  'chain_id',
+  'contract_address',
+  'block_number',
+  'block_timestamp',
+  'transaction_hash',
+  'log_index',
+];
+
+/**
+ * Convert a contract, event or argument name to a lowercase SQL identifier
+ * e.g. "UniswapV3Factory" -> "uniswap_v3_factory", "tokenId" -> "token_id"
+ */
+export function toSnakeCase(name: string): string {
+  const snake = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+
+  return /^[0-9]/.test(snake) ? `_${snake}` : snake;
+}
+
+/**
+ * Column type for an ABI input
+ */
+export function getColumnType(param: ParamType): EventViewColumnType {
+  if (param.isArray() || param.isTuple()) {
+    return 'json';
+  }
+  if (param.baseType === 'bool') {
+    return 'boolean';
+  }
+
+  const match = /^(u?)int(\d*)$/.exec(param.type);
+  if (match) {
+    // Unsigned values need one bit more than the signed 64-bit range gives them
+    const bits = Number(match[2] || 256);
+    return bits <= (match[1] ? 63 : 64) ? 'integer' : 'numeric';
+  }
+
+  return 'text';
+}
+
+/**
+ * Build the views of a contract's indexed events
+ * Views are named <contract>_<event>. Anonymous and overloaded events are skipped, since
+ * their rows can't be told apart by event name, and so are unnamed arguments.
+ * @param contractName Name of the contract in the config, if any
+ */
+export function buildEventViews(
+  contractAddress: string,
+  contractName: string | undefined,
+  iface: Interface,
+  events: EventsConfig
+): EventView[] {
+  const prefix = toSnakeCase(contractName ?? '') || `contract_${getAddress(contractAddress).slice(2, 10).toLowerCase()}`;
+
+  const names: string[] = [];
+  if (events === ALL_EVENTS) {
+    iface.forEachEvent(event => {
+      if (!names.includes(event.name)) {
+        names.push(event.name);
+      }
+    });
+  } else {
+    names.push(...new Set(events.map(getEventName)));
+  }
+
+  const views: EventView[] = [];
+  for (const eventName of names) {
+    const fragments: Array<ReturnType<Interface['getEvent']>> = [];
+    iface.forEachEvent(event => {
+      if (event.name === eventName) {
+        fragments.push(event);
+      }
+    });
+    const event = fragments.length === 1 ? fragments[0] : null;
+    if (!event || event.anonymous) {
+      continue;
+    }
+
+    const used = new Set(EVENT_VIEW_BASE_COLUMNS);
+    const columns: EventViewColumn[] = [];
+    for (const input of event.inputs) {
+      if (!input.name) {
+        continue;
+      }
+
+      // Arguments must not shadow the base columns or each other
+      let name = toSnakeCase(input.name) || 'arg';
+      if (used.has(name)) {
+        name = `arg_${name}`;
+      }
+      for (let suffix = 2; used.has(name); suffix++) {
+        name = `${name.replace(/_\d+$/, '')}_${suffix}`;
+      }
+      used.add(name);
+
+      columns.push({ name, field: input.name, type: getColumnType(input) });
+    }
+
+    views.push({ name: `${prefix}_${toSnakeCase(eventName)}`, eventName, columns });
+  }
+
+  return views;
+}
+
+/**
+ * Quote an SQL identifier
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote an SQL string literal
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
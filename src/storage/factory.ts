@@ -0,0 +1,43 @@
+import { DatabaseConfig } from '../cli/config.js';
+import { StorageAdapter } from './adapter.js';
+import { SQLiteAdapter } from './sqlite.js';
+import { PostgresAdapter } from './postgres.js';
+
+/**
+ * Create the storage adapter selected by `database.type` in the config
+ */
+export function createStorageAdapter(config: DatabaseConfig): StorageAdapter {
+  switch (config.type) {
+    case 'sqlite':
+      return new SQLiteAdapter(config.path, config.indexes);
+    case 'postgres':
+      return new PostgresAdapter(config.url);
+  }
+}
+
+/**
+ * Human-readable location of the configured database, safe for logging
+ */
+export function describeDatabase(config: DatabaseConfig): string {
+  switch (config.type) {
+    case 'sqlite':
+      return config.path;
+    case 'postgres':
+      return redactConnectionString(config.url);
+  }
+}
+
+/**
+ * Strip the password from a connection URL
+ */
+function redactConnectionString(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) {
+      parsed.password = '***';
+    }
+    return parsed.toString();
+  } catch {
+    return 'postgres';
+  }
+}
@@ -0,0 +1,203 @@
+import Database from 'better-sqlite3';
+import { Migration } from './migration.js';
+
+/**
+ * Schema of databases created before versioned migrations
+ * Creates the tables that don't exist yet, so it also applies to databases written by
+ * earlier versions of ChainTap. It must not change; schema changes go in new migrations.
+ */
+export const baselineMigration: Migration = {
+  version: 1,
+  description: 'Baseline schema',
+  up(db) {
+    upgradeLegacySchema(db);
+    createTables(db);
+  },
+};
+
+/**
+ * Re-key tables of a database created before multi-chain support by chain ID
+ * Chain IDs of existing rows are taken from sync_state. Block hashes only cover
+ * the reorg window, so they are dropped and recorded again on the next poll.
+ */
+function upgradeLegacySchema(db: Database.Database): void {
+  const hasTable = (table: string) =>
+    db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table) !== undefined;
+  const columns = (table: string) =>
+    (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name);
+
+  if (!hasTable('events') || columns('events').includes('chain_id')) {
+    return;
+  }
+
+  db.exec(`
+    ALTER TABLE events ADD COLUMN chain_id INTEGER;
+    UPDATE events SET chain_id = (
+      SELECT chain_id FROM sync_state WHERE sync_state.contract_address = lower(events.contract_address)
+    );
+
+    ALTER TABLE sync_state RENAME TO legacy_sync_state;
+    DROP TABLE IF EXISTS block_hashes;
+  `);
+  const legacyTables = ['legacy_sync_state'];
+  if (hasTable('backfill_jobs')) {
+    db.exec('ALTER TABLE backfill_jobs RENAME TO legacy_backfill_jobs');
+    legacyTables.push('legacy_backfill_jobs');
+  }
+  if (hasTable('child_contracts')) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_child_contracts_factory;
+      ALTER TABLE child_contracts RENAME TO legacy_child_contracts;
+    `);
+    legacyTables.push('legacy_child_contracts');
+  }
+
+  createTables(db);
+
+  db.exec(`
+    INSERT INTO sync_state (contract_address, chain_id, last_block, last_sync, status)
+    SELECT contract_address, chain_id, last_block, last_sync, status FROM legacy_sync_state;
+  `);
+  if (legacyTables.includes('legacy_backfill_jobs')) {
+    db.exec(`
+      INSERT INTO backfill_jobs (
+        id, contract_address, chain_id, from_block, to_block, last_block, status, created_at, updated_at
+      )
+      SELECT id, contract_address, chain_id, from_block, to_block, last_block, status, created_at, updated_at
+      FROM legacy_backfill_jobs;
+    `);
+  }
+  if (legacyTables.includes('legacy_child_contracts')) {
+    db.exec(`
+      INSERT INTO child_contracts (address, chain_id, template, factory_address, created_block)
+      SELECT c.address, s.chain_id, c.template, c.factory_address, c.created_block
+      FROM legacy_child_contracts c
+      JOIN legacy_sync_state s ON s.contract_address = c.factory_address;
+    `);
+  }
+
+  for (const table of legacyTables) {
+    db.exec(`DROP TABLE ${table}`);
+  }
+}
+
+/**
+ * Create tables and indexes that don't exist yet
+ */
+function createTables(db: Database.Database): void {
+  // Create events table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      contract_address TEXT NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_timestamp INTEGER NOT NULL,
+      transaction_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      event_name TEXT NOT NULL,
+      event_data TEXT NOT NULL,
+      indexed_at INTEGER NOT NULL,
+      chain_id INTEGER,
+      UNIQUE(transaction_hash, log_index)
+    );
+  `);
+
+  // Create indexes
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_contract_block ON events(contract_address, block_number);
+    CREATE INDEX IF NOT EXISTS idx_contract_event ON events(contract_address, event_name);
+    CREATE INDEX IF NOT EXISTS idx_block_number ON events(block_number);
+  `);
+
+  // Create sync_state table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_state (
+      contract_address TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      last_block INTEGER NOT NULL,
+      last_sync INTEGER NOT NULL,
+      status TEXT DEFAULT 'active',
+      PRIMARY KEY (chain_id, contract_address)
+    );
+  `);
+
+  // Create block_hashes table used for reorg detection
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS block_hashes (
+      contract_address TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      parent_hash TEXT NOT NULL,
+      PRIMARY KEY (chain_id, contract_address, block_number)
+    );
+  `);
+
+  // Create backfill_jobs table used to checkpoint and resume backfills
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS backfill_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      contract_address TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      from_block INTEGER NOT NULL,
+      to_block INTEGER NOT NULL,
+      last_block INTEGER,
+      status TEXT NOT NULL DEFAULT 'running',
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      UNIQUE(chain_id, contract_address, from_block, to_block)
+    );
+  `);
+
+  // Create child_contracts table for contracts discovered from factory events
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS child_contracts (
+      address TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      template TEXT NOT NULL,
+      factory_address TEXT NOT NULL,
+      created_block INTEGER NOT NULL,
+      PRIMARY KEY (chain_id, address)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_child_contracts_factory
+    ON child_contracts(chain_id, factory_address, created_block);
+  `);
+
+  // Create sink_outbox table holding event batches until their sink delivers them
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sink_outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sink TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER NOT NULL,
+      last_error TEXT,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sink_outbox_sink ON sink_outbox(sink, id);
+  `);
+
+  // Create coverage table recording the block ranges indexed for each contract
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS coverage (
+      contract_address TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      from_block INTEGER NOT NULL,
+      to_block INTEGER NOT NULL,
+      PRIMARY KEY (chain_id, contract_address, from_block)
+    );
+  `);
+
+  // Create event_views table recording the per-event views created from each contract's ABI
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS event_views (
+      view_name TEXT PRIMARY KEY,
+      contract_address TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      event_name TEXT NOT NULL,
+      definition TEXT NOT NULL
+    );
+  `);
+}
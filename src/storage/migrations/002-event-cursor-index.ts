@@ -0,0 +1,17 @@
+import { Migration } from './migration.js';
+
+/**
+ * Index events in the order they are read by iterateEvents
+ * Keyset pagination seeks on (block_number, log_index, id), which also covers the
+ * block_number lookups of idx_block_number.
+ */
+export const eventCursorIndexMigration: Migration = {
+  version: 2,
+  description: 'Index events by block number and log index',
+  up(db) {
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_block_log ON events(block_number, log_index, id);
+      DROP INDEX IF EXISTS idx_block_number;
+    `);
+  },
+};
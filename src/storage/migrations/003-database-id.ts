@@ -0,0 +1,21 @@
+import { randomUUID } from 'node:crypto';
+import { Migration } from './migration.js';
+
+/**
+ * Give the database a random identifier
+ * Outbox IDs start over in a new database, so sinks that record their progress outside the
+ * database scope it to this identifier.
+ */
+export const databaseIdMigration: Migration = {
+  version: 3,
+  description: 'Identify the database',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS database_info (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+    db.prepare(`INSERT OR IGNORE INTO database_info (key, value) VALUES ('database_id', ?)`).run(randomUUID());
+  },
+};
@@ -0,0 +1,93 @@
+import Database from 'better-sqlite3';
+import { StorageError } from '../../utils/errors.js';
+import { Migration } from './migration.js';
+import { baselineMigration } from './001-baseline.js';
+import { eventCursorIndexMigration } from './002-event-cursor-index.js';
+import { databaseIdMigration } from './003-database-id.js';
+
+export type { Migration } from './migration.js';
+
+/**
+ * Migrations of the SQLite schema, in version order
+ * Released migrations must not change; add a new migration for every schema change.
+ */
+export const SQLITE_MIGRATIONS: Migration[] = [
+  baselineMigration,
+  eventCursorIndexMigration,
+  databaseIdMigration,
+];
+
+/**
+ * Schema version of a database, or 0 if no migration has been applied yet
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  const hasTable = db.prepare(
+    `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'`
+  ).get() !== undefined;
+  if (!hasTable) {
+    return 0;
+  }
+
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Migrations not applied to a database yet
+ * Throws a StorageError if the database was migrated by a newer version of ChainTap,
+ * since this version doesn't know its schema.
+ */
+export function getPendingMigrations(
+  db: Database.Database,
+  migrations: Migration[] = SQLITE_MIGRATIONS
+): Migration[] {
+  const version = getSchemaVersion(db);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (version > latest) {
+    throw new StorageError(
+      `Database schema version ${version} is newer than the latest version known to this ChainTap (${latest}); upgrade ChainTap to use this database`
+    );
+  }
+
+  return migrations.filter(migration => migration.version > version);
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction
+ * A failed migration is rolled back along with its version, so the migrations
+ * before it stay applied and it is retried on the next run.
+ * @returns The migrations applied
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[] = SQLITE_MIGRATIONS
+): Migration[] {
+  const pending = getPendingMigrations(db, migrations);
+  if (pending.length === 0) {
+    return [];
+  }
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  const record = db.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)');
+  for (const migration of pending) {
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.description, Math.floor(Date.now() / 1000));
+      })();
+    } catch (error) {
+      throw new StorageError(
+        `Failed to apply migration ${migration.version} (${migration.description}): ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return pending;
+}
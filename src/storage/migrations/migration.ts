@@ -0,0 +1,12 @@
+import Database from 'better-sqlite3';
+
+/**
+ * A versioned change to the SQLite schema
+ */
+export interface Migration {
+  /** Schema version after the migration; versions start at 1 and increase by one */
+  version: number;
+  description: string;
+  /** Apply the migration; runs inside the transaction that records it */
+  up(db: Database.Database): void;
+}
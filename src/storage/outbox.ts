@@ -0,0 +1,47 @@
+import { EventBatch } from '../sinks/sink.js';
+
+/**
+ * Key of an event, unique like the events table's (transaction_hash, log_index)
+ */
+export function getEventKey(event: { transactionHash: string; logIndex: number }): string {
+  return `${event.transactionHash}:${event.logIndex}`;
+}
+
+/**
+ * Payload of a batch to queue with only the events that were inserted by its commit
+ * Re-indexed events were queued when they were first inserted, so they are dropped here
+ * rather than sent twice. Returns null when none of the batch's events were inserted.
+ */
+export function keepInsertedEvents(payload: string, inserted: Set<string>): string | null {
+  const batch = JSON.parse(payload) as EventBatch;
+  const events = batch.events.filter(event => inserted.has(getEventKey(event)));
+  if (events.length === 0) {
+    return null;
+  }
+  return events.length === batch.events.length ? payload : JSON.stringify({ ...batch, events });
+}
+
+/**
+ * Payload of a queued batch with the events of a contract's orphaned blocks removed
+ * Returns the payload unchanged for batches of other contracts or before blockNumber,
+ * and null when none of the batch's events are left.
+ */
+export function rollbackOutboxPayload(
+  payload: string,
+  contractAddress: string,
+  chainId: number,
+  blockNumber: number
+): string | null {
+  const batch = JSON.parse(payload) as EventBatch;
+  const sameContract = batch.chainId === chainId
+    && batch.contractAddress.toLowerCase() === contractAddress.toLowerCase();
+  if (!sameContract || batch.toBlock <= blockNumber) {
+    return payload;
+  }
+
+  const events = batch.events.filter(event => event.blockNumber <= blockNumber);
+  if (events.length === 0) {
+    return null;
+  }
+  return JSON.stringify({ ...batch, toBlock: blockNumber, events });
+}
@@ -0,0 +1,1191 @@
+import { randomUUID } from 'node:crypto';
+import pg from 'pg';
+import {
+  StorageAdapter,
+  EventFilter,
+  SyncState,
+  BackfillJob,
+  BackfillJobStatus,
+  OutboxEntry,
+  OutboxDelivery,
+} from './adapter.js';
+import { BlockRange, BlockRecord, ChildContract, DecodedEvent } from '../core/types.js';
+import { StorageError } from '../utils/errors.js';
+import { isHexString } from '../utils/validation.js';
+import { EVENT_VIEW_BASE_COLUMNS, EventView, quoteIdentifier, quoteLiteral } from './event-views.js';
+import {
+  ArgComparisonOperator,
+  ArgPredicate,
+  getArgPredicates,
+  parseIntegerArg,
+  splitArgPath,
+} from './arg-filters.js';
+import { getEventKey, keepInsertedEvents, rollbackOutboxPayload } from './outbox.js';
+
+/**
+ * Maximum number of events per multi-row INSERT statement
+ * Postgres allows at most 65535 bind parameters per statement
+ */
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Events read per query by iterateEvents
+ */
+const EVENT_PAGE_SIZE = 1000;
+
+const SQL_COMPARISONS: Record<ArgComparisonOperator, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+type Queryable = Pick<pg.Pool, 'query'> | pg.PoolClient;
+
+export class PostgresAdapter implements StorageAdapter {
+  private pool: pg.Pool | null = null;
+  private connectionString: string;
+  private PoolClass: typeof pg.Pool;
+
+  /**
+   * @param connectionString Postgres connection URL
+   * @param PoolClass Pool implementation to use, e.g. an embedded stand-in for tests
+   */
+  constructor(connectionString: string, PoolClass: typeof pg.Pool = pg.Pool) {
+    this.connectionString = connectionString;
+    this.PoolClass = PoolClass;
+  }
+
+  async init(): Promise<void> {
+    try {
+      this.pool = new this.PoolClass({ connectionString: this.connectionString });
+
+      // Databases created before multi-chain support need their tables re-keyed
+      await this.upgradeLegacySchema();
+
+      // Create events table
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS events (
+          id BIGSERIAL PRIMARY KEY,
+          contract_address TEXT NOT NULL,
+          block_number BIGINT NOT NULL,
+          block_timestamp BIGINT NOT NULL,
+          transaction_hash TEXT NOT NULL,
+          log_index INTEGER NOT NULL,
+          event_name TEXT NOT NULL,
+          event_data JSONB NOT NULL,
+          indexed_at BIGINT NOT NULL,
+          chain_id INTEGER,
+          UNIQUE(transaction_hash, log_index)
+        );
+      `);
+
+      // Create indexes
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_contract_block ON events(contract_address, block_number);
+        CREATE INDEX IF NOT EXISTS idx_contract_event ON events(contract_address, event_name);
+        CREATE INDEX IF NOT EXISTS idx_block_number ON events(block_number);
+        CREATE INDEX IF NOT EXISTS idx_block_log ON events(block_number, log_index, id);
+      `);
+
+      // Create sync_state table
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS sync_state (
+          contract_address TEXT NOT NULL,
+          chain_id INTEGER NOT NULL,
+          last_block BIGINT NOT NULL,
+          last_sync BIGINT NOT NULL,
+          status TEXT DEFAULT 'active',
+          PRIMARY KEY (chain_id, contract_address)
+        );
+      `);
+
+      // Create block_hashes table used for reorg detection
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS block_hashes (
+          contract_address TEXT NOT NULL,
+          chain_id INTEGER NOT NULL,
+          block_number BIGINT NOT NULL,
+          block_hash TEXT NOT NULL,
+          parent_hash TEXT NOT NULL,
+          PRIMARY KEY (chain_id, contract_address, block_number)
+        );
+      `);
+
+      // Create backfill_jobs table used to checkpoint and resume backfills
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS backfill_jobs (
+          id SERIAL PRIMARY KEY,
+          contract_address TEXT NOT NULL,
+          chain_id INTEGER NOT NULL,
+          from_block BIGINT NOT NULL,
+          to_block BIGINT NOT NULL,
+          last_block BIGINT,
+          status TEXT NOT NULL DEFAULT 'running',
+          created_at BIGINT NOT NULL,
+          updated_at BIGINT NOT NULL,
+          UNIQUE(chain_id, contract_address, from_block, to_block)
+        );
+      `);
+
+      // Create child_contracts table for contracts discovered from factory events
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS child_contracts (
+          address TEXT NOT NULL,
+          chain_id INTEGER NOT NULL,
+          template TEXT NOT NULL,
+          factory_address TEXT NOT NULL,
+          created_block BIGINT NOT NULL,
+          PRIMARY KEY (chain_id, address)
+        );
+      `);
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_child_contracts_factory
+        ON child_contracts(chain_id, factory_address, created_block);
+      `);
+
+      // Create sink_outbox table holding event batches until their sink delivers them
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS sink_outbox (
+          id BIGSERIAL PRIMARY KEY,
+          sink TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at BIGINT NOT NULL,
+          last_error TEXT,
+          created_at BIGINT NOT NULL
+        );
+      `);
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_sink_outbox_sink ON sink_outbox(sink, id);
+      `);
+
+      // Create database_info table holding the random identifier of the database
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS database_info (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+      await this.pool.query(
+        `INSERT INTO database_info (key, value) VALUES ('database_id', $1) ON CONFLICT (key) DO NOTHING`,
+        [randomUUID()]
+      );
+
+      // Create coverage table recording the block ranges indexed for each contract
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS coverage (
+          contract_address TEXT NOT NULL,
+          chain_id INTEGER NOT NULL,
+          from_block BIGINT NOT NULL,
+          to_block BIGINT NOT NULL,
+          PRIMARY KEY (chain_id, contract_address, from_block)
+        );
+      `);
+
+      // Create event_views table recording the per-event views created from each contract's ABI
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS event_views (
+          view_name TEXT PRIMARY KEY,
+          contract_address TEXT NOT NULL,
+          chain_id INTEGER NOT NULL,
+          event_name TEXT NOT NULL,
+          definition TEXT NOT NULL
+        );
+      `);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to initialize database: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async insertEvents(events: DecodedEvent[]): Promise<number> {
+    this.ensureDb();
+
+    if (events.length === 0) {
+      return 0;
+    }
+
+    try {
+      const inserted = await this.withTransaction(client => this.insertEventRows(client, events));
+      return inserted.size;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to insert events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getLastSyncedBlock(contractAddress: string, chainId: number): Promise<number | null> {
+    this.ensureDb();
+
+    try {
+      const result = await this.pool!.query(
+        'SELECT last_block FROM sync_state WHERE chain_id = $1 AND contract_address = $2',
+        [chainId, contractAddress]
+      );
+
+      return result.rows.length > 0 ? Number(result.rows[0].last_block) : null;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get last synced block: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getSyncState(contractAddress: string, chainId: number): Promise<SyncState | null> {
+    this.ensureDb();
+
+    try {
+      const result = await this.pool!.query(
+        'SELECT * FROM sync_state WHERE chain_id = $1 AND contract_address = $2',
+        [chainId, contractAddress]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const row = result.rows[0];
+      return {
+        contractAddress: row.contract_address,
+        chainId: Number(row.chain_id),
+        lastBlock: Number(row.last_block),
+        lastSync: Number(row.last_sync),
+        status: row.status,
+      };
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get sync state: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async updateSyncStateAndInsertEvents(
+    contractAddress: string,
+    chainId: number,
+    blockNumber: number,
+    events: DecodedEvent[],
+    blocks: BlockRecord[] = [],
+    outbox: OutboxEntry[] = [],
+    fromBlock?: number
+  ): Promise<number> {
+    this.ensureDb();
+
+    try {
+      return await this.withTransaction(async client => {
+        const inserted = await this.writeSyncStateAndEvents(client, contractAddress, chainId, blockNumber, events, blocks);
+        await this.writeOutbox(client, outbox, inserted);
+        if (fromBlock !== undefined) {
+          await this.writeCoverage(client, contractAddress, chainId, fromBlock, blockNumber);
+        }
+        return inserted.size;
+      });
+    } catch (error) {
+      throw new StorageError(
+        `Failed to update sync state and insert events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async commitBackfillChunk(
+    jobId: number,
+    contractAddress: string,
+    chainId: number,
+    blockNumber: number,
+    events: DecodedEvent[],
+    outbox: OutboxEntry[] = [],
+    fromBlock?: number
+  ): Promise<number> {
+    this.ensureDb();
+
+    try {
+      return await this.withTransaction(async client => {
+        const inserted = await this.writeSyncStateAndEvents(client, contractAddress, chainId, blockNumber, events, []);
+        await this.writeOutbox(client, outbox, inserted);
+        if (fromBlock !== undefined) {
+          await this.writeCoverage(client, contractAddress, chainId, fromBlock, blockNumber);
+        }
+
+        // Checkpoint the job in the same transaction as the chunk's events
+        await client.query(
+          'UPDATE backfill_jobs SET last_block = $1, updated_at = $2 WHERE id = $3',
+          [blockNumber, Math.floor(Date.now() / 1000), jobId]
+        );
+
+        return inserted.size;
+      });
+    } catch (error) {
+      throw new StorageError(
+        `Failed to commit backfill chunk: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async createBackfillJob(
+    contractAddress: string,
+    chainId: number,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<BackfillJob> {
+    this.ensureDb();
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+
+      // Re-creating a job for the same range restarts it from the beginning
+      const result = await this.pool!.query(
+        `INSERT INTO backfill_jobs (
+           contract_address, chain_id, from_block, to_block, last_block, status, created_at, updated_at
+         ) VALUES ($1, $2, $3, $4, NULL, 'running', $5, $5)
+         ON CONFLICT (chain_id, contract_address, from_block, to_block) DO UPDATE SET
+           last_block = NULL,
+           status = 'running',
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at
+         RETURNING *`,
+        [contractAddress, chainId, fromBlock, toBlock, now]
+      );
+
+      return this.mapBackfillJob(result.rows[0]);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to create backfill job: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async findBackfillJob(
+    contractAddress: string,
+    chainId: number,
+    fromBlock: number,
+    toBlock?: number
+  ): Promise<BackfillJob | null> {
+    this.ensureDb();
+
+    try {
+      // Without an end block, only an unfinished job can be resumed
+      const result = toBlock !== undefined
+        ? await this.pool!.query(
+            `SELECT * FROM backfill_jobs
+             WHERE chain_id = $1 AND contract_address = $2 AND from_block = $3 AND to_block = $4`,
+            [chainId, contractAddress, fromBlock, toBlock]
+          )
+        : await this.pool!.query(
+            `SELECT * FROM backfill_jobs
+             WHERE chain_id = $1 AND contract_address = $2 AND from_block = $3 AND status = 'running'
+             ORDER BY updated_at DESC, id DESC
+             LIMIT 1`,
+            [chainId, contractAddress, fromBlock]
+          );
+
+      return result.rows.length > 0 ? this.mapBackfillJob(result.rows[0]) : null;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to find backfill job: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async completeBackfillJob(jobId: number): Promise<void> {
+    this.ensureDb();
+
+    try {
+      await this.pool!.query(
+        `UPDATE backfill_jobs SET status = 'completed', updated_at = $1 WHERE id = $2`,
+        [Math.floor(Date.now() / 1000), jobId]
+      );
+    } catch (error) {
+      throw new StorageError(
+        `Failed to complete backfill job: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getBlockHashes(contractAddress: string, chainId: number, limit: number): Promise<BlockRecord[]> {
+    this.ensureDb();
+
+    try {
+      const result = await this.pool!.query(
+        `SELECT block_number, block_hash, parent_hash FROM block_hashes
+         WHERE chain_id = $1 AND contract_address = $2
+         ORDER BY block_number DESC
+         LIMIT $3`,
+        [chainId, contractAddress, limit]
+      );
+
+      return result.rows.map(row => ({
+        blockNumber: Number(row.block_number),
+        blockHash: row.block_hash,
+        parentHash: row.parent_hash,
+      }));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get block hashes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async pruneBlockHashes(contractAddress: string, chainId: number, belowBlock: number): Promise<void> {
+    this.ensureDb();
+
+    try {
+      await this.pool!.query(
+        'DELETE FROM block_hashes WHERE chain_id = $1 AND contract_address = $2 AND block_number < $3',
+        [chainId, contractAddress, belowBlock]
+      );
+    } catch (error) {
+      throw new StorageError(
+        `Failed to prune block hashes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async rollbackToBlock(contractAddress: string, chainId: number, blockNumber: number): Promise<number> {
+    this.ensureDb();
+
+    try {
+      return await this.withTransaction(async client => {
+        // Events keep the address casing returned by the provider, so compare case-insensitively
+        const deleted = await client.query(
+          'DELETE FROM events WHERE block_number > $1 AND chain_id = $2 AND lower(contract_address) = $3',
+          [blockNumber, chainId, contractAddress.toLowerCase()]
+        );
+
+        await client.query(
+          'DELETE FROM block_hashes WHERE chain_id = $1 AND contract_address = $2 AND block_number > $3',
+          [chainId, contractAddress, blockNumber]
+        );
+
+        await client.query(
+          'UPDATE sync_state SET last_block = $1, last_sync = $2 WHERE chain_id = $3 AND contract_address = $4',
+          [blockNumber, Math.floor(Date.now() / 1000), chainId, contractAddress]
+        );
+
+        // Orphaned blocks are no longer covered
+        await client.query(
+          'DELETE FROM coverage WHERE chain_id = $1 AND contract_address = $2 AND from_block > $3',
+          [chainId, contractAddress, blockNumber]
+        );
+        await client.query(
+          'UPDATE coverage SET to_block = $1 WHERE chain_id = $2 AND contract_address = $3 AND to_block > $1',
+          [blockNumber, chainId, contractAddress]
+        );
+
+        // Children created by orphaned factory events were never deployed on the canonical chain
+        await client.query(
+          'DELETE FROM child_contracts WHERE chain_id = $1 AND factory_address = $2 AND created_block > $3',
+          [chainId, contractAddress, blockNumber]
+        );
+
+        // Sinks must not receive undelivered events of orphaned blocks
+        const outbox = await client.query('SELECT id, payload FROM sink_outbox');
+        for (const row of outbox.rows) {
+          const payload = rollbackOutboxPayload(row.payload, contractAddress, chainId, blockNumber);
+          if (payload === null) {
+            await client.query('DELETE FROM sink_outbox WHERE id = $1', [row.id]);
+          } else if (payload !== row.payload) {
+            await client.query('UPDATE sink_outbox SET payload = $1 WHERE id = $2', [payload, row.id]);
+          }
+        }
+
+        return deleted.rowCount ?? 0;
+      });
+    } catch (error) {
+      throw new StorageError(
+        `Failed to roll back to block ${blockNumber}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getCoverage(contractAddress: string, chainId: number): Promise<BlockRange[]> {
+    this.ensureDb();
+
+    try {
+      const result = await this.pool!.query(
+        `SELECT from_block, to_block FROM coverage
+         WHERE chain_id = $1 AND contract_address = $2
+         ORDER BY from_block`,
+        [chainId, contractAddress]
+      );
+
+      return result.rows.map(row => ({
+        fromBlock: Number(row.from_block),
+        toBlock: Number(row.to_block),
+      }));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get coverage: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async insertChildContracts(children: ChildContract[]): Promise<void> {
+    this.ensureDb();
+
+    if (children.length === 0) {
+      return;
+    }
+
+    try {
+      await this.withTransaction(async client => {
+        for (const child of children) {
+          await client.query(
+            `INSERT INTO child_contracts (address, chain_id, template, factory_address, created_block)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (chain_id, address) DO NOTHING`,
+            [child.address, child.chainId, child.template, child.factoryAddress, child.createdBlock]
+          );
+        }
+      });
+    } catch (error) {
+      throw new StorageError(
+        `Failed to insert child contracts: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getChildContracts(): Promise<ChildContract[]> {
+    this.ensureDb();
+
+    try {
+      const result = await this.pool!.query(
+        `SELECT address, chain_id, template, factory_address, created_block FROM child_contracts
+         ORDER BY chain_id ASC, created_block ASC, address ASC`
+      );
+
+      return result.rows.map(row => ({
+        address: row.address,
+        chainId: Number(row.chain_id),
+        template: row.template,
+        factoryAddress: row.factory_address,
+        createdBlock: Number(row.created_block),
+      }));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get child contracts: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async queryEvents(filter: EventFilter): Promise<DecodedEvent[]> {
+    this.ensureDb();
+
+    try {
+      const { where, params } = this.buildEventFilterSQL(filter);
+      let query = `SELECT * FROM events WHERE ${where}`;
+
+      // Order by block number and log index for consistent ordering
+      query += ' ORDER BY block_number ASC, log_index ASC';
+
+      if (filter.limit !== undefined) {
+        params.push(filter.limit);
+        query += ` LIMIT $${params.length}`;
+      }
+
+      if (filter.offset !== undefined) {
+        params.push(filter.offset);
+        query += ` OFFSET $${params.length}`;
+      }
+
+      const result = await this.pool!.query(query, params);
+
+      return result.rows.map(row => this.mapEventRow(row));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to query events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async *iterateEvents(filter: EventFilter, pageSize = EVENT_PAGE_SIZE): AsyncGenerator<DecodedEvent> {
+    this.ensureDb();
+
+    let remaining = filter.limit ?? Infinity;
+    let offset = filter.offset ?? 0;
+    let cursor: { block_number: string; log_index: number; id: string } | null = null;
+
+    while (remaining > 0) {
+      const limit = Math.min(pageSize, remaining);
+      let rows: pg.QueryResultRow[];
+
+      try {
+        const { where, params } = this.buildEventFilterSQL(filter);
+        let query = `SELECT * FROM events WHERE ${where}`;
+
+        // Seek past the last row of the previous page; id breaks ties between chains.
+        // Same as (block_number, log_index, id) > cursor, with the block_number bound on its own.
+        if (cursor) {
+          params.push(cursor.block_number, cursor.log_index, cursor.id);
+          const [block, logIndex, id] = [params.length - 2, params.length - 1, params.length];
+          query += ` AND block_number >= $${block}`
+            + ` AND (block_number > $${block} OR log_index > $${logIndex} OR (log_index = $${logIndex} AND id > $${id}))`;
+        }
+
+        params.push(limit, offset);
+        query += ` ORDER BY block_number ASC, log_index ASC, id ASC LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+        rows = (await this.pool!.query(query, params)).rows;
+      } catch (error) {
+        throw new StorageError(
+          `Failed to query events: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      for (const row of rows) {
+        yield this.mapEventRow(row);
+      }
+
+      if (rows.length < limit) {
+        return;
+      }
+      const last = rows[rows.length - 1];
+      cursor = { block_number: last.block_number, log_index: last.log_index, id: last.id };
+      offset = 0;
+      remaining -= rows.length;
+    }
+  }
+
+  async countEvents(filter: EventFilter): Promise<number> {
+    this.ensureDb();
+
+    try {
+      const { where, params } = this.buildEventFilterSQL(filter);
+      const result = await this.pool!.query(`SELECT COUNT(*) AS count FROM events WHERE ${where}`, params);
+      return Number(result.rows[0].count);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to count events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getEventCounts(contractAddress: string, chainId: number): Promise<Record<string, number>> {
+    this.ensureDb();
+
+    try {
+      // Events keep the address casing returned by the provider, so compare case-insensitively
+      const result = await this.pool!.query(
+        `SELECT event_name, COUNT(*) AS count FROM events
+         WHERE chain_id = $1 AND lower(contract_address) = $2
+         GROUP BY event_name`,
+        [chainId, contractAddress.toLowerCase()]
+      );
+
+      const counts: Record<string, number> = {};
+      for (const row of result.rows) {
+        counts[row.event_name] = Number(row.count);
+      }
+      return counts;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to count events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async syncEventViews(contractAddress: string, chainId: number, views: EventView[]): Promise<void> {
+    this.ensureDb();
+
+    try {
+      const address = contractAddress.toLowerCase();
+
+      await this.withTransaction(async client => {
+        const { rows: registered } = await client.query(
+          'SELECT view_name, contract_address, chain_id, definition FROM event_views'
+        );
+        const wanted = new Set(views.map(view => view.name));
+
+        // Drop views of events the contract no longer indexes
+        for (const row of registered) {
+          if (Number(row.chain_id) === chainId && row.contract_address === address && !wanted.has(row.view_name)) {
+            await client.query(`DROP VIEW IF EXISTS ${quoteIdentifier(row.view_name)}`);
+            await client.query('DELETE FROM event_views WHERE view_name = $1', [row.view_name]);
+          }
+        }
+
+        for (const view of views) {
+          const definition = this.buildEventViewSQL(address, chainId, view);
+          const existing = registered.find(row => row.view_name === view.name);
+          if (existing && (Number(existing.chain_id) !== chainId || existing.contract_address !== address)) {
+            throw new Error(`view ${view.name} already belongs to contract ${existing.contract_address}`);
+          }
+          if (existing?.definition === definition) {
+            continue;
+          }
+
+          // Only views created here are replaced, never tables or views created by users
+          if (existing) {
+            await client.query(`DROP VIEW IF EXISTS ${quoteIdentifier(view.name)}`);
+          }
+          await client.query(`CREATE VIEW ${quoteIdentifier(view.name)} AS ${definition}`);
+          await client.query(
+            `INSERT INTO event_views (view_name, contract_address, chain_id, event_name, definition)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (view_name) DO UPDATE SET event_name = excluded.event_name, definition = excluded.definition`,
+            [view.name, address, chainId, view.eventName, definition]
+          );
+        }
+      });
+    } catch (error) {
+      throw new StorageError(
+        `Failed to create event views: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getOutboxDeliveries(sink: string, limit: number): Promise<OutboxDelivery[]> {
+    this.ensureDb();
+
+    try {
+      const result = await this.pool!.query(
+        'SELECT * FROM sink_outbox WHERE sink = $1 ORDER BY id LIMIT $2',
+        [sink, limit]
+      );
+
+      return result.rows.map(row => ({
+        id: Number(row.id),
+        sink: row.sink,
+        payload: row.payload,
+        attempts: Number(row.attempts),
+        nextAttemptAt: Number(row.next_attempt_at),
+        lastError: row.last_error,
+        createdAt: Number(row.created_at),
+      }));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get outbox deliveries: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async deleteOutboxDelivery(id: number): Promise<void> {
+    this.ensureDb();
+
+    try {
+      await this.pool!.query('DELETE FROM sink_outbox WHERE id = $1', [id]);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete outbox delivery: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async recordOutboxFailure(id: number, lastError: string, nextAttemptAt: number): Promise<void> {
+    this.ensureDb();
+
+    try {
+      await this.pool!.query(
+        `UPDATE sink_outbox
+         SET attempts = attempts + 1, last_error = $1, next_attempt_at = $2
+         WHERE id = $3`,
+        [lastError, nextAttemptAt, id]
+      );
+    } catch (error) {
+      throw new StorageError(
+        `Failed to record outbox failure: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getDatabaseId(): Promise<string> {
+    this.ensureDb();
+
+    try {
+      const result = await this.pool!.query(`SELECT value FROM database_info WHERE key = 'database_id'`);
+      return result.rows[0].value;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get database ID: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      try {
+        await this.pool.end();
+        this.pool = null;
+      } catch (error) {
+        throw new StorageError(
+          `Failed to close database: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * SELECT statement of an event view
+   * Integers wider than 64 bits are NUMERIC, which holds uint256 values exactly.
+   */
+  private buildEventViewSQL(contractAddress: string, chainId: number, view: EventView): string {
+    const columns = [
+      ...EVENT_VIEW_BASE_COLUMNS,
+      ...view.columns.map(column => {
+        const field = quoteLiteral(column.field);
+        const expression = {
+          integer: `(event_data->>${field})::bigint`,
+          numeric: `(event_data->>${field})::numeric`,
+          boolean: `(event_data->>${field})::boolean`,
+          text: `event_data->>${field}`,
+          json: `event_data->${field}`,
+        }[column.type];
+        return `${expression} AS ${quoteIdentifier(column.name)}`;
+      }),
+    ];
+
+    // Events keep the address casing returned by the provider, so compare case-insensitively
+    return `SELECT ${columns.join(', ')} FROM events ` +
+      `WHERE chain_id = ${chainId} AND lower(contract_address) = ${quoteLiteral(contractAddress)} ` +
+      `AND event_name = ${quoteLiteral(view.eventName)}`;
+  }
+
+  private ensureDb(): void {
+    if (!this.pool) {
+      throw new StorageError('Database not initialized or already closed');
+    }
+  }
+
+  /**
+   * Re-key tables of a database created before multi-chain support by chain ID
+   * Chain IDs of existing rows are taken from sync_state. Block hashes only cover
+   * the reorg window, so they are dropped and recorded again on the next poll.
+   */
+  private async upgradeLegacySchema(): Promise<void> {
+    const columns = async (table: string): Promise<string[]> => {
+      const result = await this.pool!.query(
+        `SELECT column_name FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = $1`,
+        [table]
+      );
+      return result.rows.map(row => row.column_name as string);
+    };
+
+    const eventColumns = await columns('events');
+    if (eventColumns.length === 0 || eventColumns.includes('chain_id')) {
+      return;
+    }
+    const hasBackfillJobs = (await columns('backfill_jobs')).length > 0;
+    const hasChildContracts = (await columns('child_contracts')).length > 0;
+
+    await this.withTransaction(async client => {
+      await client.query(`
+        ALTER TABLE events ADD COLUMN chain_id INTEGER;
+        UPDATE events SET chain_id = s.chain_id
+        FROM sync_state s WHERE s.contract_address = lower(events.contract_address);
+
+        ALTER TABLE sync_state DROP CONSTRAINT sync_state_pkey;
+        ALTER TABLE sync_state ADD PRIMARY KEY (chain_id, contract_address);
+
+        DROP TABLE IF EXISTS block_hashes;
+      `);
+
+      if (hasBackfillJobs) {
+        await client.query(`
+          ALTER TABLE backfill_jobs DROP CONSTRAINT IF EXISTS backfill_jobs_contract_address_from_block_to_block_key;
+          ALTER TABLE backfill_jobs ADD UNIQUE (chain_id, contract_address, from_block, to_block);
+        `);
+      }
+
+      if (hasChildContracts) {
+        await client.query(`
+          ALTER TABLE child_contracts ADD COLUMN chain_id INTEGER;
+          UPDATE child_contracts SET chain_id = s.chain_id
+          FROM sync_state s WHERE s.contract_address = child_contracts.factory_address;
+          DELETE FROM child_contracts WHERE chain_id IS NULL;
+          ALTER TABLE child_contracts ALTER COLUMN chain_id SET NOT NULL;
+          ALTER TABLE child_contracts DROP CONSTRAINT child_contracts_pkey;
+          ALTER TABLE child_contracts ADD PRIMARY KEY (chain_id, address);
+          DROP INDEX IF EXISTS idx_child_contracts_factory;
+        `);
+      }
+    });
+  }
+
+  /**
+   * Run a callback inside a transaction on a dedicated pool client
+   */
+  private async withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool!.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update sync state, insert events and record block hashes
+   * Must be called with a client inside a transaction
+   * @returns Keys of the events inserted, excluding ones that were already stored
+   */
+  private async writeSyncStateAndEvents(
+    client: pg.PoolClient,
+    contractAddress: string,
+    chainId: number,
+    blockNumber: number,
+    events: DecodedEvent[],
+    blocks: BlockRecord[]
+  ): Promise<Set<string>> {
+    // Update sync state
+    await client.query(
+      `INSERT INTO sync_state (contract_address, chain_id, last_block, last_sync)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (chain_id, contract_address) DO UPDATE SET
+         last_block = GREATEST(sync_state.last_block, excluded.last_block),
+         last_sync = excluded.last_sync`,
+      [contractAddress, chainId, blockNumber, Math.floor(Date.now() / 1000)]
+    );
+
+    // Insert events if any
+    const inserted = events.length > 0 ? await this.insertEventRows(client, events, chainId) : new Set<string>();
+
+    // Record block hashes if any
+    for (const block of blocks) {
+      await client.query(
+        `INSERT INTO block_hashes (contract_address, chain_id, block_number, block_hash, parent_hash)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (chain_id, contract_address, block_number) DO UPDATE SET
+           block_hash = excluded.block_hash,
+           parent_hash = excluded.parent_hash`,
+        [contractAddress, chainId, block.blockNumber, block.blockHash, block.parentHash]
+      );
+    }
+
+    return inserted;
+  }
+
+  /**
+   * Queue event batches for sinks with the events their commit inserted
+   * Must be called with a client inside a transaction
+   */
+  private async writeOutbox(client: pg.PoolClient, outbox: OutboxEntry[], inserted: Set<string>): Promise<void> {
+    const now = Date.now();
+    for (const entry of outbox) {
+      const payload = keepInsertedEvents(entry.payload, inserted);
+      if (payload === null) {
+        continue;
+      }
+      await client.query(
+        `INSERT INTO sink_outbox (sink, payload, attempts, next_attempt_at, created_at)
+         VALUES ($1, $2, 0, $3, $4)`,
+        [entry.sink, payload, now, Math.floor(now / 1000)]
+      );
+    }
+  }
+
+  /**
+   * Record a block range as indexed, merged with overlapping and adjacent ranges
+   * Must be called with a client inside a transaction
+   */
+  private async writeCoverage(
+    client: pg.PoolClient,
+    contractAddress: string,
+    chainId: number,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<void> {
+    const touching = [chainId, contractAddress, fromBlock - 1, toBlock + 1];
+    const deleted = await client.query(
+      `DELETE FROM coverage
+       WHERE chain_id = $1 AND contract_address = $2 AND to_block >= $3 AND from_block <= $4
+       RETURNING from_block, to_block`,
+      touching
+    );
+
+    const merged = deleted.rows.reduce(
+      (range, row) => ({
+        fromBlock: Math.min(range.fromBlock, Number(row.from_block)),
+        toBlock: Math.max(range.toBlock, Number(row.to_block)),
+      }),
+      { fromBlock, toBlock }
+    );
+
+    await client.query(
+      'INSERT INTO coverage (contract_address, chain_id, from_block, to_block) VALUES ($1, $2, $3, $4)',
+      [contractAddress, chainId, merged.fromBlock, merged.toBlock]
+    );
+  }
+
+  private mapBackfillJob(row: Record<string, unknown>): BackfillJob {
+    return {
+      id: Number(row.id),
+      contractAddress: row.contract_address as string,
+      chainId: Number(row.chain_id),
+      fromBlock: Number(row.from_block),
+      toBlock: Number(row.to_block),
+      lastBlock: row.last_block === null ? null : Number(row.last_block),
+      status: row.status as BackfillJobStatus,
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+    };
+  }
+
+  /**
+   * Insert events with multi-row statements, ignoring duplicates
+   * @param chainId Chain of all events, overriding their own chainId
+   * @returns Keys of the events actually inserted
+   */
+  private async insertEventRows(db: Queryable, events: DecodedEvent[], chainId?: number): Promise<Set<string>> {
+    const inserted = new Set<string>();
+    const indexedAt = Math.floor(Date.now() / 1000);
+
+    for (let i = 0; i < events.length; i += INSERT_BATCH_SIZE) {
+      const batch = events.slice(i, i + INSERT_BATCH_SIZE);
+      const params: unknown[] = [];
+      const values: string[] = [];
+
+      for (const event of batch) {
+        const base = params.length;
+        params.push(
+          event.contractAddress,
+          event.blockNumber,
+          event.blockTimestamp,
+          event.transactionHash,
+          event.logIndex,
+          event.eventName,
+          JSON.stringify(event.eventData),
+          indexedAt,
+          chainId ?? event.chainId ?? null
+        );
+        values.push(
+          `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}::jsonb, $${base + 8}, $${base + 9})`
+        );
+      }
+
+      const result = await db.query(
+        `INSERT INTO events (
+          contract_address,
+          block_number,
+          block_timestamp,
+          transaction_hash,
+          log_index,
+          event_name,
+          event_data,
+          indexed_at,
+          chain_id
+        ) VALUES ${values.join(', ')}
+        ON CONFLICT (transaction_hash, log_index) DO NOTHING
+        RETURNING transaction_hash, log_index`,
+        params
+      );
+
+      for (const row of result.rows) {
+        inserted.add(getEventKey({ transactionHash: row.transaction_hash, logIndex: row.log_index }));
+      }
+    }
+
+    return inserted;
+  }
+
+  /**
+   * WHERE clause and parameters of an event filter, without its limit and offset
+   */
+  private buildEventFilterSQL(filter: EventFilter): { where: string; params: unknown[] } {
+    let where = '1=1';
+    const params: unknown[] = [];
+
+    if (filter.chainId !== undefined) {
+      params.push(filter.chainId);
+      where += ` AND chain_id = $${params.length}`;
+    }
+
+    if (filter.contractAddress) {
+      params.push(filter.contractAddress);
+      where += ` AND contract_address = $${params.length}`;
+    }
+
+    if (filter.eventName) {
+      params.push(filter.eventName);
+      where += ` AND event_name = $${params.length}`;
+    }
+
+    if (filter.fromBlock !== undefined) {
+      params.push(filter.fromBlock);
+      where += ` AND block_number >= $${params.length}`;
+    }
+
+    if (filter.toBlock !== undefined) {
+      params.push(filter.toBlock);
+      where += ` AND block_number <= $${params.length}`;
+    }
+
+    for (const predicate of getArgPredicates(filter)) {
+      where += ` AND ${this.buildArgPredicateSQL(predicate, params)}`;
+    }
+
+    return { where, params };
+  }
+
+  /**
+   * Condition of an argument predicate, pushing its parameters
+   */
+  private buildArgPredicateSQL(predicate: ArgPredicate, params: unknown[]): string {
+    // event_data->'order'->>'maker' for "order.maker"
+    const segments = splitArgPath(predicate.path).map(segment => {
+      params.push(segment);
+      return `$${params.length}`;
+    });
+    const field = `event_data${segments.slice(0, -1).map(segment => `->${segment}`).join('')}->>${segments[segments.length - 1]}`;
+
+    const bind = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    switch (predicate.op) {
+      case 'eq':
+        // Addresses are stored checksummed, so compare hex values case-insensitively
+        return isHexString(predicate.value)
+          ? `lower(${field}) = ${bind(predicate.value.toLowerCase())}`
+          : `${field} = ${bind(predicate.value)}`;
+
+      case 'in': {
+        const hex = predicate.values.filter(isHexString);
+        const text = predicate.values.filter(value => !isHexString(value));
+        const conditions = [
+          ...(hex.length > 0 ? [`lower(${field}) IN (${hex.map(value => bind(value.toLowerCase())).join(', ')})`] : []),
+          ...(text.length > 0 ? [`${field} IN (${text.map(value => bind(value)).join(', ')})`] : []),
+        ];
+        return conditions.length > 0 ? `(${conditions.join(' OR ')})` : 'FALSE';
+      }
+
+      default: {
+        // Integers are decimal strings; values that aren't integers never match
+        const bound = bind(parseIntegerArg(predicate).toString());
+        return `(CASE WHEN ${field} ~ '^-?[0-9]+$' THEN (${field})::numeric END) ${SQL_COMPARISONS[predicate.op]} ${bound}::numeric`;
+      }
+    }
+  }
+
+  private mapEventRow(row: pg.QueryResultRow): DecodedEvent {
+    return {
+      contractAddress: row.contract_address,
+      blockNumber: Number(row.block_number),
+      blockTimestamp: Number(row.block_timestamp),
+      transactionHash: row.transaction_hash,
+      logIndex: Number(row.log_index),
+      eventName: row.event_name,
+      eventData: this.parseEventData(row.event_data),
+      chainId: row.chain_id === null ? undefined : Number(row.chain_id),
+    };
+  }
+
+  /**
+   * JSONB columns are normally parsed by the driver, but fall back to parsing text
+   */
+  private parseEventData(value: unknown): Record<string, unknown> {
+    if (typeof value === 'string') {
+      return JSON.parse(value) as Record<string, unknown>;
+    }
+    return value as Record<string, unknown>;
+  }
+}
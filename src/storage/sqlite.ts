@@ -1,14 +1,115 @@
 import Database from 'better-sqlite3';
-import { StorageAdapter, EventFilter } from './adapter.js';
-import { DecodedEvent } from '../core/types.js';
+import {
+  StorageAdapter,
+  EventFilter,
+  SyncState,
+  BackfillJob,
+  BackfillJobStatus,
+  OutboxEntry,
+  OutboxDelivery,
+} from './adapter.js';
+import { BlockRange, BlockRecord, ChildContract, DecodedEvent } from '../core/types.js';
 import { StorageError } from '../utils/errors.js';
+import { isHexString } from '../utils/validation.js';
+import { EVENT_VIEW_BASE_COLUMNS, EventView, quoteIdentifier, quoteLiteral } from './event-views.js';
+import { runMigrations } from './migrations/index.js';
+import { getEventKey, keepInsertedEvents, rollbackOutboxPayload } from './outbox.js';
+import {
+  ArgComparisonOperator,
+  ArgIndex,
+  ArgIndexType,
+  ArgPredicate,
+  INTEGER_KEY_DIGITS,
+  getArgIndexName,
+  getArgIndexType,
+  getArgPredicates,
+  parseIntegerArg,
+  splitArgPath,
+  toIntegerKey,
+} from './arg-filters.js';
+
+/**
+ * Events read per query by iterateEvents
+ */
+const EVENT_PAGE_SIZE = 1000;
+
+const SQL_COMPARISONS: Record<ArgComparisonOperator, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+/**
+ * Comparison of absolute values equivalent to a comparison of negative integers
+ */
+const MIRRORED_COMPARISONS: Record<ArgComparisonOperator, ArgComparisonOperator> = {
+  gt: 'lt',
+  gte: 'lte',
+  lt: 'gt',
+  lte: 'gte',
+};
+
+/**
+ * SQL for the zero-padded key of a non-negative decimal string, matching toIntegerKey
+ */
+function toIntegerKeySQL(value: string): string {
+  return `substr('${'0'.repeat(INTEGER_KEY_DIGITS)}' || ${value}, -${INTEGER_KEY_DIGITS})`;
+}
+
+interface EventRow {
+  id: number;
+  contract_address: string;
+  block_number: number;
+  block_timestamp: number;
+  transaction_hash: string;
+  log_index: number;
+  event_name: string;
+  event_data: string;
+  chain_id: number | null;
+}
+
+interface BackfillJobRow {
+  id: number;
+  contract_address: string;
+  chain_id: number;
+  from_block: number;
+  to_block: number;
+  last_block: number | null;
+  status: BackfillJobStatus;
+  created_at: number;
+  updated_at: number;
+}
+
+interface EventViewRow {
+  view_name: string;
+  contract_address: string;
+  chain_id: number;
+  definition: string;
+}
+
+interface OutboxRow {
+  id: number;
+  sink: string;
+  payload: string;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  created_at: number;
+}
 
 export class SQLiteAdapter implements StorageAdapter {
   private db: Database.Database | null = null;
   private dbPath: string;
+  private indexes: ArgIndex[];
 
-  constructor(dbPath: string) {
+  /**
+   * @param dbPath Path of the database file
+   * @param indexes Indexes on decoded event arguments; other generated argument indexes are dropped
+   */
+  constructor(dbPath: string, indexes: ArgIndex[] = []) {
     this.dbPath = dbPath;
+    this.indexes = indexes;
   }
 
   async init(): Promise<void> {
@@ -18,39 +119,9 @@ export class SQLiteAdapter implements StorageAdapter {
       // Enable WAL mode for better concurrent access
       this.db.pragma('journal_mode = WAL');
 
-      // Create events table
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS events (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          contract_address TEXT NOT NULL,
-          block_number INTEGER NOT NULL,
-          block_timestamp INTEGER NOT NULL,
-          transaction_hash TEXT NOT NULL,
-          log_index INTEGER NOT NULL,
-          event_name TEXT NOT NULL,
-          event_data TEXT NOT NULL,
-          indexed_at INTEGER NOT NULL,
-          UNIQUE(transaction_hash, log_index)
-        );
-      `);
-
-      // Create indexes
-      this.db.exec(`
-        CREATE INDEX IF NOT EXISTS idx_contract_block ON events(contract_address, block_number);
-        CREATE INDEX IF NOT EXISTS idx_contract_event ON events(contract_address, event_name);
-        CREATE INDEX IF NOT EXISTS idx_block_number ON events(block_number);
-      `);
-
-      // Create sync_state table
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS sync_state (
-          contract_address TEXT PRIMARY KEY,
-          chain_id INTEGER NOT NULL,
-          last_block INTEGER NOT NULL,
-          last_sync INTEGER NOT NULL,
-          status TEXT DEFAULT 'active'
-        );
-      `);
+      // Bring the schema up to date; databases of a newer ChainTap are refused
+      runMigrations(this.db);
+      this.syncArgIndexes();
     } catch (error) {
       throw new StorageError(
         `Failed to initialize database: ${error instanceof Error ? error.message : String(error)}`
@@ -75,8 +146,9 @@ export class SQLiteAdapter implements StorageAdapter {
           log_index,
           event_name,
           event_data,
-          indexed_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          indexed_at,
+          chain_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       const insertMany = this.db!.transaction((events: DecodedEvent[]) => {
@@ -90,7 +162,8 @@ export class SQLiteAdapter implements StorageAdapter {
             event.logIndex,
             event.eventName,
             JSON.stringify(event.eventData),
-            Math.floor(Date.now() / 1000)
+            Math.floor(Date.now() / 1000),
+            event.chainId ?? null
           );
           // If changes > 0, the insert was successful (not ignored due to duplicate)
           if (result.changes > 0) {
@@ -108,15 +181,15 @@ export class SQLiteAdapter implements StorageAdapter {
     }
   }
 
-  async getLastSyncedBlock(contractAddress: string): Promise<number | null> {
+  async getLastSyncedBlock(contractAddress: string, chainId: number): Promise<number | null> {
     this.ensureDb();
 
     try {
       const stmt = this.db!.prepare(`
-        SELECT last_block FROM sync_state WHERE contract_address = ?
+        SELECT last_block FROM sync_state WHERE chain_id = ? AND contract_address = ?
       `);
 
-      const result = stmt.get(contractAddress) as { last_block: number } | undefined;
+      const result = stmt.get(chainId, contractAddress) as { last_block: number } | undefined;
       return result?.last_block ?? null;
     } catch (error) {
       throw new StorageError(
@@ -125,96 +198,358 @@ export class SQLiteAdapter implements StorageAdapter {
     }
   }
 
+  async getSyncState(contractAddress: string, chainId: number): Promise<SyncState | null> {
+    this.ensureDb();
+
+    try {
+      const stmt = this.db!.prepare(`
+        SELECT * FROM sync_state WHERE chain_id = ? AND contract_address = ?
+      `);
+
+      const row = stmt.get(chainId, contractAddress) as {
+        contract_address: string;
+        chain_id: number;
+        last_block: number;
+        last_sync: number;
+        status: string;
+      } | undefined;
+
+      if (!row) {
+        return null;
+      }
+
+      return {
+        contractAddress: row.contract_address,
+        chainId: row.chain_id,
+        lastBlock: row.last_block,
+        lastSync: row.last_sync,
+        status: row.status,
+      };
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get sync state: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   async updateSyncStateAndInsertEvents(
     contractAddress: string,
     chainId: number,
     blockNumber: number,
-    events: DecodedEvent[]
-  ): Promise<void> {
+    events: DecodedEvent[],
+    blocks: BlockRecord[] = [],
+    outbox: OutboxEntry[] = [],
+    fromBlock?: number
+  ): Promise<number> {
     this.ensureDb();
 
     try {
       const updateTransaction = this.db!.transaction(() => {
-        // Update sync state
-        const syncStmt = this.db!.prepare(`
-          INSERT INTO sync_state (contract_address, chain_id, last_block, last_sync)
-          VALUES (?, ?, ?, ?)
-          ON CONFLICT(contract_address) DO UPDATE SET
-            last_block = excluded.last_block,
-            last_sync = excluded.last_sync
-        `);
-
-        syncStmt.run(
-          contractAddress,
-          chainId,
-          blockNumber,
-          Math.floor(Date.now() / 1000)
-        );
+        const inserted = this.writeSyncStateAndEvents(contractAddress, chainId, blockNumber, events, blocks);
+        this.writeOutbox(outbox, inserted);
+        if (fromBlock !== undefined) {
+          this.writeCoverage(contractAddress, chainId, fromBlock, blockNumber);
+        }
+        return inserted.size;
+      });
+
+      return updateTransaction();
+    } catch (error) {
+      throw new StorageError(
+        `Failed to update sync state and insert events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async commitBackfillChunk(
+    jobId: number,
+    contractAddress: string,
+    chainId: number,
+    blockNumber: number,
+    events: DecodedEvent[],
+    outbox: OutboxEntry[] = [],
+    fromBlock?: number
+  ): Promise<number> {
+    this.ensureDb();
+
+    try {
+      const commitTransaction = this.db!.transaction(() => {
+        const inserted = this.writeSyncStateAndEvents(contractAddress, chainId, blockNumber, events, []);
+        this.writeOutbox(outbox, inserted);
+        if (fromBlock !== undefined) {
+          this.writeCoverage(contractAddress, chainId, fromBlock, blockNumber);
+        }
+
+        // Checkpoint the job in the same transaction as the chunk's events
+        this.db!.prepare(`
+          UPDATE backfill_jobs SET last_block = ?, updated_at = ? WHERE id = ?
+        `).run(blockNumber, Math.floor(Date.now() / 1000), jobId);
+
+        return inserted.size;
+      });
+
+      return commitTransaction();
+    } catch (error) {
+      throw new StorageError(
+        `Failed to commit backfill chunk: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async createBackfillJob(
+    contractAddress: string,
+    chainId: number,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<BackfillJob> {
+    this.ensureDb();
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+
+      // Re-creating a job for the same range restarts it from the beginning
+      const row = this.db!.prepare(`
+        INSERT INTO backfill_jobs (
+          contract_address, chain_id, from_block, to_block, last_block, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, NULL, 'running', ?, ?)
+        ON CONFLICT(chain_id, contract_address, from_block, to_block) DO UPDATE SET
+          last_block = NULL,
+          status = 'running',
+          created_at = excluded.created_at,
+          updated_at = excluded.updated_at
+        RETURNING *
+      `).get(contractAddress, chainId, fromBlock, toBlock, now, now) as BackfillJobRow;
+
+      return this.mapBackfillJob(row);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to create backfill job: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async findBackfillJob(
+    contractAddress: string,
+    chainId: number,
+    fromBlock: number,
+    toBlock?: number
+  ): Promise<BackfillJob | null> {
+    this.ensureDb();
+
+    try {
+      // Without an end block, only an unfinished job can be resumed
+      const row = (toBlock !== undefined
+        ? this.db!.prepare(`
+            SELECT * FROM backfill_jobs
+            WHERE chain_id = ? AND contract_address = ? AND from_block = ? AND to_block = ?
+          `).get(chainId, contractAddress, fromBlock, toBlock)
+        : this.db!.prepare(`
+            SELECT * FROM backfill_jobs
+            WHERE chain_id = ? AND contract_address = ? AND from_block = ? AND status = 'running'
+            ORDER BY updated_at DESC, id DESC
+            LIMIT 1
+          `).get(chainId, contractAddress, fromBlock)) as BackfillJobRow | undefined;
+
+      return row ? this.mapBackfillJob(row) : null;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to find backfill job: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async completeBackfillJob(jobId: number): Promise<void> {
+    this.ensureDb();
+
+    try {
+      this.db!.prepare(`
+        UPDATE backfill_jobs SET status = 'completed', updated_at = ? WHERE id = ?
+      `).run(Math.floor(Date.now() / 1000), jobId);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to complete backfill job: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getBlockHashes(contractAddress: string, chainId: number, limit: number): Promise<BlockRecord[]> {
+    this.ensureDb();
+
+    try {
+      const stmt = this.db!.prepare(`
+        SELECT block_number, block_hash, parent_hash FROM block_hashes
+        WHERE chain_id = ? AND contract_address = ?
+        ORDER BY block_number DESC
+        LIMIT ?
+      `);
+
+      const rows = stmt.all(chainId, contractAddress, limit) as Array<{
+        block_number: number;
+        block_hash: string;
+        parent_hash: string;
+      }>;
+
+      return rows.map(row => ({
+        blockNumber: row.block_number,
+        blockHash: row.block_hash,
+        parentHash: row.parent_hash,
+      }));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get block hashes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async pruneBlockHashes(contractAddress: string, chainId: number, belowBlock: number): Promise<void> {
+    this.ensureDb();
+
+    try {
+      this.db!.prepare(`
+        DELETE FROM block_hashes WHERE chain_id = ? AND contract_address = ? AND block_number < ?
+      `).run(chainId, contractAddress, belowBlock);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to prune block hashes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async rollbackToBlock(contractAddress: string, chainId: number, blockNumber: number): Promise<number> {
+    this.ensureDb();
 
-        // Insert events if any
-        if (events.length > 0) {
-          const eventStmt = this.db!.prepare(`
-            INSERT OR IGNORE INTO events (
-              contract_address,
-              block_number,
-              block_timestamp,
-              transaction_hash,
-              log_index,
-              event_name,
-              event_data,
-              indexed_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-          `);
-
-          for (const event of events) {
-            eventStmt.run(
-              event.contractAddress,
-              event.blockNumber,
-              event.blockTimestamp,
-              event.transactionHash,
-              event.logIndex,
-              event.eventName,
-              JSON.stringify(event.eventData),
-              Math.floor(Date.now() / 1000)
-            );
+    try {
+      const rollbackTransaction = this.db!.transaction(() => {
+        // Events keep the address casing returned by the provider, so compare case-insensitively
+        const deleteEvents = this.db!.prepare(`
+          DELETE FROM events WHERE block_number > ? AND chain_id = ? AND lower(contract_address) = ?
+        `).run(blockNumber, chainId, contractAddress.toLowerCase());
+
+        this.db!.prepare(`
+          DELETE FROM block_hashes WHERE chain_id = ? AND contract_address = ? AND block_number > ?
+        `).run(chainId, contractAddress, blockNumber);
+
+        this.db!.prepare(`
+          UPDATE sync_state SET last_block = ?, last_sync = ? WHERE chain_id = ? AND contract_address = ?
+        `).run(blockNumber, Math.floor(Date.now() / 1000), chainId, contractAddress);
+
+        // Orphaned blocks are no longer covered
+        this.db!.prepare(`
+          DELETE FROM coverage WHERE chain_id = ? AND contract_address = ? AND from_block > ?
+        `).run(chainId, contractAddress, blockNumber);
+        this.db!.prepare(`
+          UPDATE coverage SET to_block = ? WHERE chain_id = ? AND contract_address = ? AND to_block > ?
+        `).run(blockNumber, chainId, contractAddress, blockNumber);
+
+        // Children created by orphaned factory events were never deployed on the canonical chain
+        this.db!.prepare(`
+          DELETE FROM child_contracts WHERE chain_id = ? AND factory_address = ? AND created_block > ?
+        `).run(chainId, contractAddress, blockNumber);
+
+        // Sinks must not receive undelivered events of orphaned blocks
+        const outbox = this.db!.prepare('SELECT id, payload FROM sink_outbox').all() as Pick<OutboxRow, 'id' | 'payload'>[];
+        const deleteOutbox = this.db!.prepare('DELETE FROM sink_outbox WHERE id = ?');
+        const updateOutbox = this.db!.prepare('UPDATE sink_outbox SET payload = ? WHERE id = ?');
+        for (const row of outbox) {
+          const payload = rollbackOutboxPayload(row.payload, contractAddress, chainId, blockNumber);
+          if (payload === null) {
+            deleteOutbox.run(row.id);
+          } else if (payload !== row.payload) {
+            updateOutbox.run(payload, row.id);
           }
         }
+
+        return deleteEvents.changes;
       });
 
-      updateTransaction();
+      return rollbackTransaction();
     } catch (error) {
       throw new StorageError(
-        `Failed to update sync state and insert events: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to roll back to block ${blockNumber}: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
-  async queryEvents(filter: EventFilter): Promise<DecodedEvent[]> {
+  async getCoverage(contractAddress: string, chainId: number): Promise<BlockRange[]> {
     this.ensureDb();
 
     try {
-      let query = 'SELECT * FROM events WHERE 1=1';
-      const params: unknown[] = [];
+      const rows = this.db!.prepare(`
+        SELECT from_block, to_block FROM coverage
+        WHERE chain_id = ? AND contract_address = ?
+        ORDER BY from_block
+      `).all(chainId, contractAddress) as Array<{ from_block: number; to_block: number }>;
 
-      if (filter.contractAddress) {
-        query += ' AND contract_address = ?';
-        params.push(filter.contractAddress);
-      }
+      return rows.map(row => ({ fromBlock: row.from_block, toBlock: row.to_block }));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get coverage: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
 
-      if (filter.eventName) {
-        query += ' AND event_name = ?';
-        params.push(filter.eventName);
-      }
+  async insertChildContracts(children: ChildContract[]): Promise<void> {
+    this.ensureDb();
 
-      if (filter.fromBlock !== undefined) {
-        query += ' AND block_number >= ?';
-        params.push(filter.fromBlock);
-      }
+    if (children.length === 0) {
+      return;
+    }
 
-      if (filter.toBlock !== undefined) {
-        query += ' AND block_number <= ?';
-        params.push(filter.toBlock);
-      }
+    try {
+      const stmt = this.db!.prepare(`
+        INSERT OR IGNORE INTO child_contracts (address, chain_id, template, factory_address, created_block)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+
+      const insertMany = this.db!.transaction((children: ChildContract[]) => {
+        for (const child of children) {
+          stmt.run(child.address, child.chainId, child.template, child.factoryAddress, child.createdBlock);
+        }
+      });
+
+      insertMany(children);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to insert child contracts: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getChildContracts(): Promise<ChildContract[]> {
+    this.ensureDb();
+
+    try {
+      const rows = this.db!.prepare(`
+        SELECT address, chain_id, template, factory_address, created_block FROM child_contracts
+        ORDER BY chain_id ASC, created_block ASC, address ASC
+      `).all() as Array<{
+        address: string;
+        chain_id: number;
+        template: string;
+        factory_address: string;
+        created_block: number;
+      }>;
+
+      return rows.map(row => ({
+        address: row.address,
+        chainId: row.chain_id,
+        template: row.template,
+        factoryAddress: row.factory_address,
+        createdBlock: row.created_block,
+      }));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get child contracts: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async queryEvents(filter: EventFilter): Promise<DecodedEvent[]> {
+    this.ensureDb();
+
+    try {
+      const { where, params } = this.buildEventFilterSQL(filter);
+      let query = `SELECT * FROM events WHERE ${where}`;
 
       // Order by block number and log index for consistent ordering
       query += ' ORDER BY block_number ASC, log_index ASC';
@@ -237,28 +572,214 @@ export class SQLiteAdapter implements StorageAdapter {
       }
 
       const stmt = this.db!.prepare(query);
-      const rows = stmt.all(...params) as Array<{
-        contract_address: string;
-        block_number: number;
-        block_timestamp: number;
-        transaction_hash: string;
-        log_index: number;
+      const rows = stmt.all(...params) as EventRow[];
+
+      return rows.map(row => this.mapEventRow(row));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to query events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async *iterateEvents(filter: EventFilter, pageSize = EVENT_PAGE_SIZE): AsyncGenerator<DecodedEvent> {
+    this.ensureDb();
+
+    let remaining = filter.limit ?? Infinity;
+    let offset = filter.offset ?? 0;
+    let cursor: EventRow | null = null;
+
+    while (remaining > 0) {
+      const limit = Math.min(pageSize, remaining);
+      let rows: EventRow[];
+
+      try {
+        const { where, params } = this.buildEventFilterSQL(filter);
+        let query = `SELECT * FROM events WHERE ${where}`;
+
+        // Seek past the last row of the previous page; id breaks ties between chains
+        if (cursor) {
+          query += ' AND (block_number, log_index, id) > (?, ?, ?)';
+          params.push(cursor.block_number, cursor.log_index, cursor.id);
+        }
+
+        query += ' ORDER BY block_number ASC, log_index ASC, id ASC LIMIT ? OFFSET ?';
+        params.push(limit, offset);
+
+        rows = this.db!.prepare(query).all(...params) as EventRow[];
+      } catch (error) {
+        throw new StorageError(
+          `Failed to query events: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      for (const row of rows) {
+        yield this.mapEventRow(row);
+      }
+
+      if (rows.length < limit) {
+        return;
+      }
+      cursor = rows[rows.length - 1];
+      offset = 0;
+      remaining -= rows.length;
+    }
+  }
+
+  async countEvents(filter: EventFilter): Promise<number> {
+    this.ensureDb();
+
+    try {
+      const { where, params } = this.buildEventFilterSQL(filter);
+      const row = this.db!.prepare(`SELECT COUNT(*) AS count FROM events WHERE ${where}`)
+        .get(...params) as { count: number };
+      return row.count;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to count events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getEventCounts(contractAddress: string, chainId: number): Promise<Record<string, number>> {
+    this.ensureDb();
+
+    try {
+      // Events keep the address casing returned by the provider, so compare case-insensitively
+      const stmt = this.db!.prepare(`
+        SELECT event_name, COUNT(*) as count FROM events
+        WHERE chain_id = ? AND lower(contract_address) = ?
+        GROUP BY event_name
+      `);
+
+      const rows = stmt.all(chainId, contractAddress.toLowerCase()) as Array<{
         event_name: string;
-        event_data: string;
+        count: number;
       }>;
 
+      const counts: Record<string, number> = {};
+      for (const row of rows) {
+        counts[row.event_name] = row.count;
+      }
+      return counts;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to count events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async syncEventViews(contractAddress: string, chainId: number, views: EventView[]): Promise<void> {
+    this.ensureDb();
+
+    try {
+      const address = contractAddress.toLowerCase();
+      const db = this.db!;
+
+      db.transaction(() => {
+        const registered = db.prepare(`
+          SELECT view_name, contract_address, chain_id, definition FROM event_views
+        `).all() as EventViewRow[];
+        const wanted = new Set(views.map(view => view.name));
+
+        // Drop views of events the contract no longer indexes
+        for (const row of registered) {
+          if (row.chain_id === chainId && row.contract_address === address && !wanted.has(row.view_name)) {
+            db.exec(`DROP VIEW IF EXISTS ${quoteIdentifier(row.view_name)}`);
+            db.prepare('DELETE FROM event_views WHERE view_name = ?').run(row.view_name);
+          }
+        }
+
+        for (const view of views) {
+          const definition = this.buildEventViewSQL(address, chainId, view);
+          const existing = registered.find(row => row.view_name === view.name);
+          if (existing && (existing.chain_id !== chainId || existing.contract_address !== address)) {
+            throw new Error(`view ${view.name} already belongs to contract ${existing.contract_address}`);
+          }
+          if (existing?.definition === definition) {
+            continue;
+          }
+
+          // Only views created here are replaced, never tables or views created by users
+          if (existing) {
+            db.exec(`DROP VIEW IF EXISTS ${quoteIdentifier(view.name)}`);
+          }
+          db.exec(`CREATE VIEW ${quoteIdentifier(view.name)} AS ${definition}`);
+          db.prepare(`
+            INSERT INTO event_views (view_name, contract_address, chain_id, event_name, definition)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(view_name) DO UPDATE SET event_name = excluded.event_name, definition = excluded.definition
+          `).run(view.name, address, chainId, view.eventName, definition);
+        }
+      })();
+    } catch (error) {
+      throw new StorageError(
+        `Failed to create event views: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getOutboxDeliveries(sink: string, limit: number): Promise<OutboxDelivery[]> {
+    this.ensureDb();
+
+    try {
+      const rows = this.db!.prepare(`
+        SELECT * FROM sink_outbox WHERE sink = ? ORDER BY id LIMIT ?
+      `).all(sink, limit) as OutboxRow[];
+
       return rows.map(row => ({
-        contractAddress: row.contract_address,
-        blockNumber: row.block_number,
-        blockTimestamp: row.block_timestamp,
-        transactionHash: row.transaction_hash,
-        logIndex: row.log_index,
-        eventName: row.event_name,
-        eventData: JSON.parse(row.event_data) as Record<string, unknown>
+        id: row.id,
+        sink: row.sink,
+        payload: row.payload,
+        attempts: row.attempts,
+        nextAttemptAt: row.next_attempt_at,
+        lastError: row.last_error,
+        createdAt: row.created_at,
       }));
     } catch (error) {
       throw new StorageError(
-        `Failed to query events: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to get outbox deliveries: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async deleteOutboxDelivery(id: number): Promise<void> {
+    this.ensureDb();
+
+    try {
+      this.db!.prepare('DELETE FROM sink_outbox WHERE id = ?').run(id);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete outbox delivery: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async recordOutboxFailure(id: number, lastError: string, nextAttemptAt: number): Promise<void> {
+    this.ensureDb();
+
+    try {
+      this.db!.prepare(`
+        UPDATE sink_outbox
+        SET attempts = attempts + 1, last_error = ?, next_attempt_at = ?
+        WHERE id = ?
+      `).run(lastError, nextAttemptAt, id);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to record outbox failure: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getDatabaseId(): Promise<string> {
+    this.ensureDb();
+
+    try {
+      const row = this.db!.prepare(`SELECT value FROM database_info WHERE key = 'database_id'`).get() as { value: string };
+      return row.value;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get database ID: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
@@ -276,9 +797,325 @@ export class SQLiteAdapter implements StorageAdapter {
     }
   }
 
+  /**
+   * WHERE clause and parameters of an event filter, without its limit and offset
+   */
+  private buildEventFilterSQL(filter: EventFilter): { where: string; params: unknown[] } {
+    let where = '1=1';
+    const params: unknown[] = [];
+
+    if (filter.chainId !== undefined) {
+      where += ' AND chain_id = ?';
+      params.push(filter.chainId);
+    }
+
+    if (filter.contractAddress) {
+      where += ' AND contract_address = ?';
+      params.push(filter.contractAddress);
+    }
+
+    if (filter.eventName) {
+      where += ' AND event_name = ?';
+      params.push(filter.eventName);
+    }
+
+    if (filter.fromBlock !== undefined) {
+      where += ' AND block_number >= ?';
+      params.push(filter.fromBlock);
+    }
+
+    if (filter.toBlock !== undefined) {
+      where += ' AND block_number <= ?';
+      params.push(filter.toBlock);
+    }
+
+    for (const predicate of getArgPredicates(filter)) {
+      where += ` AND ${this.buildArgPredicateSQL(predicate, params)}`;
+    }
+
+    return { where, params };
+  }
+
+  /**
+   * Condition of an argument predicate, pushing its parameters
+   * Arguments are compared by the same expressions their indexes are built on, so that
+   * the indexes declared in the config are used.
+   */
+  private buildArgPredicateSQL(predicate: ArgPredicate, params: unknown[]): string {
+    const type = getArgIndexType(predicate);
+
+    switch (predicate.op) {
+      case 'eq':
+        // Addresses are stored checksummed, so compare hex values case-insensitively
+        params.push(type === 'hex' ? predicate.value.toLowerCase() : predicate.value);
+        return `${this.getArgExpression(predicate.path, type!)} = ?`;
+
+      case 'in': {
+        if (predicate.values.length === 0) {
+          return '0';
+        }
+        if (type === null) {
+          const hex = predicate.values.filter(isHexString);
+          const text = predicate.values.filter(value => !isHexString(value));
+          return `(${this.buildArgPredicateSQL({ ...predicate, values: hex }, params)}`
+            + ` OR ${this.buildArgPredicateSQL({ ...predicate, values: text }, params)})`;
+        }
+        params.push(...predicate.values.map(value => type === 'hex' ? value.toLowerCase() : value));
+        return `${this.getArgExpression(predicate.path, type)} IN (${predicate.values.map(() => '?').join(', ')})`;
+      }
+
+      default: {
+        // Integers are decimal strings, compared by their zero-padded absolute values
+        const value = this.getArgExpression(predicate.path, 'text');
+        const key = this.getArgExpression(predicate.path, 'integer');
+        const negativeKey = toIntegerKeySQL(`substr(${value}, 2)`);
+        const isNonNegative = `(${value} GLOB '[0-9]*' AND ${value} NOT GLOB '*[^0-9]*')`;
+        const isNegative = `(${value} GLOB '-[0-9]*' AND substr(${value}, 2) NOT GLOB '*[^0-9]*')`;
+        const lowerBound = predicate.op === 'gt' || predicate.op === 'gte';
+
+        const bound = parseIntegerArg(predicate);
+        params.push(toIntegerKey(bound));
+
+        if (bound >= 0n) {
+          // The '-' of a negative integer sorts below every digit, so its key is below
+          // those of non-negative integers and upper bounds need only the indexed key
+          const comparison = `${key} ${SQL_COMPARISONS[predicate.op]} ?`;
+          return lowerBound
+            ? `(${isNonNegative} AND ${comparison})`
+            : `(${comparison} AND (${isNonNegative} OR ${isNegative}))`;
+        }
+
+        // Among negative integers, the larger the absolute value the smaller the integer
+        const comparison = `${isNegative} AND ${negativeKey} ${SQL_COMPARISONS[MIRRORED_COMPARISONS[predicate.op]]} ?`;
+        return lowerBound ? `(${isNonNegative} OR (${comparison}))` : `(${comparison})`;
+      }
+    }
+  }
+
+  /**
+   * Expression an argument is compared by for an index type
+   * Paths are inlined rather than bound, since expression indexes only match literal paths.
+   */
+  private getArgExpression(path: string, type: ArgIndexType): string {
+    const jsonPath = `$${splitArgPath(path).map(segment => `.${JSON.stringify(segment)}`).join('')}`;
+    const value = `json_extract(event_data, ${quoteLiteral(jsonPath)})`;
+
+    switch (type) {
+      case 'text':
+        return value;
+      case 'hex':
+        return `lower(${value})`;
+      case 'integer':
+        return toIntegerKeySQL(value);
+    }
+  }
+
+  /**
+   * Create the argument indexes declared in the config and drop generated ones that no longer are
+   */
+  private syncArgIndexes(): void {
+    const declared = new Map(this.indexes.map(index => [getArgIndexName(index), index]));
+    const existing = this.db!.prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'index' AND name GLOB 'idx_arg_*'`
+    ).all() as Array<{ name: string }>;
+
+    this.db!.transaction(() => {
+      for (const { name } of existing) {
+        if (!declared.has(name)) {
+          this.db!.exec(`DROP INDEX ${quoteIdentifier(name)}`);
+        }
+      }
+      for (const [name, index] of declared) {
+        this.db!.exec(
+          `CREATE INDEX IF NOT EXISTS ${quoteIdentifier(name)} ON events (${this.getArgExpression(index.path, index.type)})`
+        );
+      }
+    })();
+  }
+
+  private mapEventRow(row: EventRow): DecodedEvent {
+    return {
+      contractAddress: row.contract_address,
+      blockNumber: row.block_number,
+      blockTimestamp: row.block_timestamp,
+      transactionHash: row.transaction_hash,
+      logIndex: row.log_index,
+      eventName: row.event_name,
+      eventData: JSON.parse(row.event_data) as Record<string, unknown>,
+      chainId: row.chain_id ?? undefined,
+    };
+  }
+
+  /**
+   * SELECT statement of an event view
+   * Integers wider than 64 bits stay decimal TEXT, since SQLite would round them to REAL.
+   */
+  private buildEventViewSQL(contractAddress: string, chainId: number, view: EventView): string {
+    const columns = [
+      ...EVENT_VIEW_BASE_COLUMNS,
+      ...view.columns.map(column => {
+        const value = `json_extract(event_data, ${quoteLiteral(`$.${JSON.stringify(column.field)}`)})`;
+        const expression = column.type === 'integer' ? `CAST(${value} AS INTEGER)` : value;
+        return `${expression} AS ${quoteIdentifier(column.name)}`;
+      }),
+    ];
+
+    // Events keep the address casing returned by the provider, so compare case-insensitively
+    return `SELECT ${columns.join(', ')} FROM events ` +
+      `WHERE chain_id = ${chainId} AND lower(contract_address) = ${quoteLiteral(contractAddress)} ` +
+      `AND event_name = ${quoteLiteral(view.eventName)}`;
+  }
+
   private ensureDb(): void {
     if (!this.db) {
       throw new StorageError('Database not initialized or already closed');
     }
   }
+
+  /**
+   * Update sync state, insert events and record block hashes
+   * Must be called inside a transaction
+   * @returns Keys of the events inserted, excluding ones that were already stored
+   */
+  private writeSyncStateAndEvents(
+    contractAddress: string,
+    chainId: number,
+    blockNumber: number,
+    events: DecodedEvent[],
+    blocks: BlockRecord[]
+  ): Set<string> {
+    // Update sync state
+    const syncStmt = this.db!.prepare(`
+      INSERT INTO sync_state (contract_address, chain_id, last_block, last_sync)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(chain_id, contract_address) DO UPDATE SET
+        last_block = MAX(sync_state.last_block, excluded.last_block),
+        last_sync = excluded.last_sync
+    `);
+
+    syncStmt.run(
+      contractAddress,
+      chainId,
+      blockNumber,
+      Math.floor(Date.now() / 1000)
+    );
+
+    // Insert events if any
+    const inserted = new Set<string>();
+    if (events.length > 0) {
+      const eventStmt = this.db!.prepare(`
+        INSERT OR IGNORE INTO events (
+          contract_address,
+          block_number,
+          block_timestamp,
+          transaction_hash,
+          log_index,
+          event_name,
+          event_data,
+          indexed_at,
+          chain_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      for (const event of events) {
+        const result = eventStmt.run(
+          event.contractAddress,
+          event.blockNumber,
+          event.blockTimestamp,
+          event.transactionHash,
+          event.logIndex,
+          event.eventName,
+          JSON.stringify(event.eventData),
+          Math.floor(Date.now() / 1000),
+          chainId
+        );
+        if (result.changes > 0) {
+          inserted.add(getEventKey(event));
+        }
+      }
+    }
+
+    // Record block hashes if any
+    if (blocks.length > 0) {
+      const blockStmt = this.db!.prepare(`
+        INSERT OR REPLACE INTO block_hashes (
+          contract_address,
+          chain_id,
+          block_number,
+          block_hash,
+          parent_hash
+        ) VALUES (?, ?, ?, ?, ?)
+      `);
+
+      for (const block of blocks) {
+        blockStmt.run(contractAddress, chainId, block.blockNumber, block.blockHash, block.parentHash);
+      }
+    }
+
+    return inserted;
+  }
+
+  /**
+   * Queue event batches for sinks with the events their commit inserted
+   * Must be called inside a transaction
+   */
+  private writeOutbox(outbox: OutboxEntry[], inserted: Set<string>): void {
+    if (outbox.length === 0) {
+      return;
+    }
+
+    const stmt = this.db!.prepare(`
+      INSERT INTO sink_outbox (sink, payload, attempts, next_attempt_at, created_at)
+      VALUES (?, ?, 0, ?, ?)
+    `);
+    const now = Date.now();
+    for (const entry of outbox) {
+      const payload = keepInsertedEvents(entry.payload, inserted);
+      if (payload !== null) {
+        stmt.run(entry.sink, payload, now, Math.floor(now / 1000));
+      }
+    }
+  }
+
+  /**
+   * Record a block range as indexed, merged with overlapping and adjacent ranges
+   * Must be called inside a transaction
+   */
+  private writeCoverage(contractAddress: string, chainId: number, fromBlock: number, toBlock: number): void {
+    const touching = [chainId, contractAddress, fromBlock - 1, toBlock + 1];
+    const rows = this.db!.prepare(`
+      SELECT from_block, to_block FROM coverage
+      WHERE chain_id = ? AND contract_address = ? AND to_block >= ? AND from_block <= ?
+    `).all(...touching) as Array<{ from_block: number; to_block: number }>;
+
+    const merged = rows.reduce(
+      (range, row) => ({
+        fromBlock: Math.min(range.fromBlock, row.from_block),
+        toBlock: Math.max(range.toBlock, row.to_block),
+      }),
+      { fromBlock, toBlock }
+    );
+
+    this.db!.prepare(`
+      DELETE FROM coverage
+      WHERE chain_id = ? AND contract_address = ? AND to_block >= ? AND from_block <= ?
+    `).run(...touching);
+    this.db!.prepare(`
+      INSERT INTO coverage (contract_address, chain_id, from_block, to_block) VALUES (?, ?, ?, ?)
+    `).run(contractAddress, chainId, merged.fromBlock, merged.toBlock);
+  }
+
+  private mapBackfillJob(row: BackfillJobRow): BackfillJob {
+    return {
+      id: row.id,
+      contractAddress: row.contract_address,
+      chainId: row.chain_id,
+      fromBlock: row.from_block,
+      toBlock: row.to_block,
+      lastBlock: row.last_block,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
 }
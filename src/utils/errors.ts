@@ -35,3 +35,9 @@ export class FileSystemError extends ChainTapError {
     super(message);
   }
 }
+
+export class SinkError extends ChainTapError {
+  constructor(message: string, public sink?: string) {
+    super(message);
+  }
+}
@@ -0,0 +1,190 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { Chain } from '../cli/config.js';
+import { ProviderPool, ProviderHealth } from '../providers/provider-pool.js';
+
+/**
+ * Last committed block of a contract, for the head lag gauge
+ */
+interface SyncedBlock {
+  chain: Chain;
+  contract: string;
+  blockNumber: number;
+}
+
+/**
+ * Metrics holds the Prometheus metrics of one chaintap process
+ * Head lag and provider pool stats are computed when the registry is scraped, from the
+ * latest chain heads, the last committed block of each contract and the pools' health.
+ */
+export class Metrics {
+  readonly registry = new Registry();
+
+  /**
+   * Events committed to storage; rate() gives events indexed per second
+   */
+  readonly eventsIndexed: Counter<'chain' | 'contract'>;
+
+  /**
+   * Duration of eth_getLogs requests
+   */
+  readonly getLogsDuration: Histogram<'provider'>;
+
+  /**
+   * Times a provider rejected a getLogs range and the chunk size was halved
+   */
+  readonly chunkSizeReductions: Counter<'provider'>;
+
+  readonly reorgs: Counter<'chain' | 'contract'>;
+
+  /**
+   * Failed operations that are retried, such as getBlock requests and watch polls
+   */
+  readonly retries: Counter<'operation'>;
+
+  private chainHeads: Map<Chain, number> = new Map();
+  private syncedBlocks: Map<string, SyncedBlock> = new Map();
+  private providerPools: Map<Chain, ProviderPool> = new Map();
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+
+    this.eventsIndexed = new Counter({
+      name: 'chaintap_events_indexed_total',
+      help: 'Events committed to storage',
+      labelNames: ['chain', 'contract'],
+      registers: [this.registry],
+    });
+
+    this.getLogsDuration = new Histogram({
+      name: 'chaintap_get_logs_duration_seconds',
+      help: 'Duration of eth_getLogs requests',
+      labelNames: ['provider'],
+      buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+      registers: [this.registry],
+    });
+
+    this.chunkSizeReductions = new Counter({
+      name: 'chaintap_chunk_size_reductions_total',
+      help: 'Block range chunk size reductions after a provider rejected the range',
+      labelNames: ['provider'],
+      registers: [this.registry],
+    });
+
+    this.reorgs = new Counter({
+      name: 'chaintap_reorgs_total',
+      help: 'Chain reorganizations detected and rolled back',
+      labelNames: ['chain', 'contract'],
+      registers: [this.registry],
+    });
+
+    this.retries = new Counter({
+      name: 'chaintap_retries_total',
+      help: 'Failed operations that were retried',
+      labelNames: ['operation'],
+      registers: [this.registry],
+    });
+
+    const headLag: Gauge<'chain' | 'contract'> = new Gauge({
+      name: 'chaintap_head_lag_blocks',
+      help: 'Latest chain head minus the last block indexed for the contract',
+      labelNames: ['chain', 'contract'],
+      registers: [this.registry],
+      collect: () => {
+        headLag.reset();
+        for (const synced of this.syncedBlocks.values()) {
+          const head = this.chainHeads.get(synced.chain);
+          if (head !== undefined) {
+            headLag.set(
+              { chain: synced.chain, contract: synced.contract },
+              Math.max(head - synced.blockNumber, 0)
+            );
+          }
+        }
+      },
+    });
+
+    const providerHealthy: Gauge<'chain' | 'provider'> = new Gauge({
+      name: 'chaintap_provider_healthy',
+      help: 'Whether the provider pool considers the provider healthy (1) or not (0)',
+      labelNames: ['chain', 'provider'],
+      registers: [this.registry],
+      collect: () => {
+        providerHealthy.reset();
+        this.forEachProvider((labels, health) => providerHealthy.set(labels, health.healthy ? 1 : 0));
+      },
+    });
+
+    // Counted by the pools; copied into the counters on every scrape
+    const providerFailures: Counter<'chain' | 'provider'> = new Counter({
+      name: 'chaintap_provider_failures_total',
+      help: 'Failed requests reported to the provider pool',
+      labelNames: ['chain', 'provider'],
+      registers: [this.registry],
+      collect: () => {
+        providerFailures.reset();
+        this.forEachProvider((labels, health) => providerFailures.inc(labels, health.totalFailures));
+      },
+    });
+
+    const providerSelections: Counter<'chain' | 'provider'> = new Counter({
+      name: 'chaintap_provider_selections_total',
+      help: 'Times the provider pool selected the provider for a request',
+      labelNames: ['chain', 'provider'],
+      registers: [this.registry],
+      collect: () => {
+        providerSelections.reset();
+        this.forEachProvider((labels, health) => providerSelections.inc(labels, health.selections));
+      },
+    });
+  }
+
+  /**
+   * Report provider health and counts from these pools
+   */
+  addProviderPools(pools: Map<Chain, ProviderPool>): void {
+    for (const [chain, pool] of pools) {
+      this.providerPools.set(chain, pool);
+    }
+  }
+
+  /**
+   * Record the latest block number seen on a chain
+   */
+  observeChainHead(chain: Chain, blockNumber: number): void {
+    const current = this.chainHeads.get(chain);
+    if (current === undefined || blockNumber > current) {
+      this.chainHeads.set(chain, blockNumber);
+    }
+  }
+
+  /**
+   * Record the last block committed for a contract
+   */
+  observeSyncedBlock(chain: Chain, contract: string, blockNumber: number): void {
+    this.syncedBlocks.set(`${chain}:${contract}`, { chain, contract, blockNumber });
+  }
+
+  /**
+   * Content type of the exposition format
+   */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  private forEachProvider(
+    callback: (labels: { chain: Chain; provider: string }, health: ProviderHealth) => void
+  ): void {
+    for (const [chain, pool] of this.providerPools) {
+      for (const health of pool.getHealthStatus()) {
+        callback({ chain, provider: health.id }, health);
+      }
+    }
+  }
+}
@@ -8,6 +8,7 @@ export interface RetryOptions {
   factor?: number;
   logger?: Logger;
   operationName?: string;
+  onRetry?: (error: Error) => void;
 }
 
 export async function retry<T>(
@@ -17,6 +18,7 @@ export async function retry<T>(
   const {
     logger,
     operationName = 'operation',
+    onRetry,
     retries = 5,
     minTimeout = 1000,
     maxTimeout = 30000,
@@ -30,6 +32,9 @@ export async function retry<T>(
     maxTimeout,
     factor,
     onFailedAttempt: error => {
+      if (error.retriesLeft > 0) {
+        onRetry?.(error);
+      }
       if (logger) {
         logger.warn(
           {
@@ -21,3 +21,7 @@ export function validateChainId(chainId: number): boolean {
 export function validateBlockNumber(blockNumber: number): boolean {
   return blockNumberSchema.safeParse(blockNumber).success;
 }
+
+export function isHexString(value: string): boolean {
+  return /^0x[a-fA-F0-9]*$/.test(value);
+}
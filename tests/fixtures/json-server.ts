@@ -0,0 +1,45 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface JsonRoute {
+  /** Defaults to 200 */
+  status?: number;
+  body?: unknown;
+}
+
+export interface JsonServer {
+  url: string;
+  /** Paths and query strings of the requests received */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Local HTTP server for tests that answers GET requests with JSON by path
+ * Paths without a route get a 404.
+ */
+export async function startJsonServer(routes: Record<string, JsonRoute>): Promise<JsonServer> {
+  const requests: string[] = [];
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push(`${url.pathname}${url.search}`);
+
+    const route = routes[url.pathname];
+    res.statusCode = route ? route.status ?? 200 : 404;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(route?.body ?? { message: 'Not found' }));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
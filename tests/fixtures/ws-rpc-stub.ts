@@ -0,0 +1,102 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { AddressInfo } from 'node:net';
+
+type RpcHandler = (params: unknown[]) => unknown | Promise<unknown>;
+
+export interface WsRpcStub {
+  url: string;
+  requests: Array<{ method: string; params: unknown[] }>;
+  /** Push a newHeads notification to every subscribed client */
+  sendNewHead(blockNumber: number): void;
+  /** Terminate all client connections, keeping the server up */
+  dropConnections(): void;
+  close(): Promise<void>;
+}
+
+const SUBSCRIPTION_ID = '0x9ce59a13059e417087c02d3236a0b1cc';
+
+/**
+ * Local WebSocket JSON-RPC server for tests
+ * Handlers override or extend the defaults; a handler that throws answers with a JSON-RPC error.
+ */
+export async function startWsRpcStub(handlers: Record<string, RpcHandler> = {}): Promise<WsRpcStub> {
+  const methods: Record<string, RpcHandler> = {
+    eth_chainId: () => '0x1',
+    eth_blockNumber: () => '0x64',
+    eth_subscribe: () => SUBSCRIPTION_ID,
+    ...handlers,
+  };
+
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+
+  const requests: WsRpcStub['requests'] = [];
+  const subscribers = new Set<WebSocket>();
+
+  server.on('connection', socket => {
+    socket.on('message', async data => {
+      const payload = JSON.parse(data.toString());
+      const respond = async (request: { id: number; method: string; params?: unknown[] }) => {
+        const params = request.params ?? [];
+        requests.push({ method: request.method, params });
+
+        const handler = methods[request.method];
+        if (!handler) {
+          return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: 'Method not found' } };
+        }
+        try {
+          const result = await handler(params);
+          if (request.method === 'eth_subscribe') {
+            subscribers.add(socket);
+          }
+          return { jsonrpc: '2.0', id: request.id, result };
+        } catch (error) {
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: { code: -32000, message: error instanceof Error ? error.message : String(error) },
+          };
+        }
+      };
+
+      const response = Array.isArray(payload)
+        ? await Promise.all(payload.map(respond))
+        : await respond(payload);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(response));
+      }
+    });
+
+    socket.on('close', () => subscribers.delete(socket));
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    requests,
+    sendNewHead(blockNumber: number) {
+      for (const socket of subscribers) {
+        socket.send(JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'eth_subscription',
+          params: {
+            subscription: SUBSCRIPTION_ID,
+            result: { number: `0x${blockNumber.toString(16)}` },
+          },
+        }));
+      }
+    },
+    dropConnections() {
+      for (const client of server.clients) {
+        client.terminate();
+      }
+    },
+    async close() {
+      for (const client of server.clients) {
+        client.terminate();
+      }
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { Kafka } from 'kafkajs';
+import { KafkaSink } from '../../src/sinks/kafka.js';
+import { SQLiteAdapter } from '../../src/storage/sqlite.js';
+import { KafkaSinkConfig } from '../../src/cli/config.js';
+
+/**
+ * Runs against a real single-node broker, e.g.
+ *   docker run -d -p 9092:9092 redpandadata/redpanda redpanda start --mode dev-container \
+ *     --kafka-addr 0.0.0.0:9092 --advertise-kafka-addr localhost:9092
+ *   KAFKA_BROKERS=localhost:9092 npm run test:int
+ */
+const brokers = process.env.KAFKA_BROKERS?.split(',');
+
+describe.skipIf(!brokers)('KafkaSink against a broker', () => {
+  const topic = `chaintap-test-${Date.now()}`;
+  const config: KafkaSinkConfig = {
+    type: 'kafka',
+    name: `test-${Date.now()}`,
+    brokers: brokers ?? [],
+    topic,
+    client_id: 'chaintap-test',
+    ssl: false,
+    max_retry_delay: 1000,
+  };
+  const logger: any = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const kafka = new Kafka({ clientId: 'chaintap-test', brokers: brokers ?? [] });
+  let storage: SQLiteAdapter;
+
+  const queue = async (blockNumber: number) => {
+    const batch = {
+      chainId: 1,
+      contractAddress: '0x1234',
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+      events: [0, 1].map(logIndex => ({
+        contractAddress: '0x1234',
+        blockNumber,
+        blockTimestamp: 1700000000,
+        transactionHash: `0x${blockNumber.toString(16)}`,
+        logIndex,
+        eventName: 'Transfer',
+        eventData: { value: '1' },
+        chainId: 1,
+      })),
+    };
+    await storage.updateSyncStateAndInsertEvents('0x1234', 1, blockNumber, [], [], [
+      { sink: config.name, payload: JSON.stringify(batch) },
+    ]);
+  };
+
+  const consumeAll = async (expected: number) => {
+    const consumer = kafka.consumer({ groupId: `reader-${Date.now()}` });
+    const received: string[] = [];
+    await consumer.connect();
+    await consumer.subscribe({ topic, fromBeginning: true });
+    await consumer.run({
+      eachMessage: async ({ message }) => {
+        received.push(`${message.headers?.['chaintap-block-number']}:${message.headers?.['chaintap-log-index']}`);
+      },
+    });
+    await vi.waitFor(() => expect(received.length).toBeGreaterThanOrEqual(expected), { timeout: 20000 });
+    // Give duplicates a chance to show up
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    await consumer.disconnect();
+    return received;
+  };
+
+  beforeAll(async () => {
+    const admin = kafka.admin();
+    await admin.connect();
+    await admin.createTopics({ topics: [{ topic, numPartitions: 1 }], waitForLeaders: true });
+    await admin.disconnect();
+
+    storage = new SQLiteAdapter(':memory:');
+    await storage.init();
+  });
+
+  afterAll(async () => {
+    await storage?.close();
+  });
+
+  it('should publish each batch exactly once across restarts', async () => {
+    await queue(100);
+    await queue(101);
+
+    const first = new KafkaSink(config, storage, logger);
+    await first.start();
+    await vi.waitFor(async () => {
+      expect(await storage.getOutboxDeliveries(config.name, 10)).toEqual([]);
+    }, { timeout: 20000 });
+    await first.stop();
+
+    await queue(102);
+
+    const second = new KafkaSink(config, storage, logger);
+    await second.start();
+    await vi.waitFor(async () => {
+      expect(await storage.getOutboxDeliveries(config.name, 10)).toEqual([]);
+    }, { timeout: 20000 });
+    await second.stop();
+
+    const admin = kafka.admin();
+    await admin.connect();
+    const [progress] = await admin.fetchOffsets({ groupId: `chaintap-${config.name}-outbox`, topics: [topic] });
+    await admin.disconnect();
+    expect(progress.partitions[0].offset).toBe('3');
+
+    expect(await consumeAll(6)).toEqual([
+      '100:0', '100:1', '101:0', '101:1', '102:0', '102:1',
+    ]);
+  }, 60000);
+});
@@ -1,9 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ABIFetcher } from '../../../src/abi/fetcher.js';
 import { ABIError } from '../../../src/utils/errors.js';
+import { BUILTIN_CHAINS, ChainRegistry } from '../../../src/core/chains.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { Interface } from 'ethers';
+import { Interface, Provider, ZeroHash, zeroPadValue } from 'ethers';
+import { EIP1967_IMPLEMENTATION_SLOT } from '../../../src/abi/proxy.js';
+import { getCachedABISource } from '../../../src/abi/cache.js';
+import { JsonServer, startJsonServer } from '../../fixtures/json-server.js';
+
+// Tests below replace global.fetch with mocks; sources served locally need the real one
+const nativeFetch = global.fetch;
 
 describe('ABIFetcher', () => {
   const testCacheDir = '/tmp/chaintap-test-cache';
@@ -229,6 +236,31 @@ describe('ABIFetcher', () => {
       );
     });
 
+    it('should use the explorer API of a chain from the registry', async () => {
+      const chains = new ChainRegistry([
+        ...BUILTIN_CHAINS,
+        { name: 'gnosis', chainId: 100, explorerApi: 'https://gnosis.blockscout.com/api' },
+      ]);
+      const fetcher = new ABIFetcher(testCacheDir, testApiKey, chains);
+
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          status: '1',
+          message: 'OK',
+          result: JSON.stringify(sampleABI),
+        }),
+      });
+      global.fetch = mockFetch;
+
+      await fetcher.getABI(testAddress, 100);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('gnosis.blockscout.com/api'),
+        expect.any(Object)
+      );
+    });
+
     it('should throw ABIError for unsupported chain', async () => {
       const fetcher = new ABIFetcher(testCacheDir, testApiKey);
 
@@ -373,6 +405,53 @@ describe('ABIFetcher', () => {
       ).rejects.toThrow('Invalid JSON in manual ABI file');
     });
 
+    it('should throw ABIError when manual file is not a JSON ABI', async () => {
+      const manualABIPath = path.join(testCacheDir, 'artifact.json');
+      fs.writeFileSync(manualABIPath, JSON.stringify({ abi: sampleABI }));
+
+      const fetcher = new ABIFetcher(testCacheDir, testApiKey);
+
+      await expect(
+        fetcher.getABI(testAddress, testChainId, manualABIPath)
+      ).rejects.toThrow(`Invalid ABI in manual ABI file ${manualABIPath}: not a list of fragments`);
+    });
+
+    it('should parse inline human-readable fragments', async () => {
+      const fetcher = new ABIFetcher(testCacheDir, testApiKey);
+      const mockFetch = vi.fn();
+      global.fetch = mockFetch;
+
+      const single = await fetcher.getABI(
+        testAddress,
+        testChainId,
+        'event Transfer(address indexed from, address indexed to, uint256 value)'
+      );
+      const list = await fetcher.getABI(testAddress, testChainId, [
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+        'event Approval(address indexed owner, address indexed spender, uint256 value)',
+      ]);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(single.getEvent('Transfer')?.inputs.map(input => input.name)).toEqual(['from', 'to', 'value']);
+      expect(list.getEvent('Approval')).not.toBeNull();
+      expect(getCachedABISource(testAddress, testChainId, testCacheDir)?.source).toBe('inline');
+
+      // Cached as a JSON ABI like fetched ones
+      const cached = JSON.parse(fs.readFileSync(
+        path.join(testCacheDir, testChainId.toString(), `${testAddress}.json`),
+        'utf-8'
+      ));
+      expect(new Interface(cached).getEvent('Approval')).not.toBeNull();
+    });
+
+    it('should throw ABIError for invalid inline fragments', async () => {
+      const fetcher = new ABIFetcher(testCacheDir, testApiKey);
+
+      await expect(
+        fetcher.getABI(testAddress, testChainId, ['event Transfer(address indexed from, uint257 value)'])
+      ).rejects.toThrow(ABIError);
+    });
+
     it('should cache ABI loaded from manual path', async () => {
       const manualABIPath = path.join(testCacheDir, 'manual-abi.json');
       fs.writeFileSync(manualABIPath, JSON.stringify(sampleABI));
@@ -390,6 +469,163 @@ describe('ABIFetcher', () => {
     });
   });
 
+  describe('getABI - ABI sources', () => {
+    const checksumAddress = '0x1234567890123456789012345678901234567890';
+    let server: JsonServer;
+
+    const createFetcher = () => new ABIFetcher(testCacheDir, testApiKey, new ChainRegistry([
+      {
+        name: 'devnet',
+        chainId: 31337,
+        abiSources: [
+          { type: 'etherscan', url: `${server.url}/api` },
+          { type: 'sourcify', url: server.url },
+          { type: 'blockscout', url: server.url },
+        ],
+      },
+    ]));
+
+    beforeEach(() => {
+      global.fetch = nativeFetch;
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    it('should fall back to the next source and record the source that served the ABI', async () => {
+      server = await startJsonServer({
+        '/api': { body: { status: '0', message: 'NOTOK', result: 'Contract source code not verified' } },
+        [`/v2/contract/31337/${checksumAddress}`]: { body: { match: 'match', abi: sampleABI } },
+      });
+
+      const result = await createFetcher().getABI(testAddress, 31337);
+
+      expect(result.getFunction('totalSupply')).not.toBeNull();
+      expect(server.requests.map(request => request.split('?')[0])).toEqual([
+        '/api',
+        `/v2/contract/31337/${checksumAddress}`,
+      ]);
+      expect(getCachedABISource(testAddress, 31337, testCacheDir)).toMatchObject({
+        source: 'sourcify',
+        url: server.url,
+        match: 'partial',
+      });
+    });
+
+    it('should try every source before reporting an unverified contract', async () => {
+      server = await startJsonServer({
+        '/api': { body: { status: '0', message: 'NOTOK', result: 'Contract source code not verified' } },
+      });
+
+      await expect(createFetcher().getABI(testAddress, 31337)).rejects.toThrow(
+        'Contract ABI not verified on Etherscan, Sourcify, Blockscout'
+      );
+      expect(server.requests).toHaveLength(3);
+    });
+
+    it('should report the failure of each source', async () => {
+      server = await startJsonServer({
+        '/api': { body: { status: '0', message: 'NOTOK', result: 'Invalid API Key' } },
+        [`/v2/contract/31337/${checksumAddress}`]: { status: 502 },
+      });
+
+      await expect(createFetcher().getABI(testAddress, 31337)).rejects.toThrow(
+        'Failed to fetch ABI: etherscan: Explorer API error: Invalid API Key; sourcify: HTTP error 502: Bad Gateway'
+      );
+    });
+  });
+
+  describe('getABI - Proxies', () => {
+    const implementationAddress = '0x43506849d7c04f9138d1a2050bbf3a0c054402dd';
+    const implementationABI = [
+      {
+        anonymous: false,
+        inputs: [
+          { indexed: true, name: 'from', type: 'address' },
+          { indexed: true, name: 'to', type: 'address' },
+          { indexed: false, name: 'value', type: 'uint256' },
+        ],
+        name: 'Transfer',
+        type: 'event',
+      },
+    ];
+
+    // EIP-1967 proxy at testAddress pointing to implementationAddress
+    const createProvider = () => ({
+      getStorage: vi.fn(async (address: string, slot: string) =>
+        address === testAddress && slot === EIP1967_IMPLEMENTATION_SLOT
+          ? zeroPadValue(implementationAddress, 32)
+          : ZeroHash
+      ),
+      call: vi.fn(async () => '0x'),
+    }) as unknown as Provider;
+
+    // Explorer API returning the implementation ABI, and the proxy ABI unless it is unverified
+    const mockExplorer = (proxyVerified = true) => {
+      const mockFetch = vi.fn().mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () => {
+          if (url.includes(implementationAddress)) {
+            return { status: '1', message: 'OK', result: JSON.stringify(implementationABI) };
+          }
+          return proxyVerified
+            ? { status: '1', message: 'OK', result: JSON.stringify(sampleABI) }
+            : { status: '0', message: 'NOTOK', result: 'Contract source code not verified' };
+        },
+      }));
+      global.fetch = mockFetch;
+      return mockFetch;
+    };
+
+    it('should merge the implementation ABI with the proxy ABI', async () => {
+      mockExplorer();
+      const fetcher = new ABIFetcher(testCacheDir, testApiKey);
+
+      const result = await fetcher.getABI(testAddress, testChainId, undefined, createProvider());
+
+      expect(result.getEvent('Transfer')).not.toBeNull();
+      expect(result.getFunction('totalSupply')).not.toBeNull();
+    });
+
+    it('should record the resolved implementation and detect the proxy once', async () => {
+      mockExplorer();
+      const provider = createProvider();
+      const fetcher = new ABIFetcher(testCacheDir, testApiKey);
+
+      await fetcher.getABI(testAddress, testChainId, undefined, provider);
+      await fetcher.getABI(testAddress, testChainId, undefined, provider);
+
+      expect(provider.getStorage).toHaveBeenCalledTimes(1);
+      const record = JSON.parse(fs.readFileSync(
+        path.join(testCacheDir, testChainId.toString(), `${testAddress}.proxy.json`),
+        'utf-8'
+      ));
+      expect(record).toMatchObject({ type: 'eip1967', implementations: [implementationAddress] });
+    });
+
+    it('should use only the implementation ABI if the proxy is unverified', async () => {
+      mockExplorer(false);
+      const fetcher = new ABIFetcher(testCacheDir, testApiKey);
+
+      const result = await fetcher.getABI(testAddress, testChainId, undefined, createProvider());
+
+      expect(result.getEvent('Transfer')).not.toBeNull();
+      expect(result.getFunction('totalSupply')).toBeNull();
+    });
+
+    it('should not detect proxies for a manual ABI', async () => {
+      const manualABIPath = path.join(testCacheDir, 'manual-abi.json');
+      fs.writeFileSync(manualABIPath, JSON.stringify(sampleABI));
+      const provider = createProvider();
+      const fetcher = new ABIFetcher(testCacheDir, testApiKey);
+
+      await fetcher.getABI(testAddress, testChainId, manualABIPath, provider);
+
+      expect(provider.getStorage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getABI - Retry Logic', () => {
     it('should retry on network timeout', async () => {
       const fetcher = new ABIFetcher(testCacheDir, testApiKey);
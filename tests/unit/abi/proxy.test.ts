@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AbiCoder, Interface, Provider, ZeroHash, makeError, zeroPadValue } from 'ethers';
+import {
+  detectProxy,
+  mergeABIs,
+  EIP1822_PROXIABLE_SLOT,
+  EIP1967_BEACON_SLOT,
+  EIP1967_IMPLEMENTATION_SLOT,
+} from '../../../src/abi/proxy.js';
+
+describe('proxy', () => {
+  const proxyAddress = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+  const implementation = '0x43506849d7c04f9138d1a2050bbf3a0c054402dd';
+  const beacon = '0x5a2a4f2f3c18f09179b6703e63d9edd165909073';
+  const facets = [
+    '0x1111111111111111111111111111111111111111',
+    '0x2222222222222222222222222222222222222222',
+  ];
+
+  const coder = AbiCoder.defaultAbiCoder();
+
+  /**
+   * Provider with the given storage slots of the proxy and view function results by address
+   */
+  const createProvider = (slots: Record<string, string>, calls: Record<string, string> = {}) => ({
+    getStorage: vi.fn(async (address: string, slot: string) =>
+      address === proxyAddress && slots[slot] ? zeroPadValue(slots[slot], 32) : ZeroHash
+    ),
+    call: vi.fn(async ({ to }: { to: string }) => calls[to] ?? '0x'),
+  }) as unknown as Provider;
+
+  describe('detectProxy', () => {
+    it('should resolve the EIP-1967 implementation slot', async () => {
+      const provider = createProvider({ [EIP1967_IMPLEMENTATION_SLOT]: implementation });
+
+      await expect(detectProxy(provider, proxyAddress)).resolves.toEqual({
+        type: 'eip1967',
+        implementations: [implementation],
+      });
+    });
+
+    it('should resolve the implementation of a beacon proxy through the beacon', async () => {
+      const provider = createProvider(
+        { [EIP1967_BEACON_SLOT]: beacon },
+        { [beacon]: coder.encode(['address'], [implementation]) }
+      );
+
+      await expect(detectProxy(provider, proxyAddress)).resolves.toEqual({
+        type: 'beacon',
+        implementations: [implementation],
+        beacon,
+      });
+    });
+
+    it('should resolve the EIP-1822 proxiable slot', async () => {
+      const provider = createProvider({ [EIP1822_PROXIABLE_SLOT]: implementation });
+
+      await expect(detectProxy(provider, proxyAddress)).resolves.toEqual({
+        type: 'eip1822',
+        implementations: [implementation],
+      });
+    });
+
+    it('should resolve the facets of a diamond through its loupe', async () => {
+      const provider = createProvider({}, {
+        [proxyAddress]: coder.encode(['address[]'], [[...facets, facets[0]]]),
+      });
+
+      await expect(detectProxy(provider, proxyAddress)).resolves.toEqual({
+        type: 'diamond',
+        implementations: facets,
+      });
+    });
+
+    it('should return null for contracts that are not proxies', async () => {
+      const provider = createProvider({});
+      vi.mocked(provider.call).mockRejectedValue(makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call',
+        data: null,
+        reason: null,
+        transaction: {},
+        invocation: null,
+        revert: null,
+      }));
+
+      await expect(detectProxy(provider, proxyAddress)).resolves.toBeNull();
+    });
+
+    it('should rethrow provider errors', async () => {
+      const provider = createProvider({});
+      vi.mocked(provider.getStorage).mockRejectedValue(new Error('connection refused'));
+
+      await expect(detectProxy(provider, proxyAddress)).rejects.toThrow('connection refused');
+    });
+  });
+
+  describe('mergeABIs', () => {
+    it('should keep the first definition of each fragment', () => {
+      const merged = mergeABIs([
+        new Interface([
+          'constructor(address admin)',
+          'event Transfer(address indexed from, address indexed to, uint256 value)',
+        ]).fragments.map(fragment => JSON.parse(fragment.format('json'))),
+        new Interface([
+          'constructor()',
+          'event Transfer(address indexed from, address indexed to, uint256 value)',
+          'event Upgraded(address indexed implementation)',
+        ]).fragments.map(fragment => JSON.parse(fragment.format('json'))),
+      ]);
+
+      const iface = new Interface(merged);
+      expect(iface.deploy.inputs.map(input => input.name)).toEqual(['admin']);
+      expect(iface.getEvent('Transfer')).not.toBeNull();
+      expect(iface.getEvent('Upgraded')).not.toBeNull();
+      expect(merged).toHaveLength(3);
+    });
+  });
+});
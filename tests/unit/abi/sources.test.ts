@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EtherscanSource } from '../../../src/abi/sources/etherscan.js';
+import { SourcifySource } from '../../../src/abi/sources/sourcify.js';
+import { BlockscoutSource } from '../../../src/abi/sources/blockscout.js';
+import { createABISources } from '../../../src/abi/sources/factory.js';
+import { ABIError } from '../../../src/utils/errors.js';
+import { ERC20_ABI } from '../../fixtures/abis.js';
+import { JsonRoute, JsonServer, startJsonServer } from '../../fixtures/json-server.js';
+
+describe('ABI sources', () => {
+  const address = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+  const checksumAddress = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+  let server: JsonServer;
+
+  const serve = async (routes: Record<string, JsonRoute>) => {
+    server = await startJsonServer(routes);
+    return server;
+  };
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  describe('EtherscanSource', () => {
+    it('should fetch a verified ABI with the API key and chain ID', async () => {
+      await serve({ '/api': { body: { status: '1', message: 'OK', result: JSON.stringify(ERC20_ABI) } } });
+      const source = new EtherscanSource(`${server.url}/api`, 'test-key');
+
+      await expect(source.fetchABI(address, 10)).resolves.toEqual({ abi: ERC20_ABI });
+      expect(server.requests[0]).toContain(`address=${address}`);
+      expect(server.requests[0]).toContain('chainid=10');
+      expect(server.requests[0]).toContain('apikey=test-key');
+    });
+
+    it('should return null for unverified contracts', async () => {
+      await serve({
+        '/api': { body: { status: '0', message: 'NOTOK', result: 'Contract source code not verified' } },
+      });
+
+      await expect(new EtherscanSource(`${server.url}/api`).fetchABI(address, 1)).resolves.toBeNull();
+    });
+
+    it('should throw ABIError for other API errors', async () => {
+      await serve({ '/api': { body: { status: '0', message: 'NOTOK', result: 'Invalid API Key' } } });
+
+      await expect(new EtherscanSource(`${server.url}/api`).fetchABI(address, 1)).rejects.toThrow(ABIError);
+    });
+
+    it('should throw ABIError for a result that is not a JSON ABI', async () => {
+      await serve({ '/api': { body: { status: '1', message: 'OK', result: '{"abi":[]}' } } });
+
+      await expect(new EtherscanSource(`${server.url}/api`).fetchABI(address, 1)).rejects.toThrow(
+        'Failed to parse ABI: not a list of fragments'
+      );
+    });
+  });
+
+  describe('SourcifySource', () => {
+    it('should fetch the ABI of a full match', async () => {
+      await serve({ [`/v2/contract/1/${checksumAddress}`]: { body: { match: 'exact_match', abi: ERC20_ABI } } });
+
+      await expect(new SourcifySource(server.url).fetchABI(address, 1)).resolves.toEqual({
+        abi: ERC20_ABI,
+        match: 'full',
+      });
+      expect(server.requests).toEqual([`/v2/contract/1/${checksumAddress}?fields=abi`]);
+    });
+
+    it('should fetch the ABI of a partial match', async () => {
+      await serve({ [`/v2/contract/137/${checksumAddress}`]: { body: { match: 'match', abi: ERC20_ABI } } });
+
+      await expect(new SourcifySource(server.url).fetchABI(address, 137)).resolves.toEqual({
+        abi: ERC20_ABI,
+        match: 'partial',
+      });
+    });
+
+    it('should return null for contracts that are not verified', async () => {
+      await serve({});
+
+      await expect(new SourcifySource(server.url).fetchABI(address, 1)).resolves.toBeNull();
+    });
+
+    it('should not retry HTTP errors', async () => {
+      await serve({ [`/v2/contract/1/${checksumAddress}`]: { status: 500, body: { error: 'Internal error' } } });
+
+      await expect(new SourcifySource(server.url).fetchABI(address, 1)).rejects.toThrow('HTTP error 500');
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+
+  describe('BlockscoutSource', () => {
+    it('should fetch the ABI of a verified contract', async () => {
+      await serve({ [`/api/v2/smart-contracts/${address}`]: { body: { is_verified: true, abi: ERC20_ABI } } });
+
+      await expect(new BlockscoutSource(`${server.url}/`).fetchABI(address)).resolves.toEqual({ abi: ERC20_ABI });
+    });
+
+    it('should return null for unverified and unknown contracts', async () => {
+      await serve({ [`/api/v2/smart-contracts/${address}`]: { body: { is_verified: false, abi: null } } });
+      const source = new BlockscoutSource(server.url);
+
+      await expect(source.fetchABI(address)).resolves.toBeNull();
+      await expect(source.fetchABI('0x0000000000000000000000000000000000000001')).resolves.toBeNull();
+    });
+
+    it('should throw ABIError for an invalid ABI', async () => {
+      await serve({ [`/api/v2/smart-contracts/${address}`]: { body: { is_verified: true, abi: ['Transfer'] } } });
+
+      await expect(new BlockscoutSource(server.url).fetchABI(address)).rejects.toThrow(ABIError);
+    });
+  });
+
+  describe('createABISources', () => {
+    it('should default to the chain\'s explorer API', () => {
+      const sources = createABISources({ name: 'ethereum', chainId: 1, explorerApi: 'https://api.etherscan.io/v2/api' });
+
+      expect(sources.map(source => [source.type, source.url])).toEqual([
+        ['etherscan', 'https://api.etherscan.io/v2/api'],
+      ]);
+    });
+
+    it('should create the configured sources in order', () => {
+      const sources = createABISources({
+        name: 'gnosis',
+        chainId: 100,
+        explorerApi: 'https://gnosisscan.io/api',
+        abiSources: [
+          { type: 'sourcify' },
+          { type: 'blockscout', url: 'https://gnosis.blockscout.com' },
+          { type: 'etherscan' },
+        ],
+      });
+
+      expect(sources.map(source => [source.type, source.url])).toEqual([
+        ['sourcify', 'https://sourcify.dev/server'],
+        ['blockscout', 'https://gnosis.blockscout.com'],
+        ['etherscan', 'https://gnosisscan.io/api'],
+      ]);
+    });
+
+    it('should reject an etherscan source without a URL', () => {
+      expect(() => createABISources({ name: 'devnet', chainId: 31337, abiSources: [{ type: 'etherscan' }] }))
+        .toThrow(ABIError);
+    });
+  });
+});
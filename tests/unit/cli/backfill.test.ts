@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { countContractEvents } from '../../../src/cli/commands/backfill.js';
+import { parseConfig } from '../../../src/cli/config.js';
+import { SQLiteAdapter } from '../../../src/storage/sqlite.js';
+
+describe('countContractEvents', () => {
+  const checksummed = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+
+  const config = parseConfig(`
+chain: ethereum
+database:
+  type: sqlite
+  path: ":memory:"
+contracts:
+  - address: "${checksummed.toLowerCase()}"
+    name: UNI
+    events: [Transfer]
+providers:
+  - url: "https://eth.llamarpc.com"
+`);
+
+  let storage: SQLiteAdapter;
+
+  beforeEach(async () => {
+    storage = new SQLiteAdapter(':memory:');
+    await storage.init();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('should count events stored with the checksummed address of a lowercase config address', async () => {
+    await storage.updateSyncStateAndInsertEvents(checksummed, 1, 100, [100, 101].map(blockNumber => ({
+      contractAddress: checksummed,
+      blockNumber,
+      blockTimestamp: 1700000000,
+      transactionHash: `0xtx${blockNumber}`,
+      logIndex: 0,
+      eventName: 'Transfer',
+      eventData: {},
+    })));
+
+    expect(await countContractEvents(storage, config, config.contracts[0])).toBe(2);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { formatMigrationText, migrateSQLiteDatabase } from '../../../src/cli/commands/db.js';
+import { SQLITE_MIGRATIONS, getSchemaVersion } from '../../../src/storage/migrations/index.js';
+
+describe('db migrate', () => {
+  const latestVersion = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaintap-test-'));
+    dbPath = path.join(tempDir, 'events.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list pending migrations without creating the database on a dry run', () => {
+    const result = migrateSQLiteDatabase(dbPath, { dryRun: true });
+
+    expect(result).toEqual({ fromVersion: 0, migrations: SQLITE_MIGRATIONS, dryRun: true });
+    expect(fs.existsSync(dbPath)).toBe(false);
+    expect(formatMigrationText(result)).toContain(`pending migration(s), schema version 0 -> ${latestVersion}`);
+  });
+
+  it('should not apply migrations to an existing database on a dry run', () => {
+    new Database(dbPath).close();
+
+    expect(migrateSQLiteDatabase(dbPath, { dryRun: true }).migrations).toEqual(SQLITE_MIGRATIONS);
+
+    const db = new Database(dbPath);
+    expect(getSchemaVersion(db)).toBe(0);
+    db.close();
+  });
+
+  it('should apply pending migrations', () => {
+    const result = migrateSQLiteDatabase(dbPath);
+
+    expect(result.migrations).toEqual(SQLITE_MIGRATIONS);
+    expect(formatMigrationText(result)).toMatch(/^Applied \d+ migration\(s\), schema version 0 -> \d+:\n {2}1 {2}Baseline schema/);
+    expect(formatMigrationText(migrateSQLiteDatabase(dbPath))).toBe(`Schema is up to date (version ${latestVersion})`);
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartitions } from '../../../src/cli/commands/export.js';
+import { ConfigError } from '../../../src/utils/errors.js';
+
+describe('export', () => {
+  describe('parsePartitions', () => {
+    it('should parse a comma-separated list of partitions', () => {
+      expect(parsePartitions(undefined)).toEqual([]);
+      expect(parsePartitions('event, block')).toEqual(['event', 'block']);
+    });
+
+    it('should reject unknown partitions', () => {
+      expect(() => parsePartitions('event,contract')).toThrow(ConfigError);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { findContractGaps, formatGapsText } from '../../../src/cli/commands/gaps.js';
+import { parseConfig } from '../../../src/cli/config.js';
+import { SQLiteAdapter } from '../../../src/storage/sqlite.js';
+
+describe('gaps', () => {
+  const uni = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+  const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+  const config = parseConfig(`
+chain: ethereum
+database:
+  type: sqlite
+  path: ":memory:"
+contracts:
+  - address: "${uni}"
+    name: UNI
+    events: [Transfer]
+    from_block: 1000
+  - address: "${usdc}"
+    name: USDC
+    events: [Transfer]
+  - address: "0xdac17f958d2ee523a2206206994597c13d831ec7"
+    name: USDT
+    events: [Transfer]
+providers:
+  - url: "https://eth.llamarpc.com"
+`);
+
+  let storage: SQLiteAdapter;
+
+  beforeEach(async () => {
+    storage = new SQLiteAdapter(':memory:');
+    await storage.init();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('should find uncovered ranges between from_block and the last synced block', async () => {
+    // A backfill of 1000-1999 and watch mode from 5000, with a hole the watcher missed
+    await storage.updateSyncStateAndInsertEvents(uni, 1, 1999, [], [], [], 1000);
+    await storage.updateSyncStateAndInsertEvents(uni, 1, 5099, [], [], [], 5000);
+    await storage.updateSyncStateAndInsertEvents(uni, 1, 5299, [], [], [], 5200);
+    // USDC started at the chain head, so its first indexed block is its start
+    await storage.updateSyncStateAndInsertEvents(usdc, 1, 8099, [], [], [], 8000);
+
+    const results = await findContractGaps(config, storage, config.contracts);
+
+    expect(results.map(({ contract, ...result }) => ({ name: contract.name, ...result }))).toEqual([
+      {
+        name: 'UNI',
+        chain: 'ethereum',
+        fromBlock: 1000,
+        lastBlock: 5299,
+        gaps: [
+          { fromBlock: 2000, toBlock: 4999 },
+          { fromBlock: 5100, toBlock: 5199 },
+        ],
+      },
+      { name: 'USDC', chain: 'ethereum', fromBlock: 8000, lastBlock: 8099, gaps: [] },
+    ]);
+
+    const text = formatGapsText(results);
+    expect(text).toContain(`UNI (${uni}) on ethereum: 2 gap(s), 3,100 blocks between 1,000 and 5,299`);
+    expect(text).toContain('  2,000 - 4,999');
+    expect(text).toContain(`USDC (${usdc}) on ethereum: no gaps between 8,000 and 8,099`);
+  });
+});
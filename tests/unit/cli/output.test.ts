@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { formatEvents, escapeCsvValue } from '../../../src/cli/output.js';
+import { DecodedEvent } from '../../../src/core/types.js';
+
+describe('formatEvents', () => {
+  const events: DecodedEvent[] = [
+    {
+      contractAddress: '0x1234',
+      blockNumber: 100,
+      blockTimestamp: 1700000000,
+      transactionHash: '0xabc',
+      logIndex: 0,
+      eventName: 'Transfer',
+      eventData: { from: '0x111', to: '0x222', value: '100' },
+      chainId: 1,
+    },
+    {
+      contractAddress: '0x1234',
+      blockNumber: 101,
+      blockTimestamp: 1700000012,
+      transactionHash: '0xdef',
+      logIndex: 3,
+      eventName: 'Approval',
+      eventData: { owner: '0x111', spender: '0x333', value: '5' },
+    },
+  ];
+
+  it('should format JSON as an array', () => {
+    expect(JSON.parse(formatEvents(events, 'json'))).toEqual(events);
+  });
+
+  it('should format NDJSON with one event per line', () => {
+    const lines = formatEvents(events, 'ndjson').split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toEqual(events[1]);
+  });
+
+  it('should format CSV with a header and quoted eventData', () => {
+    const lines = formatEvents(events, 'csv').split('\n');
+    expect(lines[0]).toBe(
+      'chainId,blockNumber,blockTimestamp,transactionHash,logIndex,contractAddress,eventName,eventData'
+    );
+    expect(lines[1]).toBe(
+      '1,100,1700000000,0xabc,0,0x1234,Transfer,"{""from"":""0x111"",""to"":""0x222"",""value"":""100""}"'
+    );
+    // Events written before multi-chain support have no chain ID
+    expect(lines[2].startsWith(',101,')).toBe(true);
+  });
+
+  it('should format a table with aligned columns', () => {
+    const lines = formatEvents(events, 'table').split('\n');
+    expect(lines[0]).toMatch(/^Chain\s+Block\s+Log\s+Event\s+Transaction\s+Contract\s+Data$/);
+    expect(lines[2].indexOf('Transfer')).toBe(lines[3].indexOf('Approval'));
+    expect(lines[lines.length - 1]).toBe('2 event(s)');
+  });
+
+  it('should report an empty table', () => {
+    expect(formatEvents([], 'table')).toBe('No events found');
+  });
+});
+
+describe('escapeCsvValue', () => {
+  it('should leave plain values unquoted', () => {
+    expect(escapeCsvValue('Transfer')).toBe('Transfer');
+  });
+
+  it('should quote values with commas, quotes and newlines', () => {
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('a\nb')).toBe('"a\nb"');
+  });
+});
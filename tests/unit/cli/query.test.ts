@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { parseArgPredicates } from '../../../src/cli/commands/query.js';
+import { ConfigError } from '../../../src/utils/errors.js';
+
+describe('parseArgPredicates', () => {
+  it('should parse name=value conditions', () => {
+    expect(parseArgPredicates(['to=0xabc', 'value = 100'])).toEqual([
+      { path: 'to', op: 'eq', value: '0xabc' },
+      { path: 'value', op: 'eq', value: '100' },
+    ]);
+  });
+
+  it('should keep "=" inside values', () => {
+    expect(parseArgPredicates(['data=a=b'])).toEqual([{ path: 'data', op: 'eq', value: 'a=b' }]);
+  });
+
+  it('should parse integer comparisons and IN lists', () => {
+    expect(parseArgPredicates(['value>=1000', 'value < -5', 'order.maker in 0xa, 0xb'])).toEqual([
+      { path: 'value', op: 'gte', value: '1000' },
+      { path: 'value', op: 'lt', value: '-5' },
+      { path: 'order.maker', op: 'in', values: ['0xa', '0xb'] },
+    ]);
+  });
+
+  it('should reject conditions without a name', () => {
+    expect(() => parseArgPredicates(['=1'])).toThrow(ConfigError);
+    expect(() => parseArgPredicates(['value'])).toThrow(ConfigError);
+  });
+
+  it('should reject names that are not argument paths', () => {
+    expect(() => parseArgPredicates(['a..b=1'])).toThrow(ConfigError);
+    expect(() => parseArgPredicates(['order.=1'])).toThrow(/must be an argument name/);
+    expect(() => parseArgPredicates(['a-b in 1,2'])).toThrow(ConfigError);
+  });
+
+  it('should reject comparisons with values that are not integers', () => {
+    expect(() => parseArgPredicates(['value>1.5'])).toThrow(/needs an integer/);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  buildStatusReport,
+  findLaggingContracts,
+  formatStatusText,
+  ChainHead,
+} from '../../../src/cli/commands/status.js';
+import { parseConfig } from '../../../src/cli/config.js';
+import { SQLiteAdapter } from '../../../src/storage/sqlite.js';
+
+describe('status report', () => {
+  const uni = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+  const usdc = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+
+  const config = parseConfig(`
+chain: ethereum
+database:
+  type: sqlite
+  path: ":memory:"
+contracts:
+  - address: "0x1F9840a85d5aF5bf1D1762F925BDADdC4201F984"
+    name: UNI
+    events: [Transfer, Approval]
+  - address: "${usdc}"
+    chain: base
+    events: [Transfer]
+providers:
+  - url: "https://eth.llamarpc.com"
+chains:
+  base:
+    providers:
+      - url: "https://mainnet.base.org"
+`);
+
+  let storage: SQLiteAdapter;
+
+  const event = (eventName: string, blockNumber: number) => ({
+    contractAddress: uni,
+    blockNumber,
+    blockTimestamp: 1700000000,
+    transactionHash: `0xtx${blockNumber}`,
+    logIndex: 0,
+    eventName,
+    eventData: {},
+  });
+
+  beforeEach(async () => {
+    storage = new SQLiteAdapter(':memory:');
+    await storage.init();
+    await storage.updateSyncStateAndInsertEvents(uni, 1, 150, [
+      event('Transfer', 100),
+      event('Transfer', 110),
+      event('Approval', 120),
+    ]);
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('should include sync state, event counts and lag behind the chain head', async () => {
+    const heads = new Map<string, ChainHead>([
+      ['ethereum', { blockNumber: 160 }],
+      ['base', { blockNumber: null, error: 'timeout' }],
+    ]);
+
+    const report = await buildStatusReport(config, storage, heads);
+
+    expect(report.chains).toEqual(['ethereum', 'base']);
+    expect(report.contracts[0]).toEqual({
+      name: 'UNI',
+      address: uni,
+      chain: 'ethereum',
+      chainId: 1,
+      events: ['Transfer', 'Approval'],
+      syncState: {
+        contractAddress: uni,
+        chainId: 1,
+        lastBlock: 150,
+        lastSync: expect.any(Number),
+        status: 'active',
+      },
+      eventCounts: { Transfer: 2, Approval: 1 },
+      totalEvents: 3,
+      chainHead: 160,
+      lag: 10,
+    });
+    expect(report.contracts[1]).toMatchObject({
+      name: null,
+      chain: 'base',
+      syncState: null,
+      chainHead: null,
+      lag: null,
+    });
+  });
+
+  it('should report contracts that are behind or not synced yet', async () => {
+    const heads = new Map<string, ChainHead>([
+      ['ethereum', { blockNumber: 160 }],
+      ['base', { blockNumber: 5000 }],
+    ]);
+    const report = await buildStatusReport(config, storage, heads);
+
+    expect(findLaggingContracts(report, 10).map(c => c.address)).toEqual([usdc]);
+    expect(findLaggingContracts(report, 9).map(c => c.address)).toEqual([uni, usdc]);
+  });
+
+  it('should format the text report', async () => {
+    const heads = new Map<string, ChainHead>([['ethereum', { blockNumber: 1160 }]]);
+    const report = await buildStatusReport(config, storage, heads);
+    const lastSync = report.contracts[0].syncState!.lastSync * 1000;
+
+    const text = formatStatusText(config, report, lastSync + 120_000);
+
+    expect(text).toContain('Contract: UNI (0x1F9840a85d5aF5bf1D1762F925BDADdC4201F984)');
+    expect(text).toContain('Chain head: 1,160 (1,010 blocks behind)');
+    expect(text).toContain('Total events: 3');
+    expect(text).toContain('(2 minutes ago)');
+    expect(text).toContain('Status: not synced yet');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { findCoverageGaps } from '../../../src/core/coverage.js';
+
+describe('findCoverageGaps', () => {
+  it('should return the whole range when nothing is covered', () => {
+    expect(findCoverageGaps([], 100, 199)).toEqual([{ fromBlock: 100, toBlock: 199 }]);
+  });
+
+  it('should return the holes between, before and after covered ranges', () => {
+    const covered = [
+      { fromBlock: 120, toBlock: 139 },
+      { fromBlock: 150, toBlock: 159 },
+    ];
+
+    expect(findCoverageGaps(covered, 100, 199)).toEqual([
+      { fromBlock: 100, toBlock: 119 },
+      { fromBlock: 140, toBlock: 149 },
+      { fromBlock: 160, toBlock: 199 },
+    ]);
+  });
+
+  it('should clip covered ranges that extend past the checked range', () => {
+    const covered = [
+      { fromBlock: 50, toBlock: 109 },
+      { fromBlock: 150, toBlock: 300 },
+    ];
+
+    expect(findCoverageGaps(covered, 100, 199)).toEqual([{ fromBlock: 110, toBlock: 149 }]);
+    expect(findCoverageGaps(covered, 160, 199)).toEqual([]);
+  });
+});
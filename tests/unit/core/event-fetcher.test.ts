@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ethers } from 'ethers';
 import { EventFetcher } from '../../../src/core/event-fetcher';
-import { EventDecoder } from '../../../src/core/event-decoder';
+import { EventDecoder, UNKNOWN_EVENT_NAME } from '../../../src/abi/decoder';
 import { Logger } from '../../../src/utils/logger';
+import { Metrics } from '../../../src/utils/metrics';
+import { ERC20_ABI } from '../../fixtures/abis';
 
 describe('EventFetcher', () => {
   let mockProvider: any;
@@ -233,6 +235,28 @@ describe('EventFetcher', () => {
       );
     });
 
+    it('should record getLogs latency and chunk size reductions in metrics', async () => {
+      const metrics = new Metrics();
+      const fetcher = new EventFetcher(
+        mockProvider as any,
+        'test-provider',
+        mockDecoder as any,
+        mockLogger,
+        2000,
+        metrics
+      );
+
+      mockProvider.getLogs
+        .mockRejectedValueOnce(new Error('block range too large'))
+        .mockResolvedValue([]);
+
+      await fetcher.fetchEvents(contractAddress, ['Transfer'], 17000000, 17001999);
+
+      const output = await metrics.render();
+      expect(output).toContain('chaintap_chunk_size_reductions_total{provider="test-provider"} 1');
+      expect(output).toContain('chaintap_get_logs_duration_seconds_count{provider="test-provider"} 3');
+    });
+
     it('should never reduce chunk size below 100 blocks minimum', async () => {
       const fetcher = new EventFetcher(
         mockProvider as any,
@@ -416,6 +440,206 @@ describe('EventFetcher', () => {
     });
   });
 
+  describe('argument filters', () => {
+    const wallet = '0x000000000000000000000000000000000000dEaD';
+    const walletTopic = '0x000000000000000000000000000000000000000000000000000000000000dead';
+
+    beforeEach(() => {
+      mockDecoder.interface = new ethers.Interface(ERC20_ABI);
+      mockProvider.getLogs.mockResolvedValue([]);
+    });
+
+    it('should translate indexed argument filters into topics', async () => {
+      await fetcher.fetchEvents(
+        contractAddress,
+        [{ name: 'Transfer', filter: { to: wallet } }],
+        17000000,
+        17001000
+      );
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(1);
+      expect(mockProvider.getLogs).toHaveBeenCalledWith({
+        address: contractAddress,
+        topics: [transferTopic, null, walletTopic],
+        fromBlock: 17000000,
+        toBlock: 17001000,
+      });
+    });
+
+    it('should OR together a list of values for one argument', async () => {
+      await fetcher.fetchEvents(
+        contractAddress,
+        [{ name: 'Transfer', filter: { from: [wallet, contractAddress] } }],
+        17000000,
+        17001000
+      );
+
+      const { topics } = mockProvider.getLogs.mock.calls[0][0];
+      expect(topics[0]).toBe(transferTopic);
+      expect(topics[1]).toEqual([
+        walletTopic,
+        ethers.zeroPadValue(contractAddress.toLowerCase(), 32),
+      ]);
+    });
+
+    it('should query filtered events separately and merge logs in chain order', async () => {
+      mockProvider.getLogs.mockImplementation(async ({ topics }: { topics: unknown[] }) =>
+        Array.isArray(topics[0])
+          ? [{ blockNumber: 17000200, index: 1, transactionHash: '0xa3' }]
+          : [
+            { blockNumber: 17000100, index: 0, transactionHash: '0xa1' },
+            { blockNumber: 17000200, index: 0, transactionHash: '0xa2' },
+          ]
+      );
+      mockProvider.getBlock.mockResolvedValue({ timestamp: 1678900000 });
+      mockDecoder.decode = vi.fn((log: any) => ({
+        contractAddress,
+        blockNumber: log.blockNumber,
+        transactionHash: '0xabc',
+        logIndex: log.index,
+        eventName: 'Transfer',
+        eventData: {},
+      }));
+
+      const events = await fetcher.fetchEvents(
+        contractAddress,
+        ['Approval', { name: 'Transfer', filter: { to: wallet } }],
+        17000000,
+        17001000
+      );
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(2);
+      expect(mockProvider.getLogs.mock.calls[0][0].topics).toEqual([[approvalTopic]]);
+      expect(events.map(e => [e.blockNumber, e.logIndex])).toEqual([
+        [17000100, 0],
+        [17000200, 0],
+        [17000200, 1],
+      ]);
+    });
+
+    it('should return a log matched by overlapping filters once', async () => {
+      // Both filters match the self-transfer at index 0
+      mockProvider.getLogs.mockImplementation(async ({ topics }: { topics: unknown[] }) =>
+        topics[1]
+          ? [{ blockNumber: 17000100, index: 0, transactionHash: '0xabc' }]
+          : [
+            { blockNumber: 17000100, index: 0, transactionHash: '0xabc' },
+            { blockNumber: 17000100, index: 1, transactionHash: '0xabc' },
+          ]
+      );
+      mockProvider.getBlock.mockResolvedValue({ timestamp: 1678900000 });
+      mockDecoder.decode = vi.fn((log: any) => ({
+        contractAddress,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        eventName: 'Transfer',
+        eventData: {},
+      }));
+
+      const events = await fetcher.fetchEvents(
+        contractAddress,
+        [
+          { name: 'Transfer', filter: { from: wallet } },
+          { name: 'Transfer', filter: { to: wallet } },
+        ],
+        17000000,
+        17001000
+      );
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(2);
+      expect(events.map(e => [e.blockNumber, e.logIndex])).toEqual([
+        [17000100, 0],
+        [17000100, 1],
+      ]);
+    });
+
+    it('should reject filters on non-indexed arguments', async () => {
+      await expect(
+        fetcher.fetchEvents(
+          contractAddress,
+          [{ name: 'Transfer', filter: { value: '100' } }],
+          17000000,
+          17001000
+        )
+      ).rejects.toThrow(/not indexed/);
+      expect(mockProvider.getLogs).not.toHaveBeenCalled();
+    });
+
+    it('should reject filters on unknown arguments', async () => {
+      await expect(
+        fetcher.fetchEvents(
+          contractAddress,
+          [{ name: 'Transfer', filter: { recipient: wallet } }],
+          17000000,
+          17001000
+        )
+      ).rejects.toThrow(/no argument named recipient/);
+    });
+  });
+
+  describe('all events', () => {
+    const iface = new ethers.Interface(ERC20_ABI);
+    const unknownTopic = ethers.id('Paused(address)');
+    const transferLog = {
+      address: contractAddress,
+      ...iface.encodeEventLog('Transfer', [contractAddress, contractAddress, 1n]),
+      blockNumber: 17000100,
+      transactionHash: '0xabc',
+      index: 0,
+    };
+    const unknownLog = {
+      address: contractAddress,
+      topics: [unknownTopic],
+      data: '0x',
+      blockNumber: 17000100,
+      transactionHash: '0xabc',
+      index: 1,
+    };
+
+    beforeEach(() => {
+      fetcher = new EventFetcher(mockProvider as any, 'test-provider', new EventDecoder(iface), mockLogger);
+      mockProvider.getBlock.mockResolvedValue({ timestamp: 1700000000 });
+    });
+
+    it('should query every event in the ABI and drop logs it can\'t decode', async () => {
+      mockProvider.getLogs.mockResolvedValue([transferLog, unknownLog]);
+
+      const events = await fetcher.fetchEvents(contractAddress, '*', 17000000, 17001000);
+
+      expect(mockProvider.getLogs).toHaveBeenCalledWith({
+        address: contractAddress,
+        topics: [[approvalTopic, transferTopic]],
+        fromBlock: 17000000,
+        toBlock: 17001000,
+      });
+      expect(events.map(event => event.eventName)).toEqual(['Transfer']);
+    });
+
+    it('should fetch every log and store unknown ones raw with rawLogs', async () => {
+      mockProvider.getLogs.mockResolvedValue([transferLog, unknownLog]);
+
+      const events = await fetcher.fetchEvents(contractAddress, '*', 17000000, 17001000, { rawLogs: true });
+
+      expect(mockProvider.getLogs).toHaveBeenCalledWith({
+        address: contractAddress,
+        topics: [],
+        fromBlock: 17000000,
+        toBlock: 17001000,
+      });
+      expect(events).toHaveLength(2);
+      expect(events[1]).toEqual({
+        contractAddress,
+        blockNumber: 17000100,
+        blockTimestamp: 1700000000,
+        transactionHash: '0xabc',
+        logIndex: 1,
+        eventName: UNKNOWN_EVENT_NAME,
+        eventData: { topics: [unknownTopic], data: '0x' },
+      });
+    });
+  });
+
   describe('isBlockRangeError', () => {
     it('should detect "block range" error message', () => {
       const error = new Error('block range too large');
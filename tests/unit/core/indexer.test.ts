@@ -0,0 +1,756 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Interface } from 'ethers';
+import { Indexer } from '../../../src/core/indexer.js';
+import { Chain, Config } from '../../../src/cli/config.js';
+import { BlockRecord } from '../../../src/core/types.js';
+import { Logger } from '../../../src/utils/logger.js';
+import { RPCError } from '../../../src/utils/errors.js';
+import { Metrics } from '../../../src/utils/metrics.js';
+import { ERC20_ABI } from '../../fixtures/abis.js';
+import { startWsRpcStub, WsRpcStub } from '../../fixtures/ws-rpc-stub.js';
+
+describe('Indexer', () => {
+  const contractAddress = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+
+  const config: Config = {
+    chain: 'ethereum',
+    database: { type: 'sqlite', path: ':memory:' },
+    contracts: [
+      {
+        address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
+        name: 'UNI',
+        events: ['Transfer'],
+        from_block: 100,
+      },
+    ],
+    templates: [],
+    providers: [{ url: 'http://localhost:8545', priority: 1 }],
+    chains: {},
+    sinks: [],
+    options: {
+      batch_size: 2000,
+      confirmations: 0,
+      poll_interval: 1000,
+      max_retries: 5,
+      max_reorg_depth: 4,
+      concurrency: 1,
+    },
+  };
+
+  let mockStorage: any;
+  let mockProvider: any;
+  let mockLogger: Logger;
+  let indexer: Indexer;
+
+  // Stored hashes for blocks 100-103, most recent first
+  const storedBlocks: BlockRecord[] = [103, 102, 101, 100].map(blockNumber => ({
+    blockNumber,
+    blockHash: `0xh${blockNumber}`,
+    parentHash: `0xh${blockNumber - 1}`,
+  }));
+
+  // Provider pools by chain, for indexers whose tests don't reach the pool
+  const unusedPools = () => new Map([['ethereum' as const, {} as any]]);
+
+  const providerInfo = () => ({
+    id: 'test-provider',
+    url: 'http://localhost:8545',
+    priority: 1,
+    provider: mockProvider,
+  });
+
+  beforeEach(() => {
+    mockStorage = {
+      getBlockHashes: vi.fn().mockResolvedValue(storedBlocks),
+      rollbackToBlock: vi.fn().mockResolvedValue(3),
+      syncEventViews: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mockProvider = {
+      getBlock: vi.fn(async (blockNumber: number) => ({
+        number: blockNumber,
+        hash: `0xh${blockNumber}`,
+        parentHash: `0xh${blockNumber - 1}`,
+      })),
+    };
+
+    mockLogger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as any;
+
+    indexer = new Indexer(config, mockStorage, unusedPools(), mockLogger);
+  });
+
+  describe('checkForReorg', () => {
+    it('should return null when stored hashes match the chain', async () => {
+      const result = await indexer.checkForReorg(config.contracts[0], providerInfo());
+
+      expect(result).toBeNull();
+      expect(mockProvider.getBlock).toHaveBeenCalledTimes(1);
+      expect(mockStorage.rollbackToBlock).not.toHaveBeenCalled();
+      expect(indexer.getReorgCount()).toBe(0);
+    });
+
+    it('should return null when no block hashes are stored', async () => {
+      mockStorage.getBlockHashes.mockResolvedValue([]);
+
+      const result = await indexer.checkForReorg(config.contracts[0], providerInfo());
+
+      expect(result).toBeNull();
+      expect(mockProvider.getBlock).not.toHaveBeenCalled();
+    });
+
+    it('should roll back to the common ancestor on hash mismatch', async () => {
+      mockProvider.getBlock.mockImplementation(async (blockNumber: number) => ({
+        number: blockNumber,
+        hash: blockNumber > 101 ? `0xfork${blockNumber}` : `0xh${blockNumber}`,
+        parentHash: `0xh${blockNumber - 1}`,
+      }));
+
+      const result = await indexer.checkForReorg(config.contracts[0], providerInfo());
+
+      expect(result).toBe(101);
+      expect(mockStorage.getBlockHashes).toHaveBeenCalledWith(contractAddress, 1, 4);
+      expect(mockStorage.rollbackToBlock).toHaveBeenCalledWith(contractAddress, 1, 101);
+      expect(indexer.getReorgCount()).toBe(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ commonAncestor: 101, depth: 2, removedEvents: 3 }),
+        expect.stringContaining('Chain reorganization detected')
+      );
+    });
+
+    it('should rewind past the tracked window when no stored hash matches', async () => {
+      mockProvider.getBlock.mockImplementation(async (blockNumber: number) => ({
+        number: blockNumber,
+        hash: `0xfork${blockNumber}`,
+        parentHash: `0xfork${blockNumber - 1}`,
+      }));
+
+      const result = await indexer.checkForReorg(config.contracts[0], providerInfo());
+
+      expect(result).toBe(99);
+      expect(mockStorage.rollbackToBlock).toHaveBeenCalledWith(contractAddress, 1, 99);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('indexBlocks', () => {
+    let getLogs: ReturnType<typeof vi.fn>;
+    let inFlight: number;
+    let maxInFlight: number;
+
+    const createIndexer = (concurrency: number) => {
+      const indexerConfig: Config = {
+        ...config,
+        options: { ...config.options, batch_size: 10, concurrency },
+      };
+
+      const providerPool = {
+        getProvider: vi.fn(async () => ({
+          id: 'test-provider',
+          url: 'http://localhost:8545',
+          priority: 1,
+          provider: { getLogs, getBlock: vi.fn() },
+        })),
+        reportSuccess: vi.fn(),
+        reportFailure: vi.fn(),
+      };
+
+      const instance = new Indexer(
+        indexerConfig,
+        mockStorage,
+        new Map([['ethereum' as const, providerPool as any]]),
+        mockLogger
+      );
+      vi.spyOn(instance as any, 'getContractABI').mockResolvedValue(new Interface(ERC20_ABI));
+      return { instance, providerPool };
+    };
+
+    beforeEach(() => {
+      inFlight = 0;
+      maxInFlight = 0;
+      mockStorage.updateSyncStateAndInsertEvents = vi.fn().mockResolvedValue(0);
+
+      // Earlier segments take longer, so they finish out of order
+      getLogs = vi.fn(async ({ fromBlock }: { fromBlock: number }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 50 - (fromBlock % 100) / 2));
+        inFlight--;
+        return [];
+      });
+    });
+
+    it('should fetch segments concurrently and commit them in order', async () => {
+      const { instance } = createIndexer(3);
+
+      await instance.indexBlocks(config.contracts[0], 100, 149);
+
+      expect(getLogs).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(3);
+      const committed = mockStorage.updateSyncStateAndInsertEvents.mock.calls.map(
+        (call: unknown[]) => call[2]
+      );
+      expect(committed).toEqual([109, 119, 129, 139, 149]);
+    });
+
+    it('should fetch one segment at a time by default', async () => {
+      const { instance } = createIndexer(1);
+
+      await instance.indexBlocks(config.contracts[0], 100, 129);
+
+      expect(maxInFlight).toBe(1);
+      expect(mockStorage.updateSyncStateAndInsertEvents).toHaveBeenCalledTimes(3);
+    });
+
+    it('should return the number of newly stored events', async () => {
+      const { instance } = createIndexer(1);
+      mockStorage.updateSyncStateAndInsertEvents.mockResolvedValue(2);
+
+      expect(await instance.indexBlocks(config.contracts[0], 100, 129)).toBe(6);
+    });
+
+    it('should keep committed segments and stop at the first failed segment', async () => {
+      getLogs.mockImplementation(async ({ fromBlock }: { fromBlock: number }) => {
+        if (fromBlock === 120) {
+          throw new Error('connection refused');
+        }
+        return [];
+      });
+      const { instance, providerPool } = createIndexer(2);
+
+      await expect(instance.indexBlocks(config.contracts[0], 100, 149)).rejects.toThrow(RPCError);
+
+      const committed = mockStorage.updateSyncStateAndInsertEvents.mock.calls.map(
+        (call: unknown[]) => call[2]
+      );
+      expect(committed).toEqual([109, 119]);
+      expect(providerPool.reportFailure).toHaveBeenCalled();
+    });
+
+    it('should create the event views of a contract once', async () => {
+      const { instance } = createIndexer(1);
+
+      await instance.indexBlocks(config.contracts[0], 100, 109);
+      await instance.indexBlocks(config.contracts[0], 110, 119);
+
+      expect(mockStorage.syncEventViews).toHaveBeenCalledTimes(1);
+      expect(mockStorage.syncEventViews).toHaveBeenCalledWith(contractAddress, 1, [
+        expect.objectContaining({ name: 'uni_transfer', eventName: 'Transfer' }),
+      ]);
+    });
+
+    it('should keep indexing when event views cannot be created', async () => {
+      mockStorage.syncEventViews.mockRejectedValue(new Error('view uni_transfer already belongs to contract 0x1234'));
+      const { instance } = createIndexer(1);
+
+      await instance.indexBlocks(config.contracts[0], 100, 109);
+
+      expect(mockStorage.updateSyncStateAndInsertEvents).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ contract: 'UNI' }),
+        'Failed to create event views'
+      );
+    });
+
+    it('should index a contract with the provider pool and chain ID of its chain', async () => {
+      const polygonConfig: Config = {
+        ...config,
+        contracts: [...config.contracts, { ...config.contracts[0], name: 'UNI (Polygon)', chain: 'polygon' }],
+        chains: { polygon: { providers: [{ url: 'http://localhost:8546', priority: 1 }] } },
+        options: { ...config.options, batch_size: 10 },
+      };
+      const ethereumPool = { getProvider: vi.fn(), reportSuccess: vi.fn(), reportFailure: vi.fn() };
+      const polygonPool = {
+        getProvider: vi.fn(async () => ({ ...providerInfo(), provider: { getLogs, getBlock: vi.fn() } })),
+        reportSuccess: vi.fn(),
+        reportFailure: vi.fn(),
+      };
+      const instance = new Indexer(
+        polygonConfig,
+        mockStorage,
+        new Map([['ethereum' as const, ethereumPool as any], ['polygon' as const, polygonPool as any]]),
+        mockLogger
+      );
+      vi.spyOn(instance as any, 'getContractABI').mockResolvedValue(new Interface(ERC20_ABI));
+
+      await instance.indexBlocks(polygonConfig.contracts[1], 100, 109);
+
+      expect(polygonPool.getProvider).toHaveBeenCalled();
+      expect(ethereumPool.getProvider).not.toHaveBeenCalled();
+      expect(mockStorage.updateSyncStateAndInsertEvents).toHaveBeenCalledWith(
+        contractAddress, 137, 109, [], [], [], 100
+      );
+    });
+
+    it('should report a failed proxy detection to the provider pool', async () => {
+      const providerPool = {
+        getProvider: vi.fn(async () => ({
+          ...providerInfo(),
+          provider: { getStorage: vi.fn().mockRejectedValue(new Error('connection refused')) },
+        })),
+        reportSuccess: vi.fn(),
+        reportFailure: vi.fn(),
+      };
+      const instance = new Indexer(config, mockStorage, new Map([['ethereum' as const, providerPool as any]]), mockLogger);
+
+      await expect(instance.indexBlocks(config.contracts[0], 100, 109)).rejects.toThrow(
+        'Failed to detect proxy: connection refused'
+      );
+      expect(providerPool.reportFailure).toHaveBeenCalledWith('test-provider', expect.any(Error));
+      expect(mockStorage.updateSyncStateAndInsertEvents).not.toHaveBeenCalled();
+    });
+
+    describe('with block tracking', () => {
+      const transfer = (blockNumber: number, blockHash: string) => ({
+        contractAddress: config.contracts[0].address,
+        blockNumber,
+        blockTimestamp: 1700000000,
+        transactionHash: `0xtx${blockNumber}`,
+        logIndex: 0,
+        eventName: 'Transfer',
+        eventData: { from: contractAddress, to: contractAddress, value: '1' },
+        blockHash,
+      });
+
+      // Headers 106-109 of the reorg window, continuing from stored block 103
+      const headers: BlockRecord[] = [106, 107, 108, 109].map(blockNumber => ({
+        blockNumber,
+        blockHash: `0xh${blockNumber}`,
+        parentHash: `0xh${blockNumber - 1}`,
+      }));
+
+      const createTrackingIndexer = () => {
+        const providerPool = {
+          getProvider: vi.fn(async () => providerInfo()),
+          reportSuccess: vi.fn(),
+          reportFailure: vi.fn(),
+        };
+        const instance = new Indexer(config, mockStorage, new Map([['ethereum' as const, providerPool as any]]), mockLogger);
+        vi.spyOn(instance as any, 'getContractABI').mockResolvedValue(new Interface(ERC20_ABI));
+        return { instance, providerPool };
+      };
+
+      beforeEach(() => {
+        mockStorage.pruneBlockHashes = vi.fn().mockResolvedValue(undefined);
+      });
+
+      it('should store the headers of the reorg window with the final segment', async () => {
+        const { instance } = createTrackingIndexer();
+        vi.spyOn(instance as any, 'fetchSegment').mockResolvedValue([transfer(108, '0xh108')]);
+
+        await instance.indexBlocks(config.contracts[0], 104, 109, { trackBlocks: true });
+
+        expect(mockStorage.updateSyncStateAndInsertEvents).toHaveBeenCalledWith(
+          contractAddress, 1, 109, [transfer(108, '0xh108')], headers, [], 104
+        );
+      });
+
+      it("should refetch the final segment when a header doesn't match its logs' block hash", async () => {
+        const { instance, providerPool } = createTrackingIndexer();
+        const fetchSegment = vi.spyOn(instance as any, 'fetchSegment')
+          .mockResolvedValueOnce([transfer(108, '0xfork108')])
+          .mockResolvedValueOnce([transfer(108, '0xh108')]);
+
+        await instance.indexBlocks(config.contracts[0], 104, 109, { trackBlocks: true });
+
+        expect(fetchSegment).toHaveBeenCalledTimes(2);
+        expect(mockStorage.updateSyncStateAndInsertEvents).toHaveBeenCalledTimes(1);
+        expect(mockStorage.updateSyncStateAndInsertEvents).toHaveBeenCalledWith(
+          contractAddress, 1, 109, [transfer(108, '0xh108')], headers, [], 104
+        );
+        expect(providerPool.reportFailure).not.toHaveBeenCalled();
+        expect(mockLogger.warn).toHaveBeenCalledWith(
+          expect.objectContaining({ attempt: 1 }),
+          expect.stringContaining('Chain reorganization in progress')
+        );
+      });
+
+      it('should retry a parent hash mismatch without reporting a provider failure', async () => {
+        mockProvider.getBlock.mockImplementation(async (blockNumber: number) => ({
+          number: blockNumber,
+          hash: `0xh${blockNumber}`,
+          parentHash: blockNumber === 107 ? '0xfork106' : `0xh${blockNumber - 1}`,
+        }));
+        const { instance, providerPool } = createTrackingIndexer();
+        const fetchSegment = vi.spyOn(instance as any, 'fetchSegment').mockResolvedValue([]);
+
+        await expect(
+          instance.indexBlocks(config.contracts[0], 104, 109, { trackBlocks: true })
+        ).rejects.toThrow('Parent hash mismatch at block 107');
+
+        expect(fetchSegment).toHaveBeenCalledTimes(3);
+        expect(providerPool.reportFailure).not.toHaveBeenCalled();
+        expect(mockStorage.updateSyncStateAndInsertEvents).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('event sinks', () => {
+    const decoded = (blockNumber: number) => ({
+      contractAddress: config.contracts[0].address,
+      blockNumber,
+      blockTimestamp: 1700000000,
+      transactionHash: `0xtx${blockNumber}`,
+      logIndex: 0,
+      eventName: 'Transfer',
+      eventData: { from: contractAddress, to: contractAddress, value: '1' },
+    });
+    const transfer = (blockNumber: number) => ({ ...decoded(blockNumber), blockHash: `0xh${blockNumber}` });
+
+    const createSink = (name: string) => ({
+      name,
+      start: vi.fn(),
+      onCommit: vi.fn(),
+      stop: vi.fn(),
+    });
+
+    beforeEach(() => {
+      mockStorage.updateSyncStateAndInsertEvents = vi.fn().mockResolvedValue(0);
+    });
+
+    it('should queue each committed batch for every sink in the same commit', async () => {
+      const sinks = [createSink('backend'), createSink('audit')];
+      const instance = new Indexer(config, mockStorage, unusedPools(), mockLogger, sinks);
+      vi.spyOn(instance as any, 'fetchSegment').mockResolvedValue([transfer(120)]);
+      vi.spyOn(instance as any, 'getContractABI').mockResolvedValue(new Interface(ERC20_ABI));
+
+      await instance.indexBlocks(config.contracts[0], 100, 149);
+
+      const batch = {
+        chainId: 1,
+        contractAddress,
+        fromBlock: 100,
+        toBlock: 149,
+        events: [{ ...decoded(120), chainId: 1 }],
+      };
+      expect(mockStorage.updateSyncStateAndInsertEvents).toHaveBeenCalledWith(
+        contractAddress, 1, 149, [transfer(120)], [], [
+          { sink: 'backend', payload: JSON.stringify(batch) },
+          { sink: 'audit', payload: JSON.stringify(batch) },
+        ], 100
+      );
+      expect(sinks[0].onCommit).toHaveBeenCalledWith(batch);
+      expect(sinks[1].onCommit).toHaveBeenCalledWith(batch);
+    });
+
+    it('should not queue ranges without events', async () => {
+      const sink = createSink('backend');
+      const instance = new Indexer(config, mockStorage, unusedPools(), mockLogger, [sink]);
+      vi.spyOn(instance as any, 'fetchSegment').mockResolvedValue([]);
+      vi.spyOn(instance as any, 'getContractABI').mockResolvedValue(new Interface(ERC20_ABI));
+
+      await instance.indexBlocks(config.contracts[0], 100, 149);
+
+      expect(mockStorage.updateSyncStateAndInsertEvents).toHaveBeenCalledWith(
+        contractAddress, 1, 149, [], [], [], 100
+      );
+      expect(sink.onCommit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('metrics', () => {
+    const transfer = (blockNumber: number) => ({
+      contractAddress,
+      blockNumber,
+      blockTimestamp: 1700000000,
+      transactionHash: `0xtx${blockNumber}`,
+      logIndex: 0,
+      eventName: 'Transfer',
+      eventData: { from: contractAddress, to: contractAddress, value: '1' },
+    });
+
+    it('should count committed events and track head lag per contract', async () => {
+      const metrics = new Metrics();
+      mockStorage.updateSyncStateAndInsertEvents = vi.fn().mockResolvedValue(0);
+      const instance = new Indexer(config, mockStorage, unusedPools(), mockLogger, [], metrics);
+      vi.spyOn(instance as any, 'fetchSegment').mockResolvedValue([
+        transfer(120),
+        transfer(130),
+      ]);
+      vi.spyOn(instance as any, 'getContractABI').mockResolvedValue(new Interface(ERC20_ABI));
+
+      metrics.observeChainHead('ethereum', 160);
+      await instance.indexBlocks(config.contracts[0], 100, 149);
+
+      const output = await metrics.render();
+      expect(output).toContain('chaintap_events_indexed_total{chain="ethereum",contract="UNI"} 2');
+      expect(output).toContain('chaintap_head_lag_blocks{chain="ethereum",contract="UNI"} 11');
+    });
+
+    it('should count detected reorgs', async () => {
+      const metrics = new Metrics();
+      const instance = new Indexer(config, mockStorage, unusedPools(), mockLogger, [], metrics);
+      mockProvider.getBlock.mockImplementation(async (blockNumber: number) => ({
+        number: blockNumber,
+        hash: blockNumber >= 102 ? `0xnew${blockNumber}` : `0xh${blockNumber}`,
+      }));
+
+      await instance.checkForReorg(config.contracts[0], providerInfo());
+
+      expect(await metrics.render()).toContain('chaintap_reorgs_total{chain="ethereum",contract="UNI"} 1');
+    });
+  });
+
+  describe('backfill', () => {
+    const job = {
+      id: 7,
+      contractAddress,
+      chainId: 1,
+      fromBlock: 100,
+      toBlock: 199,
+      lastBlock: null as number | null,
+      status: 'running' as const,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    beforeEach(() => {
+      mockStorage.findBackfillJob = vi.fn().mockResolvedValue(null);
+      mockStorage.createBackfillJob = vi.fn().mockResolvedValue(job);
+      mockStorage.completeBackfillJob = vi.fn().mockResolvedValue(undefined);
+      vi.spyOn(indexer, 'indexBlocks').mockResolvedValue(4);
+    });
+
+    it('should create a job and index the whole range', async () => {
+      const result = await indexer.backfill(config.contracts[0], 100, 199);
+
+      expect(mockStorage.findBackfillJob).toHaveBeenCalledWith(contractAddress, 1, 100, 199);
+      expect(mockStorage.createBackfillJob).toHaveBeenCalledWith(contractAddress, 1, 100, 199);
+      expect(indexer.indexBlocks).toHaveBeenCalledWith(
+        config.contracts[0], 100, 199, { backfillJobId: 7 }
+      );
+      expect(mockStorage.completeBackfillJob).toHaveBeenCalledWith(7);
+      expect(result.status).toBe('completed');
+      expect(result.newEvents).toBe(4);
+    });
+
+    it('should resume after the last committed chunk', async () => {
+      mockStorage.findBackfillJob.mockResolvedValue({ ...job, lastBlock: 149 });
+
+      await indexer.backfill(config.contracts[0], 100, 199);
+
+      expect(mockStorage.createBackfillJob).not.toHaveBeenCalled();
+      expect(indexer.indexBlocks).toHaveBeenCalledWith(
+        config.contracts[0], 150, 199, { backfillJobId: 7 }
+      );
+    });
+
+    it('should skip a completed job unless restarted', async () => {
+      mockStorage.findBackfillJob.mockResolvedValue({ ...job, lastBlock: 199, status: 'completed' });
+
+      await indexer.backfill(config.contracts[0], 100, 199);
+      expect(indexer.indexBlocks).not.toHaveBeenCalled();
+
+      await indexer.backfill(config.contracts[0], 100, 199, { restart: true });
+      expect(mockStorage.createBackfillJob).toHaveBeenCalled();
+      expect(indexer.indexBlocks).toHaveBeenCalledWith(
+        config.contracts[0], 100, 199, { backfillJobId: 7 }
+      );
+    });
+
+    it('should resume an open-ended job with its recorded end block', async () => {
+      mockStorage.findBackfillJob.mockResolvedValue({ ...job, lastBlock: 149 });
+
+      await indexer.backfill(config.contracts[0], 100, 250, { openEnded: true });
+
+      expect(mockStorage.findBackfillJob).toHaveBeenCalledWith(contractAddress, 1, 100, undefined);
+      expect(indexer.indexBlocks).toHaveBeenCalledWith(
+        config.contracts[0], 150, 199, { backfillJobId: 7 }
+      );
+    });
+  });
+
+  describe('child contracts', () => {
+    const poolAddress = '0x8ad599c3A0ff1De082011EFDDc58f1908eb6e6D8';
+    const factoryConfig: Config = {
+      ...config,
+      templates: [{
+        name: 'Pool',
+        factory: 'UNI',
+        event: 'Transfer',
+        address_arg: 'to',
+        events: ['Swap'],
+        abi: './abis/pool.json',
+      }],
+    };
+
+    const transferTo = (to: unknown, blockNumber: number) => ({
+      contractAddress: config.contracts[0].address,
+      blockNumber,
+      blockTimestamp: 1700000000,
+      transactionHash: `0xtx${blockNumber}`,
+      logIndex: 0,
+      eventName: 'Transfer',
+      eventData: { from: contractAddress, to, value: '1' },
+    });
+
+    beforeEach(() => {
+      mockStorage.insertChildContracts = vi.fn().mockResolvedValue(undefined);
+      mockStorage.getChildContracts = vi.fn().mockResolvedValue([]);
+      mockStorage.updateSyncStateAndInsertEvents = vi.fn().mockResolvedValue(0);
+    });
+
+    it('should register children from factory events before committing them', async () => {
+      const instance = new Indexer(factoryConfig, mockStorage, unusedPools(), mockLogger);
+      vi.spyOn(instance as any, 'fetchSegment').mockResolvedValue([
+        transferTo(poolAddress, 120),
+        transferTo(poolAddress, 130),
+        transferTo('not-an-address', 140),
+      ]);
+      vi.spyOn(instance as any, 'getContractABI').mockResolvedValue(new Interface(ERC20_ABI));
+
+      await instance.indexBlocks(config.contracts[0], 100, 149);
+
+      expect(mockStorage.insertChildContracts).toHaveBeenCalledTimes(1);
+      expect(mockStorage.insertChildContracts).toHaveBeenCalledWith([{
+        address: poolAddress.toLowerCase(),
+        chainId: 1,
+        template: 'Pool',
+        factoryAddress: contractAddress,
+        createdBlock: 120,
+      }]);
+      expect(mockStorage.insertChildContracts.mock.invocationCallOrder[0])
+        .toBeLessThan(mockStorage.updateSyncStateAndInsertEvents.mock.invocationCallOrder[0]);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ argument: 'to' }),
+        'Factory event argument is not an address'
+      );
+    });
+
+    it('should not register children for contracts that are not factories', async () => {
+      const instance = new Indexer(config, mockStorage, unusedPools(), mockLogger);
+      vi.spyOn(instance as any, 'fetchSegment').mockResolvedValue([transferTo(poolAddress, 120)]);
+      vi.spyOn(instance as any, 'getContractABI').mockResolvedValue(new Interface(ERC20_ABI));
+
+      await instance.indexBlocks(config.contracts[0], 100, 149);
+
+      expect(mockStorage.insertChildContracts).not.toHaveBeenCalled();
+    });
+
+    it('should build child contract configs from their templates', async () => {
+      mockStorage.getChildContracts.mockResolvedValue([
+        { address: '0xaaaa', chainId: 1, template: 'Pool', factoryAddress: contractAddress, createdBlock: 120 },
+        { address: '0xbbbb', chainId: 1, template: 'Removed', factoryAddress: contractAddress, createdBlock: 130 },
+        { address: '0xcccc', chainId: 10, template: 'Pool', factoryAddress: contractAddress, createdBlock: 140 },
+      ]);
+      const instance = new Indexer(factoryConfig, mockStorage, unusedPools(), mockLogger);
+
+      const configs = await instance.getChildContractConfigs();
+
+      expect(configs).toEqual([{
+        address: '0xaaaa',
+        name: 'Pool 0xaaaa',
+        events: ['Swap'],
+        from_block: 120,
+        abi: './abis/pool.json',
+        chain: 'ethereum',
+      }]);
+    });
+  });
+
+  describe('watch with a new heads subscription', () => {
+    let stub: WsRpcStub;
+    let watcher: Indexer;
+    let getBlockNumber: ReturnType<typeof vi.fn>;
+
+    const createWatcher = (
+      subscriptionUrl: string | null,
+      overrides: Partial<Config> = {},
+      otherPools: Array<[Chain, unknown]> = []
+    ) => {
+      getBlockNumber = vi.fn().mockResolvedValue(100);
+      const providerPool = {
+        getSubscriptionUrl: () => subscriptionUrl,
+        getProvider: vi.fn(async () => ({ ...providerInfo(), provider: { getBlockNumber } })),
+        reportSuccess: vi.fn(),
+        reportFailure: vi.fn(),
+      };
+      const watchConfig: Config = {
+        ...config,
+        ...overrides,
+        options: { ...config.options, poll_interval: 60000 },
+      };
+
+      watcher = new Indexer(
+        watchConfig,
+        mockStorage,
+        new Map([['ethereum', providerPool], ...otherPools] as Array<[Chain, any]>),
+        mockLogger
+      );
+      vi.spyOn(watcher, 'checkForReorg').mockResolvedValue(null);
+      vi.spyOn(watcher, 'indexBlocks').mockResolvedValue(undefined);
+    };
+
+    beforeEach(async () => {
+      stub = await startWsRpcStub();
+      mockStorage.getLastSyncedBlock = vi.fn().mockResolvedValue(null);
+    });
+
+    afterEach(async () => {
+      await watcher.stop();
+      await stub.close();
+    });
+
+    it('should index as soon as a new head arrives', async () => {
+      createWatcher(stub.url);
+
+      await watcher.startWatch();
+      expect(getBlockNumber).toHaveBeenCalledTimes(1);
+
+      stub.sendNewHead(101);
+
+      await vi.waitFor(() => expect(getBlockNumber).toHaveBeenCalledTimes(2));
+    });
+
+    it('should fall back to polling when the subscription cannot be established', async () => {
+      const url = stub.url;
+      await stub.close();
+      stub = await startWsRpcStub();
+      createWatcher(url);
+
+      await watcher.startWatch();
+
+      expect(getBlockNumber).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.any(String) }),
+        'Failed to subscribe to new heads, falling back to polling'
+      );
+    });
+
+    it('should only wake contracts on the chain of the new head', async () => {
+      const polygonBlockNumber = vi.fn().mockResolvedValue(100);
+      const polygonPool = {
+        getSubscriptionUrl: () => null,
+        getProvider: vi.fn(async () => ({ ...providerInfo(), provider: { getBlockNumber: polygonBlockNumber } })),
+        reportSuccess: vi.fn(),
+        reportFailure: vi.fn(),
+      };
+      createWatcher(stub.url, {
+        contracts: [...config.contracts, { ...config.contracts[0], chain: 'polygon' }],
+        chains: { polygon: { providers: [{ url: 'http://localhost:8546', priority: 1 }] } },
+      }, [['polygon', polygonPool]]);
+
+      await watcher.startWatch();
+      stub.sendNewHead(101);
+
+      await vi.waitFor(() => expect(getBlockNumber).toHaveBeenCalledTimes(2));
+      expect(polygonBlockNumber).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to polling when the subscription drops', async () => {
+      createWatcher(stub.url);
+      await watcher.startWatch();
+
+      stub.dropConnections();
+
+      await vi.waitFor(() => expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.any(Object),
+        'WebSocket subscription dropped, falling back to polling'
+      ));
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parquetReadObjects } from 'hyparquet';
+import { exportEvents } from '../../../src/export/exporter.js';
+import { DecodedEvent } from '../../../src/core/types.js';
+
+describe('exportEvents', () => {
+  let tempDir: string;
+
+  const makeEvent = (overrides: Partial<DecodedEvent> = {}): DecodedEvent => ({
+    contractAddress: '0x1234',
+    blockNumber: 100,
+    blockTimestamp: 1700000000,
+    transactionHash: '0xabc',
+    logIndex: 0,
+    eventName: 'Transfer',
+    eventData: { from: '0x111', to: '0x222', value: '100' },
+    chainId: 1,
+    ...overrides
+  });
+
+  async function* stream(events: DecodedEvent[]): AsyncGenerator<DecodedEvent> {
+    yield* events;
+  }
+
+  const readParquet = async (file: string) => {
+    const buffer = fs.readFileSync(file);
+    return parquetReadObjects({ file: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) });
+  };
+
+  const events = [
+    makeEvent({ transactionHash: '0xa1' }),
+    makeEvent({ blockNumber: 150, transactionHash: '0xa2', eventName: 'Approval', eventData: { owner: '0x111', spender: '0x333', value: '5' } }),
+    makeEvent({ blockNumber: 210, transactionHash: '0xa3', eventData: { from: '0x222', to: '0x111', value: '115792089237316195423570985008687907853269984665640564039457584007913129639935' } }),
+  ];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaintap-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write every event to one NDJSON file', async () => {
+    const output = path.join(tempDir, 'events.ndjson');
+
+    const result = await exportEvents(stream(events), { format: 'ndjson', output });
+
+    expect(result).toEqual({ files: [{ path: output, events: 3 }], events: 3 });
+    const lines = fs.readFileSync(output, 'utf-8').trimEnd().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual(events);
+  });
+
+  it('should partition CSV files by event name and block range', async () => {
+    const result = await exportEvents(stream(events), {
+      format: 'csv',
+      output: tempDir,
+      partitionBy: ['event', 'block'],
+      partitionBlocks: 100,
+    });
+
+    expect(result.files).toEqual([
+      { path: path.join(tempDir, 'Transfer', 'blocks-100-199.csv'), events: 1 },
+      { path: path.join(tempDir, 'Approval', 'blocks-100-199.csv'), events: 1 },
+      { path: path.join(tempDir, 'Transfer', 'blocks-200-299.csv'), events: 1 },
+    ]);
+    const rows = fs.readFileSync(path.join(tempDir, 'Transfer', 'blocks-200-299.csv'), 'utf-8').trimEnd().split('\n');
+    expect(rows[0]).toBe('chainId,blockNumber,blockTimestamp,transactionHash,logIndex,contractAddress,eventName,eventData');
+    expect(rows).toHaveLength(2);
+  });
+
+  it('should write a Parquet file per event name with a column per eventData field', async () => {
+    const result = await exportEvents(stream(events), { format: 'parquet', output: tempDir });
+
+    expect(result.files.map(file => path.basename(file.path)).sort()).toEqual(['Approval.parquet', 'Transfer.parquet']);
+    const transfers = await readParquet(path.join(tempDir, 'Transfer.parquet'));
+    expect(transfers).toEqual([
+      {
+        chain_id: 1,
+        contract_address: '0x1234',
+        block_number: 100n,
+        block_timestamp: 1700000000n,
+        transaction_hash: '0xa1',
+        log_index: 0,
+        event_name: 'Transfer',
+        from: '0x111',
+        to: '0x222',
+        value: '100',
+      },
+      expect.objectContaining({
+        block_number: 210n,
+        value: '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+      }),
+    ]);
+  });
+
+  it('should write events of one name with different fields to numbered Parquet files', async () => {
+    const result = await exportEvents(stream([
+      makeEvent({ transactionHash: '0xa1' }),
+      makeEvent({ transactionHash: '0xa2', eventData: { from: '0x111', to: '0x222', tokenId: '7' } }),
+      makeEvent({ transactionHash: '0xa3', eventData: { from: '0x111', to: '0x222', approved: true, ids: ['1', '2'] } }),
+    ]), { format: 'parquet', output: tempDir });
+
+    expect(result.files.map(file => path.basename(file.path)).sort())
+      .toEqual(['Transfer-2.parquet', 'Transfer-3.parquet', 'Transfer.parquet']);
+    expect(await readParquet(path.join(tempDir, 'Transfer-3.parquet'))).toEqual([
+      expect.objectContaining({ approved: true, ids: ['1', '2'] }),
+    ]);
+  });
+
+  it('should write no files when there are no events', async () => {
+    const result = await exportEvents(stream([]), { format: 'parquet', output: tempDir });
+
+    expect(result).toEqual({ files: [], events: 0 });
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+
+  it('should refuse events that arrive after their block range was closed', async () => {
+    await expect(exportEvents(stream([events[2], events[0]]), {
+      format: 'ndjson',
+      output: tempDir,
+      partitionBy: ['block'],
+      partitionBlocks: 100,
+    })).rejects.toThrow(/block order/);
+  });
+});
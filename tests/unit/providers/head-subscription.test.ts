@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HeadSubscription } from '../../../src/providers/head-subscription.js';
+import { startWsRpcStub, WsRpcStub } from '../../fixtures/ws-rpc-stub.js';
+
+describe('HeadSubscription', () => {
+  let stub: WsRpcStub;
+  let subscription: HeadSubscription | null;
+  let onBlock: ReturnType<typeof vi.fn>;
+  let onClose: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    stub = await startWsRpcStub();
+    subscription = null;
+    onBlock = vi.fn();
+    onClose = vi.fn();
+  });
+
+  afterEach(async () => {
+    await subscription?.stop();
+    await stub.close();
+  });
+
+  it('should subscribe to newHeads and report block numbers', async () => {
+    subscription = new HeadSubscription(stub.url, { onBlock, onClose });
+    await subscription.start();
+
+    expect(subscription.isActive()).toBe(true);
+    expect(stub.requests).toEqual([{ method: 'eth_subscribe', params: ['newHeads'] }]);
+
+    stub.sendNewHead(101);
+    await vi.waitFor(() => expect(onBlock).toHaveBeenCalledWith(101));
+  });
+
+  it('should report a dropped connection', async () => {
+    subscription = new HeadSubscription(stub.url, { onBlock, onClose });
+    await subscription.start();
+
+    stub.dropConnections();
+
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalledWith(expect.any(Error)));
+    expect(subscription.isActive()).toBe(false);
+  });
+
+  it('should not report a close requested with stop', async () => {
+    subscription = new HeadSubscription(stub.url, { onBlock, onClose });
+    await subscription.start();
+
+    await subscription.stop();
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('should reject when the node refuses the subscription', async () => {
+    await stub.close();
+    stub = await startWsRpcStub({
+      eth_subscribe: () => {
+        throw new Error('notifications not supported');
+      },
+    });
+    subscription = new HeadSubscription(stub.url, { onBlock, onClose });
+
+    await expect(subscription.start()).rejects.toThrow(/notifications not supported/);
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('should reject when the server is unreachable', async () => {
+    const url = stub.url;
+    await stub.close();
+    stub = await startWsRpcStub();
+    subscription = new HeadSubscription(url, { onBlock, onClose });
+
+    await expect(subscription.start()).rejects.toThrow(/closed/);
+  });
+
+  it('should time out when the subscription is never confirmed', async () => {
+    await stub.close();
+    stub = await startWsRpcStub({ eth_subscribe: () => new Promise(() => undefined) });
+    subscription = new HeadSubscription(stub.url, { onBlock, onClose }, 100);
+
+    await expect(subscription.start()).rejects.toThrow(/Timed out/);
+  });
+});
@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ProviderPool } from '../../../src/providers/provider-pool.js';
 import type { ProviderHealth } from '../../../src/providers/provider-pool.js';
+import { WebSocketRpcProvider } from '../../../src/providers/websocket-provider.js';
+import { startWsRpcStub, WsRpcStub } from '../../fixtures/ws-rpc-stub.js';
 
 describe('ProviderPool', () => {
   const mockProviders = [
@@ -210,6 +212,20 @@ describe('ProviderPool', () => {
       expect(health?.consecutiveFailures).toBe(0);
       expect(health?.healthy).toBe(true);
     });
+
+    it('counts selections and total failures across recoveries', async () => {
+      const provider = await pool.getProvider();
+      await pool.getProvider();
+
+      await pool.reportFailure(provider.id, new Error('Test error'));
+      await pool.reportSuccess(provider.id);
+      await pool.reportFailure(provider.id, new Error('Test error'));
+
+      const health = pool.getHealthStatus();
+      expect(health.reduce((sum, h) => sum + h.selections, 0)).toBe(2);
+      expect(health.find((h) => h.id === provider.id)?.totalFailures).toBe(2);
+      expect(health.find((h) => h.id === provider.id)?.consecutiveFailures).toBe(1);
+    });
   });
 
   describe('health recovery cooldown', () => {
@@ -347,4 +363,76 @@ describe('ProviderPool', () => {
       await expect(pool2.getProvider()).rejects.toThrow('No healthy providers available');
     });
   });
+
+  describe('WebSocket providers', () => {
+    let stub: WsRpcStub;
+    let wsPool: ProviderPool;
+
+    beforeEach(async () => {
+      stub = await startWsRpcStub();
+      wsPool = new ProviderPool(
+        [
+          { url: 'http://localhost:8545', priority: 1 },
+          { url: stub.url, priority: 2 },
+        ],
+        { cooldownPeriod: 0 }
+      );
+    });
+
+    afterEach(async () => {
+      await wsPool.destroy();
+      await stub.close();
+    });
+
+    const getWebSocketProvider = async () => {
+      const provider = await wsPool.getProvider();
+      expect(provider.url).toBe(stub.url);
+      return provider;
+    };
+
+    it('should create WebSocket providers for ws:// URLs', async () => {
+      const provider = await getWebSocketProvider();
+
+      expect(provider.provider).toBeInstanceOf(WebSocketRpcProvider);
+      expect(await provider.provider.getBlockNumber()).toBe(100);
+    });
+
+    it('should prefer WebSocket providers for subscriptions', () => {
+      expect(wsPool.getSubscriptionUrl()).toBe(stub.url);
+      expect(pool.getSubscriptionUrl()).toBeNull();
+    });
+
+    it('should fail pending requests and mark the provider unhealthy when the socket drops', async () => {
+      await stub.close();
+      stub = await startWsRpcStub({ eth_blockNumber: () => new Promise(() => undefined) });
+      await wsPool.destroy();
+      wsPool = new ProviderPool([{ url: stub.url, priority: 1 }], { cooldownPeriod: 0 });
+
+      const provider = await wsPool.getProvider();
+      const pending = provider.provider.getBlockNumber();
+      await vi.waitFor(() => expect(stub.requests.map(r => r.method)).toContain('eth_blockNumber'));
+
+      stub.dropConnections();
+
+      await expect(pending).rejects.toThrow(/closed/);
+      const [health] = wsPool.getHealthStatus();
+      expect(health.healthy).toBe(false);
+      expect(health.lastError).toMatch(/closed/);
+    });
+
+    it('should reconnect a dropped provider when it is selected again', async () => {
+      await wsPool.destroy();
+      wsPool = new ProviderPool([{ url: stub.url, priority: 1 }], { cooldownPeriod: 0 });
+
+      const first = await getWebSocketProvider();
+      await first.provider.getBlockNumber();
+
+      stub.dropConnections();
+      await vi.waitFor(() => expect(wsPool.getHealthStatus()[0].healthy).toBe(false));
+
+      const second = await getWebSocketProvider();
+      expect(second.provider).not.toBe(first.provider);
+      expect(await second.provider.getBlockNumber()).toBe(100);
+    });
+  });
 });
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, unlinkSync } from 'fs';
+import { ApiServer } from '../../../src/server/api-server.js';
+import { SQLiteAdapter } from '../../../src/storage/sqlite.js';
+import { parseConfig } from '../../../src/cli/config.js';
+import { DecodedEvent } from '../../../src/core/types.js';
+import { Logger } from '../../../src/utils/logger.js';
+
+describe('ApiServer', () => {
+  const testDbPath = './test-api-server.db';
+  const contractAddress = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+
+  const config = parseConfig(`
+chain: ethereum
+database:
+  type: sqlite
+  path: ${testDbPath}
+contracts:
+  - address: "${contractAddress}"
+    name: "UNI"
+    events:
+      - Transfer
+      - Approval
+providers:
+  - url: "https://eth.llamarpc.com"
+`);
+
+  let storage: SQLiteAdapter;
+  let server: ApiServer;
+  let baseUrl: string;
+
+  const cleanup = () => {
+    for (const file of [testDbPath, `${testDbPath}-shm`, `${testDbPath}-wal`]) {
+      if (existsSync(file)) {
+        unlinkSync(file);
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    cleanup();
+    storage = new SQLiteAdapter(testDbPath);
+    await storage.init();
+
+    const events: DecodedEvent[] = [100, 101, 102].map(blockNumber => ({
+      contractAddress,
+      blockNumber,
+      blockTimestamp: 1700000000 + blockNumber,
+      transactionHash: `0xtx${blockNumber}`,
+      logIndex: 0,
+      eventName: blockNumber === 102 ? 'Approval' : 'Transfer',
+      eventData: { to: blockNumber === 101 ? '0xAbC' : '0xdef', value: String(blockNumber) },
+    }));
+    await storage.updateSyncStateAndInsertEvents(contractAddress.toLowerCase(), 1, 150, events);
+
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any as Logger;
+    server = new ApiServer(config, storage, logger, { port: 0 });
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getAddress().port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await storage.close();
+    cleanup();
+  });
+
+  const get = async (path: string) => {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  describe('GET /health', () => {
+    it('should report ok', async () => {
+      const { status, body } = await get('/health');
+      expect(status).toBe(200);
+      expect(body.status).toBe('ok');
+    });
+  });
+
+  describe('GET /events', () => {
+    it('should return events with pagination', async () => {
+      const { status, body } = await get('/events?limit=2');
+      expect(status).toBe(200);
+      expect(body.events.map((e: DecodedEvent) => e.blockNumber)).toEqual([100, 101]);
+      expect(body.pagination).toEqual({ limit: 2, offset: 0, count: 2, nextOffset: 2 });
+    });
+
+    it('should return the last page without a next offset', async () => {
+      const { body } = await get('/events?limit=2&offset=2');
+      expect(body.events).toHaveLength(1);
+      expect(body.pagination.nextOffset).toBeNull();
+    });
+
+    it('should apply EventFilter parameters', async () => {
+      const { body } = await get(
+        `/events?contract=UNI&event=Transfer&fromBlock=101&toBlock=102`
+      );
+      expect(body.events.map((e: DecodedEvent) => e.blockNumber)).toEqual([101]);
+    });
+
+    it('should filter on decoded event arguments', async () => {
+      const { body } = await get('/events?arg.to=0xabc');
+      expect(body.events.map((e: DecodedEvent) => e.blockNumber)).toEqual([101]);
+    });
+
+    it('should filter by chain', async () => {
+      expect((await get('/events?chain=ethereum')).body.events).toHaveLength(3);
+      expect((await get('/events?chain=polygon')).body.events).toHaveLength(0);
+    });
+
+    it('should reject invalid parameters', async () => {
+      expect((await get('/events?limit=-1')).status).toBe(400);
+      expect((await get('/events?limit=5000')).status).toBe(400);
+      expect((await get('/events?contract=unknown')).status).toBe(400);
+      expect((await get('/events?chain=solana')).status).toBe(400);
+    });
+
+    it('should reject argument filters that are not argument paths', async () => {
+      const { status, body } = await get('/events?arg.a..b=1');
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/arg\.a\.\.b must name an argument/);
+      expect((await get('/events?arg.order.=1')).status).toBe(400);
+    });
+  });
+
+  describe('GET /contracts/:address/status', () => {
+    it('should return sync state and event counts', async () => {
+      const { status, body } = await get(`/contracts/${contractAddress}/status`);
+      expect(status).toBe(200);
+      expect(body).toMatchObject({
+        contractAddress: contractAddress.toLowerCase(),
+        chainId: 1,
+        lastBlock: 150,
+        eventCounts: { Transfer: 2, Approval: 1 },
+      });
+    });
+
+    it('should look up the sync state on the requested chain', async () => {
+      const { status, body } = await get(`/contracts/UNI/status?chain=polygon`);
+      expect(status).toBe(404);
+      expect(body.error).toMatch(/polygon/);
+    });
+
+    it('should return 404 for contracts that have not been synced', async () => {
+      const { status } = await get('/contracts/0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48/status');
+      expect(status).toBe(404);
+    });
+  });
+
+  it('should return 404 for unknown routes', async () => {
+    expect((await get('/nope')).status).toBe(404);
+  });
+});
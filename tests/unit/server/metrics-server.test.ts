@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MetricsServer } from '../../../src/server/metrics-server.js';
+import { Metrics } from '../../../src/utils/metrics.js';
+import { Logger } from '../../../src/utils/logger.js';
+
+describe('MetricsServer', () => {
+  let metrics: Metrics;
+  let server: MetricsServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+    metrics = new Metrics();
+    server = new MetricsServer(metrics, logger, { port: 0 });
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getAddress().port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should serve metrics in the Prometheus text format', async () => {
+    metrics.eventsIndexed.inc({ chain: 'ethereum', contract: 'UNI' }, 3);
+
+    const response = await fetch(`${baseUrl}/metrics`);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(body).toContain('# TYPE chaintap_events_indexed_total counter');
+    expect(body).toContain('chaintap_events_indexed_total{chain="ethereum",contract="UNI"} 3');
+    expect(body).toContain('process_cpu_seconds_total');
+  });
+
+  it('should return 404 for other paths', async () => {
+    const response = await fetch(`${baseUrl}/events`);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { KafkaSink } from '../../../src/sinks/kafka.js';
+import { SQLiteAdapter } from '../../../src/storage/sqlite.js';
+import { KafkaSinkConfig } from '../../../src/cli/config.js';
+
+/**
+ * In-memory stand-in for a broker: sends and offsets only become visible on commit
+ */
+function createFakeKafka() {
+  const broker = {
+    messages: [] as Array<{ topic: string; key: string; value: string; headers: Record<string, string> }>,
+    offsets: new Map<string, string>(),
+    failNextCommit: null as null | 'before' | 'after',
+    transactionalIds: [] as string[],
+  };
+
+  const kafka = {
+    producer: vi.fn((config: { transactionalId: string }) => {
+      broker.transactionalIds.push(config.transactionalId);
+      return {
+        connect: vi.fn(async () => undefined),
+        disconnect: vi.fn(async () => undefined),
+        transaction: vi.fn(async () => {
+          let staged: typeof broker.messages = [];
+          let stagedOffset: { group: string; offset: string } | null = null;
+          return {
+            send: vi.fn(async ({ topic, messages }: any) => {
+              staged.push(...messages.map((m: any) => ({ topic, ...m })));
+            }),
+            sendOffsets: vi.fn(async ({ consumerGroupId, topics }: any) => {
+              stagedOffset = { group: consumerGroupId, offset: topics[0].partitions[0].offset };
+            }),
+            commit: vi.fn(async () => {
+              const failure = broker.failNextCommit;
+              broker.failNextCommit = null;
+              if (failure === 'before') {
+                throw new Error('coordinator not available');
+              }
+              broker.messages.push(...staged);
+              broker.offsets.set(stagedOffset!.group, stagedOffset!.offset);
+              if (failure === 'after') {
+                throw new Error('request timed out');
+              }
+            }),
+            abort: vi.fn(async () => {
+              staged = [];
+              stagedOffset = null;
+            }),
+          };
+        }),
+      };
+    }),
+    admin: vi.fn(() => ({
+      connect: vi.fn(async () => undefined),
+      disconnect: vi.fn(async () => undefined),
+      fetchOffsets: vi.fn(async ({ groupId, topics }: any) => [{
+        topic: topics[0],
+        partitions: [{ partition: 0, offset: broker.offsets.get(groupId) ?? '-1' }],
+      }]),
+    })),
+  };
+
+  return { kafka, broker };
+}
+
+describe('KafkaSink', () => {
+  let storage: SQLiteAdapter;
+  let sink: KafkaSink | null;
+  let fake: ReturnType<typeof createFakeKafka>;
+  let mockLogger: any;
+  let progressGroup: string;
+
+  const config: KafkaSinkConfig = {
+    type: 'kafka',
+    name: 'platform',
+    brokers: ['localhost:9092'],
+    topic: 'chaintap.events',
+    client_id: 'chaintap',
+    ssl: false,
+    max_retry_delay: 20,
+  };
+
+  const event = (blockNumber: number, logIndex: number) => ({
+    contractAddress: '0x1F9840a85d5aF5bf1D1762F925BDADdC4201F984',
+    blockNumber,
+    blockTimestamp: 1700000000,
+    transactionHash: `0x${blockNumber.toString(16)}`,
+    logIndex,
+    eventName: 'Transfer',
+    eventData: { value: '100' },
+    chainId: 1,
+  });
+
+  const queue = async (blockNumber: number) => {
+    const batch = {
+      chainId: 1,
+      contractAddress: '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984',
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+      events: [event(blockNumber, 0), event(blockNumber, 1)],
+    };
+    await storage.updateSyncStateAndInsertEvents(batch.contractAddress, 1, blockNumber, batch.events, [], [
+      { sink: 'platform', payload: JSON.stringify(batch) },
+    ]);
+    sink?.onCommit(batch);
+  };
+
+  const outboxDrained = () => vi.waitFor(async () => {
+    expect(await storage.getOutboxDeliveries('platform', 10)).toEqual([]);
+  });
+
+  beforeEach(async () => {
+    storage = new SQLiteAdapter(':memory:');
+    await storage.init();
+    progressGroup = `chaintap-platform-outbox-${await storage.getDatabaseId()}`;
+    fake = createFakeKafka();
+    sink = null;
+    mockLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  });
+
+  afterEach(async () => {
+    await sink?.stop();
+    await storage.close();
+  });
+
+  it('should publish each event keyed by contract and event name', async () => {
+    sink = new KafkaSink(config, storage, mockLogger, fake.kafka as any);
+    await sink.start();
+
+    await queue(100);
+    await outboxDrained();
+
+    expect(fake.broker.transactionalIds).toEqual(['chaintap-platform']);
+    expect(fake.broker.messages).toEqual([0, 1].map(logIndex => ({
+      topic: 'chaintap.events',
+      key: '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984:Transfer',
+      value: JSON.stringify(event(100, logIndex)),
+      headers: { 'chaintap-block-number': '100', 'chaintap-log-index': String(logIndex) },
+    })));
+    expect(fake.broker.offsets.get(progressGroup)).toBe('1');
+  });
+
+  it('should not publish batches that a previous run already published', async () => {
+    await queue(100);
+    await queue(101);
+    // A previous run published batch 1 but crashed before removing it from the outbox
+    fake.broker.offsets.set(progressGroup, '1');
+
+    sink = new KafkaSink(config, storage, mockLogger, fake.kafka as any);
+    await sink.start();
+    await outboxDrained();
+
+    expect(fake.broker.messages.map(m => m.headers['chaintap-block-number'])).toEqual(['101', '101']);
+  });
+
+  it('should publish batches that committed after a batch with a higher outbox ID', async () => {
+    await queue(100);
+    await queue(101);
+    // Batch 2 was published while batch 1's transaction, which took its ID first, was still open
+    fake.broker.offsets.set(progressGroup, '2');
+
+    sink = new KafkaSink(config, storage, mockLogger, fake.kafka as any);
+    await sink.start();
+    await outboxDrained();
+
+    expect(fake.broker.messages.map(m => m.headers['chaintap-block-number'])).toEqual(['100', '100']);
+    expect(fake.broker.offsets.get(progressGroup)).toBe('1');
+  });
+
+  it('should not skip batches of a new database whose outbox IDs start over', async () => {
+    fake.broker.offsets.set('chaintap-platform-outbox-previous-database', '5');
+    await queue(100);
+
+    sink = new KafkaSink(config, storage, mockLogger, fake.kafka as any);
+    await sink.start();
+    await outboxDrained();
+
+    expect(fake.broker.messages).toHaveLength(2);
+  });
+
+  it('should not publish twice when a commit succeeds but its response is lost', async () => {
+    fake.broker.failNextCommit = 'after';
+    sink = new KafkaSink(config, storage, mockLogger, fake.kafka as any);
+    await sink.start();
+
+    await queue(100);
+    await outboxDrained();
+
+    expect(fake.broker.messages).toHaveLength(2);
+    expect(fake.kafka.producer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry a batch whose transaction failed', async () => {
+    fake.broker.failNextCommit = 'before';
+    sink = new KafkaSink(config, storage, mockLogger, fake.kafka as any);
+    await sink.start();
+
+    await queue(100);
+    await outboxDrained();
+
+    expect(fake.broker.messages).toHaveLength(2);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ error: 'Failed to publish to Kafka: coordinator not available' }),
+      'Sink delivery failed, will retry'
+    );
+  });
+});
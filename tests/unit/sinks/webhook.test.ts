@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebhookSink, signWebhookPayload } from '../../../src/sinks/webhook.js';
+import { SQLiteAdapter } from '../../../src/storage/sqlite.js';
+import { WebhookSinkConfig } from '../../../src/cli/config.js';
+import { startHttpReceiver, HttpReceiver } from '../../fixtures/http-receiver.js';
+
+describe('WebhookSink', () => {
+  let storage: SQLiteAdapter;
+  let receiver: HttpReceiver;
+  let sink: WebhookSink | null;
+  let mockLogger: any;
+
+  const batch = (fromBlock: number) => ({
+    chainId: 1,
+    contractAddress: '0x1234',
+    fromBlock,
+    toBlock: fromBlock + 9,
+    events: [{
+      contractAddress: '0x1234',
+      blockNumber: fromBlock,
+      blockTimestamp: 1700000000,
+      transactionHash: `0x${fromBlock.toString(16)}`,
+      logIndex: 0,
+      eventName: 'Transfer',
+      eventData: { value: '100' },
+      chainId: 1,
+    }],
+  });
+
+  const commit = async (fromBlock: number) => {
+    const payload = JSON.stringify(batch(fromBlock));
+    await storage.updateSyncStateAndInsertEvents('0x1234', 1, fromBlock + 9, batch(fromBlock).events, [], [
+      { sink: 'backend', payload },
+    ]);
+    sink?.onCommit(batch(fromBlock));
+    return payload;
+  };
+
+  const createSink = (overrides: Partial<WebhookSinkConfig> = {}) => new WebhookSink({
+    type: 'webhook',
+    name: 'backend',
+    url: receiver.url,
+    secret: 'shh',
+    timeout: 1000,
+    max_retry_delay: 50,
+    ...overrides,
+  }, storage, mockLogger);
+
+  beforeEach(async () => {
+    storage = new SQLiteAdapter(':memory:');
+    await storage.init();
+    receiver = await startHttpReceiver();
+    sink = null;
+    mockLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  });
+
+  afterEach(async () => {
+    await sink?.stop();
+    await receiver.close();
+    await storage.close();
+  });
+
+  it('should POST committed batches signed with the secret', async () => {
+    sink = createSink();
+    await sink.start();
+
+    const payload = await commit(100);
+
+    await vi.waitFor(async () => {
+      expect(await storage.getOutboxDeliveries('backend', 10)).toEqual([]);
+    });
+    expect(receiver.requests).toHaveLength(1);
+
+    const [request] = receiver.requests;
+    expect(request.method).toBe('POST');
+    expect(request.body).toBe(payload);
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-chaintap-delivery']).toMatch(/^\d+$/);
+    const timestamp = request.headers['x-chaintap-timestamp'] as string;
+    expect(request.headers['x-chaintap-signature']).toBe(
+      `sha256=${signWebhookPayload('shh', timestamp, payload)}`
+    );
+  });
+
+  it('should deliver batches queued before it started', async () => {
+    await commit(100);
+    await commit(110);
+
+    sink = createSink();
+    await sink.start();
+
+    await vi.waitFor(() => expect(receiver.requests).toHaveLength(2));
+    expect(receiver.requests.map(r => JSON.parse(r.body).fromBlock)).toEqual([100, 110]);
+  });
+
+  it('should retry failed deliveries in order until they succeed', async () => {
+    receiver.respondWith(503);
+    sink = createSink();
+    await sink.start();
+
+    await commit(100);
+    await commit(110);
+
+    await vi.waitFor(() => expect(receiver.requests.length).toBeGreaterThanOrEqual(2));
+    const [failed] = await storage.getOutboxDeliveries('backend', 10);
+    expect(failed.lastError).toBe('Webhook responded with HTTP 503');
+    expect(receiver.requests.every(r => JSON.parse(r.body).fromBlock === 100)).toBe(true);
+
+    receiver.respondWith(200);
+
+    await vi.waitFor(async () => {
+      expect(await storage.getOutboxDeliveries('backend', 10)).toEqual([]);
+    });
+    const delivered = receiver.requests.slice(-2).map(r => JSON.parse(r.body).fromBlock);
+    expect(delivered).toEqual([100, 110]);
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should keep batches queued after it stops', async () => {
+    receiver.respondWith(500);
+    sink = createSink({ max_retry_delay: 60000 });
+    await sink.start();
+    await commit(100);
+
+    await vi.waitFor(() => expect(receiver.requests).toHaveLength(1));
+    await sink.stop();
+
+    const [queued] = await storage.getOutboxDeliveries('backend', 10);
+    expect(queued.attempts).toBe(1);
+    expect(queued.nextAttemptAt).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { Interface } from 'ethers';
+import { buildEventViews, toSnakeCase } from '../../../src/storage/event-views.js';
+
+describe('event views', () => {
+  const address = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+  describe('toSnakeCase', () => {
+    it('should convert names to lowercase identifiers', () => {
+      expect(toSnakeCase('UniswapV3Factory')).toBe('uniswap_v3_factory');
+      expect(toSnakeCase('tokenId')).toBe('token_id');
+      expect(toSnakeCase('NFTMinted')).toBe('nft_minted');
+      expect(toSnakeCase('My Token')).toBe('my_token');
+      expect(toSnakeCase('_value')).toBe('value');
+      expect(toSnakeCase('1inch')).toBe('_1inch');
+    });
+  });
+
+  describe('buildEventViews', () => {
+    it('should type columns by ABI input', () => {
+      const iface = new Interface([
+        'event Swap(address indexed sender, int24 tick, uint128 liquidity, uint32 time, bool exact, bytes32 id, string memo, uint256[] amounts)',
+      ]);
+
+      const [view] = buildEventViews(address, 'Pool', iface, '*');
+
+      expect(view.name).toBe('pool_swap');
+      expect(view.columns.map(column => [column.name, column.type])).toEqual([
+        ['sender', 'text'],
+        ['tick', 'integer'],
+        ['liquidity', 'numeric'],
+        ['time', 'integer'],
+        ['exact', 'boolean'],
+        ['id', 'text'],
+        ['memo', 'text'],
+        ['amounts', 'json'],
+      ]);
+    });
+
+    it('should rename arguments that collide with base columns or each other', () => {
+      const iface = new Interface(['event Moved(uint256 blockNumber, address block_number, address from_, address from)']);
+
+      const [view] = buildEventViews(address, 'Vault', iface, '*');
+
+      expect(view.columns.map(column => [column.field, column.name])).toEqual([
+        ['blockNumber', 'arg_block_number'],
+        ['block_number', 'arg_block_number_2'],
+        ['from_', 'from'],
+        ['from', 'arg_from'],
+      ]);
+    });
+
+    it('should only build views for configured events and skip overloaded and anonymous ones', () => {
+      const iface = new Interface([
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+        'event Approval(address indexed owner, address indexed spender, uint256 value)',
+        'event Deposit(address indexed user, uint256 amount)',
+        'event Deposit(address indexed user, uint256 amount, uint256 shares)',
+        { type: 'event', name: 'Log', anonymous: true, inputs: [{ name: 'data', type: 'bytes', indexed: false }] },
+      ]);
+
+      expect(buildEventViews(address, 'Token', iface, ['Transfer', { name: 'Transfer' }]).map(view => view.name))
+        .toEqual(['token_transfer']);
+      expect(buildEventViews(address, undefined, iface, '*').map(view => view.name))
+        .toEqual(['contract_5fbdb231_approval', 'contract_5fbdb231_transfer']);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { rmSync } from 'fs';
+import Database from 'better-sqlite3';
+import {
+  Migration,
+  SQLITE_MIGRATIONS,
+  getPendingMigrations,
+  getSchemaVersion,
+  runMigrations,
+} from '../../../src/storage/migrations/index.js';
+import { SQLiteAdapter } from '../../../src/storage/sqlite.js';
+import { StorageError } from '../../../src/utils/errors.js';
+
+describe('migrations', () => {
+  let db: Database.Database;
+
+  const latestVersion = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should number migrations consecutively from 1', () => {
+    expect(SQLITE_MIGRATIONS.map(migration => migration.version))
+      .toEqual(SQLITE_MIGRATIONS.map((_, i) => i + 1));
+  });
+
+  it('should apply every migration to a new database once', () => {
+    expect(getSchemaVersion(db)).toBe(0);
+
+    expect(runMigrations(db)).toEqual(SQLITE_MIGRATIONS);
+    expect(getSchemaVersion(db)).toBe(latestVersion);
+    expect(runMigrations(db)).toEqual([]);
+
+    const tables = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all();
+    expect(tables).toEqual(expect.arrayContaining([{ name: 'events' }, { name: 'sync_state' }]));
+  });
+
+  it('should only apply migrations newer than the schema version', () => {
+    const applied: number[] = [];
+    const migrations: Migration[] = [1, 2, 3].map(version => ({
+      version,
+      description: `Migration ${version}`,
+      up: () => {
+        applied.push(version);
+      },
+    }));
+
+    runMigrations(db, migrations.slice(0, 2));
+    expect(getPendingMigrations(db, migrations).map(migration => migration.version)).toEqual([3]);
+
+    runMigrations(db, migrations);
+    expect(applied).toEqual([1, 2, 3]);
+    expect(getSchemaVersion(db)).toBe(3);
+  });
+
+  it('should roll back a failed migration and keep the ones before it', () => {
+    const migrations: Migration[] = [
+      { version: 1, description: 'Create table', up: d => d.exec('CREATE TABLE a (id INTEGER)') },
+      {
+        version: 2,
+        description: 'Broken',
+        up: d => {
+          d.exec('CREATE TABLE b (id INTEGER)');
+          d.exec('INSERT INTO missing VALUES (1)');
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, migrations)).toThrow(/Failed to apply migration 2 \(Broken\)/);
+
+    expect(getSchemaVersion(db)).toBe(1);
+    const tables = db.prepare(`SELECT name FROM sqlite_master WHERE name IN ('a', 'b')`).all();
+    expect(tables).toEqual([{ name: 'a' }]);
+  });
+
+  it('should refuse a database with a newer schema', () => {
+    runMigrations(db);
+    db.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)')
+      .run(latestVersion + 1, 'From the future', 0);
+
+    expect(() => getPendingMigrations(db)).toThrow(StorageError);
+    expect(() => runMigrations(db)).toThrow(/schema version \d+ is newer than the latest version/);
+  });
+
+  it('should keep SQLiteAdapter from opening a database with a newer schema', async () => {
+    const path = `./test-migrations-${process.pid}.db`;
+    const future = new Database(path);
+    runMigrations(future);
+    future.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)')
+      .run(latestVersion + 1, 'From the future', 0);
+    future.close();
+
+    const adapter = new SQLiteAdapter(path);
+    try {
+      await expect(adapter.init()).rejects.toThrow(/Failed to initialize database: Database schema version/);
+    } finally {
+      await adapter.close();
+      for (const suffix of ['', '-shm', '-wal']) {
+        rmSync(`${path}${suffix}`, { force: true });
+      }
+    }
+  });
+});
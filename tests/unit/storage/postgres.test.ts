@@ -0,0 +1,419 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { newDb } from 'pg-mem';
+import { Interface } from 'ethers';
+import { PostgresAdapter } from '../../../src/storage/postgres.js';
+import { buildEventViews } from '../../../src/storage/event-views.js';
+import { DecodedEvent } from '../../../src/core/types.js';
+import { StorageError } from '../../../src/utils/errors.js';
+
+describe('PostgresAdapter', () => {
+  let adapter: PostgresAdapter;
+
+  let Pool: ReturnType<ReturnType<typeof newDb>['adapters']['createPg']>['Pool'];
+
+  const makeEvent = (overrides: Partial<DecodedEvent> = {}): DecodedEvent => ({
+    contractAddress: '0x1234',
+    blockNumber: 100,
+    blockTimestamp: 1700000000,
+    transactionHash: '0xabc',
+    logIndex: 0,
+    eventName: 'Transfer',
+    eventData: { from: '0x111', to: '0x222', amount: '100' },
+    chainId: 1,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    // Each test gets a fresh in-memory Postgres stand-in; pg-mem does not fully
+    // plan re-runs of CREATE TABLE IF NOT EXISTS, so skip its AST coverage check
+    ({ Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg());
+    adapter = new PostgresAdapter('postgres://localhost/chaintap', Pool);
+    await adapter.init();
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+  });
+
+  describe('init', () => {
+    it('should be idempotent', async () => {
+      await expect(adapter.init()).resolves.toBeUndefined();
+    });
+
+    it('should keep the database ID when initialized again', async () => {
+      const databaseId = await adapter.getDatabaseId();
+      expect(databaseId).toMatch(/^[0-9a-f-]{36}$/);
+
+      await adapter.init();
+      expect(await adapter.getDatabaseId()).toBe(databaseId);
+    });
+  });
+
+  describe('insertEvents', () => {
+    it('should insert batch of events', async () => {
+      const events = Array.from({ length: 50 }, (_, i) => makeEvent({
+        blockNumber: 100 + i,
+        transactionHash: `0x${i.toString().padStart(64, '0')}`,
+        logIndex: i
+      }));
+
+      const count = await adapter.insertEvents(events);
+      expect(count).toBe(50);
+
+      const retrieved = await adapter.queryEvents({ contractAddress: '0x1234' });
+      expect(retrieved).toHaveLength(50);
+    });
+
+    it('should ignore duplicate events', async () => {
+      await adapter.insertEvents([makeEvent()]);
+      await adapter.insertEvents([makeEvent()]);
+
+      // pg-mem reports ignored conflicts as affected rows, so check what was stored
+      const retrieved = await adapter.queryEvents({ contractAddress: '0x1234' });
+      expect(retrieved).toHaveLength(1);
+    });
+
+    it('should store eventData as JSONB', async () => {
+      const eventData = { amount: '1000000000000000000', nested: { array: [1, 2, 3] } };
+      await adapter.insertEvents([makeEvent({ eventData })]);
+
+      const retrieved = await adapter.queryEvents({ contractAddress: '0x1234' });
+      expect(retrieved[0].eventData).toEqual(eventData);
+    });
+  });
+
+  describe('sync state', () => {
+    it('should atomically update sync state and insert events', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 101, [
+        makeEvent(),
+        makeEvent({ blockNumber: 101, transactionHash: '0xdef' })
+      ]);
+
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(101);
+      expect(await adapter.queryEvents({ contractAddress: '0x1234' })).toHaveLength(2);
+    });
+
+    it('should update existing sync state', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 100, []);
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 200, []);
+
+      const syncState = await adapter.getSyncState('0x1234', 1);
+      expect(syncState).toMatchObject({
+        contractAddress: '0x1234',
+        chainId: 1,
+        lastBlock: 200,
+        status: 'active'
+      });
+    });
+
+    it('should return null for unknown contract', async () => {
+      expect(await adapter.getLastSyncedBlock('0xunknown', 1)).toBeNull();
+      expect(await adapter.getSyncState('0xunknown', 1)).toBeNull();
+    });
+  });
+
+  describe('multiple chains', () => {
+    it('should keep sync state and events separate per chain', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 100, [makeEvent()]);
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 137, 200, [
+        makeEvent({ transactionHash: '0xdef', chainId: 137 })
+      ]);
+
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(100);
+      expect(await adapter.getLastSyncedBlock('0x1234', 137)).toBe(200);
+      expect((await adapter.queryEvents({ chainId: 137 })).map(e => e.transactionHash)).toEqual(['0xdef']);
+
+      await adapter.rollbackToBlock('0x1234', 137, 99);
+
+      expect(await adapter.getEventCounts('0x1234', 1)).toEqual({ Transfer: 1 });
+      expect(await adapter.getEventCounts('0x1234', 137)).toEqual({});
+    });
+
+    it('should re-key a database created before multi-chain support', async () => {
+      await adapter.close();
+
+      const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+      const legacy = new Pool();
+      await legacy.query(`
+        CREATE TABLE events (
+          id BIGSERIAL PRIMARY KEY,
+          contract_address TEXT NOT NULL,
+          block_number BIGINT NOT NULL,
+          block_timestamp BIGINT NOT NULL,
+          transaction_hash TEXT NOT NULL,
+          log_index INTEGER NOT NULL,
+          event_name TEXT NOT NULL,
+          event_data JSONB NOT NULL,
+          indexed_at BIGINT NOT NULL,
+          UNIQUE(transaction_hash, log_index)
+        );
+        CREATE TABLE sync_state (
+          contract_address TEXT PRIMARY KEY,
+          chain_id INTEGER NOT NULL,
+          last_block BIGINT NOT NULL,
+          last_sync BIGINT NOT NULL,
+          status TEXT DEFAULT 'active'
+        );
+        CREATE TABLE child_contracts (
+          address TEXT PRIMARY KEY,
+          template TEXT NOT NULL,
+          factory_address TEXT NOT NULL,
+          created_block BIGINT NOT NULL
+        );
+
+        INSERT INTO events (contract_address, block_number, block_timestamp, transaction_hash, log_index, event_name, event_data, indexed_at)
+        VALUES ('0xAbCd', 100, 1700000000, '0xabc', 0, 'Transfer', '{}', 1700000000);
+        INSERT INTO sync_state VALUES ('0xabcd', 137, 150, 1700000000, 'active');
+        INSERT INTO child_contracts VALUES ('0xaaaa', 'Pool', '0xabcd', 120);
+      `);
+
+      adapter = new PostgresAdapter('postgres://localhost/chaintap', Pool);
+      await adapter.init();
+
+      expect(await adapter.getLastSyncedBlock('0xabcd', 137)).toBe(150);
+      expect(await adapter.getEventCounts('0xabcd', 137)).toEqual({ Transfer: 1 });
+      expect(await adapter.getChildContracts()).toEqual([
+        { address: '0xaaaa', chainId: 137, template: 'Pool', factoryAddress: '0xabcd', createdBlock: 120 },
+      ]);
+
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 10, []);
+      expect(await adapter.getLastSyncedBlock('0xabcd', 137)).toBe(150);
+    });
+  });
+
+  describe('rollbackToBlock', () => {
+    it('should remove events and block hashes above the block and rewind sync state', async () => {
+      const events = [100, 101, 102].map(blockNumber => makeEvent({
+        contractAddress: '0xAbCd',
+        blockNumber,
+        transactionHash: `0xtx${blockNumber}`
+      }));
+      const blocks = [100, 101, 102].map(blockNumber => ({
+        blockNumber,
+        blockHash: `0xh${blockNumber}`,
+        parentHash: `0xh${blockNumber - 1}`
+      }));
+
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 102, events, blocks);
+
+      await adapter.rollbackToBlock('0xabcd', 1, 100);
+
+      expect(await adapter.getLastSyncedBlock('0xabcd', 1)).toBe(100);
+      const remaining = await adapter.queryEvents({ contractAddress: '0xAbCd' });
+      expect(remaining.map(e => e.blockNumber)).toEqual([100]);
+      const stored = await adapter.getBlockHashes('0xabcd', 1, 10);
+      expect(stored.map(b => b.blockNumber)).toEqual([100]);
+    });
+
+    it('should drop undelivered events of rolled back blocks', async () => {
+      const batch = (fromBlock: number, toBlock: number, blockNumbers: number[]) => JSON.stringify({
+        chainId: 1,
+        contractAddress: '0x1234',
+        fromBlock,
+        toBlock,
+        events: blockNumbers.map(blockNumber => makeEvent({ blockNumber, transactionHash: `0xtx${blockNumber}` })),
+      });
+      const commit = async (fromBlock: number, toBlock: number, blockNumbers: number[]) => {
+        const payload = batch(fromBlock, toBlock, blockNumbers);
+        await adapter.updateSyncStateAndInsertEvents('0x1234', 1, toBlock, JSON.parse(payload).events, [], [
+          { sink: 'backend', payload },
+        ]);
+      };
+      await commit(100, 109, [105]);
+      await commit(110, 119, [110, 115]);
+      await commit(120, 130, [120]);
+
+      await adapter.rollbackToBlock('0x1234', 1, 112);
+
+      const deliveries = await adapter.getOutboxDeliveries('backend', 10);
+      expect(deliveries.map(d => d.payload)).toEqual([
+        batch(100, 109, [105]),
+        batch(110, 112, [110]),
+      ]);
+    });
+  });
+
+  describe('coverage', () => {
+    it('should merge committed ranges, keep the sync state and trim rolled back blocks', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 399, [], [], [], 300);
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 199, [], [], [], 100);
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 299, [], [], [], 200);
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 599, [], [], [], 500);
+
+      expect(await adapter.getLastSyncedBlock('0xabcd', 1)).toBe(599);
+      expect(await adapter.getCoverage('0xabcd', 1)).toEqual([
+        { fromBlock: 100, toBlock: 399 },
+        { fromBlock: 500, toBlock: 599 },
+      ]);
+
+      await adapter.rollbackToBlock('0xabcd', 1, 150);
+      expect(await adapter.getCoverage('0xabcd', 1)).toEqual([{ fromBlock: 100, toBlock: 150 }]);
+    });
+  });
+
+  describe('backfill jobs', () => {
+    it('should checkpoint, complete and restart a job', async () => {
+      const job = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+      expect(job).toMatchObject({ fromBlock: 100, toBlock: 199, lastBlock: null, status: 'running' });
+
+      expect(await adapter.commitBackfillChunk(job.id, '0x1234', 1, 149, [makeEvent()])).toBe(1);
+      expect((await adapter.findBackfillJob('0x1234', 1, 100))?.lastBlock).toBe(149);
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(149);
+
+      await adapter.completeBackfillJob(job.id);
+      expect(await adapter.findBackfillJob('0x1234', 1, 100)).toBeNull();
+      expect((await adapter.findBackfillJob('0x1234', 1, 100, 199))?.status).toBe('completed');
+
+      const restarted = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+      expect(restarted).toMatchObject({ id: job.id, lastBlock: null, status: 'running' });
+    });
+  });
+
+  describe('sink outbox', () => {
+    it('should queue, fail and delete outbox entries', async () => {
+      const batch = (event: DecodedEvent) => JSON.stringify({
+        chainId: 1,
+        contractAddress: '0x1234',
+        fromBlock: event.blockNumber,
+        toBlock: event.blockNumber,
+        events: [event],
+      });
+      const first = makeEvent();
+      const second = makeEvent({ blockNumber: 140, transactionHash: '0xdef' });
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 100, [first], [], [
+        { sink: 'backend', payload: batch(first) },
+      ]);
+      const job = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+      await adapter.commitBackfillChunk(job.id, '0x1234', 1, 149, [second], [
+        { sink: 'backend', payload: batch(second) },
+      ]);
+
+      const deliveries = await adapter.getOutboxDeliveries('backend', 10);
+      expect(deliveries.map(d => d.payload)).toEqual([batch(first), batch(second)]);
+
+      await adapter.recordOutboxFailure(deliveries[0].id, 'HTTP 500', 1700000000000);
+      expect((await adapter.getOutboxDeliveries('backend', 1))[0]).toMatchObject({
+        attempts: 1,
+        lastError: 'HTTP 500',
+        nextAttemptAt: 1700000000000,
+      });
+
+      await adapter.deleteOutboxDelivery(deliveries[0].id);
+      expect((await adapter.getOutboxDeliveries('backend', 10)).map(d => d.payload)).toEqual([batch(second)]);
+      expect(await adapter.getOutboxDeliveries('audit', 10)).toEqual([]);
+    });
+  });
+
+  describe('child contracts', () => {
+    it('should persist child contracts and ignore duplicates', async () => {
+      const child = { address: '0xaaaa', chainId: 1, template: 'Pool', factoryAddress: '0x1234', createdBlock: 101 };
+
+      await adapter.insertChildContracts([child]);
+      await adapter.insertChildContracts([{ ...child, createdBlock: 150 }]);
+
+      expect(await adapter.getChildContracts()).toEqual([child]);
+    });
+  });
+
+  describe('queryEvents', () => {
+    beforeEach(async () => {
+      await adapter.insertEvents([
+        makeEvent({ transactionHash: '0xabc1', eventData: { amount: '100' } }),
+        makeEvent({ blockNumber: 101, transactionHash: '0xabc2', eventData: { amount: '200' } }),
+        makeEvent({ blockNumber: 102, transactionHash: '0xabc3', eventName: 'Approval' }),
+        makeEvent({ contractAddress: '0x5678', transactionHash: '0xdef1' })
+      ]);
+    });
+
+    it('should combine multiple filters', async () => {
+      const events = await adapter.queryEvents({
+        contractAddress: '0x1234',
+        eventName: 'Transfer',
+        fromBlock: 100,
+        toBlock: 101,
+        limit: 1
+      });
+      expect(events).toHaveLength(1);
+      expect(events[0].blockNumber).toBe(100);
+    });
+
+    it('should apply offset without limit', async () => {
+      const events = await adapter.queryEvents({ contractAddress: '0x1234', offset: 1 });
+      expect(events.map(e => e.blockNumber)).toEqual([101, 102]);
+    });
+
+    it('should filter by decoded event arguments', async () => {
+      const events = await adapter.queryEvents({ args: { amount: '200' } });
+      expect(events.map(e => e.blockNumber)).toEqual([101]);
+
+      const byAddress = await adapter.queryEvents({ args: { to: '0x222' } });
+      expect(byAddress).toHaveLength(2);
+    });
+
+    it('should count events per event name', async () => {
+      const counts = await adapter.getEventCounts('0x1234', 1);
+      expect(counts).toEqual({ Transfer: 2, Approval: 1 });
+    });
+
+    it('should iterate events page by page in block order', async () => {
+      const events: DecodedEvent[] = [];
+      for await (const event of adapter.iterateEvents({}, 1)) {
+        events.push(event);
+      }
+
+      // Two events share block 100 and log index 0
+      expect(events.map(e => e.transactionHash)).toEqual(['0xabc1', '0xdef1', '0xabc2', '0xabc3']);
+    });
+
+    it('should filter by equality and IN predicates on nested arguments', async () => {
+      await adapter.insertEvents([
+        makeEvent({ blockNumber: 103, transactionHash: '0xbig', eventData: { amount: '20000000000000000001', order: { maker: 'bob' } } }),
+        makeEvent({ blockNumber: 104, transactionHash: '0xneg', eventData: { amount: '-7', order: { maker: 'carol' } } }),
+      ]);
+
+      const hashes = async (filter: Parameters<PostgresAdapter['queryEvents']>[0]) =>
+        (await adapter.queryEvents(filter)).map(e => e.transactionHash);
+
+      // pg-mem has no regular expressions, so integer comparisons are only covered for SQLite
+      expect(await hashes({ where: [{ path: 'amount', op: 'eq', value: '-7' }] })).toEqual(['0xneg']);
+      expect(await hashes({ where: [{ path: 'order.maker', op: 'in', values: ['bob', 'carol'] }] })).toEqual(['0xbig', '0xneg']);
+      expect(await hashes({ where: [{ path: 'to', op: 'in', values: ['0x222', 'none'] }] })).toEqual(['0xdef1', '0xabc3']);
+    });
+
+    it('should count events matching a filter', async () => {
+      expect(await adapter.countEvents({})).toBe(4);
+      expect(await adapter.countEvents({ contractAddress: '0x1234', eventName: 'Transfer', limit: 1 })).toBe(2);
+    });
+  });
+
+  describe('event views', () => {
+    // pg-mem can't drop views, so only creating them is covered here
+    it('should create a typed view per event', async () => {
+      await adapter.insertEvents([makeEvent({
+        contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        eventData: { from: '0x111', to: '0x222', value: '1000000000000000000000', ok: true },
+      })]);
+      const iface = new Interface(['event Transfer(address indexed from, address indexed to, uint256 value, bool ok)']);
+
+      await adapter.syncEventViews(
+        '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        1,
+        buildEventViews('0x5FbDB2315678afecb367f032d93F642f64180aa3', 'MyToken', iface, '*')
+      );
+
+      const pool = new Pool();
+      const { rows } = await pool.query('SELECT block_number, "from", ok FROM my_token_transfer');
+      await pool.end();
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ from: '0x111', ok: true });
+    });
+  });
+
+  describe('error handling', () => {
+    it('should throw StorageError after close', async () => {
+      await adapter.close();
+
+      await expect(adapter.getLastSyncedBlock('0x1234', 1)).rejects.toThrow(StorageError);
+    });
+  });
+});
@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { existsSync, unlinkSync } from 'fs';
+import Database from 'better-sqlite3';
+import { Interface } from 'ethers';
 import { SQLiteAdapter } from '../../../src/storage/sqlite.js';
+import { buildEventViews } from '../../../src/storage/event-views.js';
 import { DecodedEvent } from '../../../src/core/types.js';
 import { StorageError } from '../../../src/utils/errors.js';
 
@@ -166,23 +169,134 @@ describe('SQLiteAdapter', () => {
 
       await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 150, events);
 
-      const lastBlock = await adapter.getLastSyncedBlock('0x1234');
+      const lastBlock = await adapter.getLastSyncedBlock('0x1234', 1);
       expect(lastBlock).toBe(150);
     });
 
     it('should return null for unknown contract', async () => {
-      const lastBlock = await adapter.getLastSyncedBlock('0xunknown');
+      const lastBlock = await adapter.getLastSyncedBlock('0xunknown', 1);
       expect(lastBlock).toBeNull();
     });
 
     it('should update and return latest block', async () => {
       // First sync
       await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 100, []);
-      expect(await adapter.getLastSyncedBlock('0x1234')).toBe(100);
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(100);
 
       // Second sync with higher block
       await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 200, []);
-      expect(await adapter.getLastSyncedBlock('0x1234')).toBe(200);
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(200);
+    });
+  });
+
+  describe('getSyncState', () => {
+    it('should return the stored sync state', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 150, []);
+
+      const syncState = await adapter.getSyncState('0x1234', 1);
+      expect(syncState).toMatchObject({
+        contractAddress: '0x1234',
+        chainId: 1,
+        lastBlock: 150,
+        status: 'active'
+      });
+      expect(syncState!.lastSync).toBeGreaterThan(0);
+    });
+
+    it('should return null for unknown contract', async () => {
+      expect(await adapter.getSyncState('0xunknown', 1)).toBeNull();
+    });
+  });
+
+  describe('multiple chains', () => {
+    it('should keep sync state, block hashes and events separate per chain', async () => {
+      const event = (chainId: number): DecodedEvent => ({
+        contractAddress: '0x1234',
+        blockNumber: 100,
+        blockTimestamp: 1700000000,
+        transactionHash: `0xabc${chainId}`,
+        logIndex: 0,
+        eventName: 'Transfer',
+        eventData: {}
+      });
+      const block = { blockNumber: 100, blockHash: '0xh100', parentHash: '0xh99' };
+
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 100, [event(1)], [block]);
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 137, 200, [event(137)], [block]);
+
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(100);
+      expect(await adapter.getLastSyncedBlock('0x1234', 137)).toBe(200);
+      expect(await adapter.queryEvents({ chainId: 137 })).toEqual([{ ...event(137), chainId: 137 }]);
+
+      await adapter.rollbackToBlock('0x1234', 137, 99);
+
+      expect(await adapter.getEventCounts('0x1234', 1)).toEqual({ Transfer: 1 });
+      expect(await adapter.getEventCounts('0x1234', 137)).toEqual({});
+      expect(await adapter.getBlockHashes('0x1234', 1, 10)).toHaveLength(1);
+      expect(await adapter.getBlockHashes('0x1234', 137, 10)).toHaveLength(0);
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(100);
+    });
+
+    it('should re-key a database created before multi-chain support', async () => {
+      await adapter.close();
+      unlinkSync(testDbPath);
+
+      const legacy = new Database(testDbPath);
+      legacy.exec(`
+        CREATE TABLE events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          contract_address TEXT NOT NULL,
+          block_number INTEGER NOT NULL,
+          block_timestamp INTEGER NOT NULL,
+          transaction_hash TEXT NOT NULL,
+          log_index INTEGER NOT NULL,
+          event_name TEXT NOT NULL,
+          event_data TEXT NOT NULL,
+          indexed_at INTEGER NOT NULL,
+          UNIQUE(transaction_hash, log_index)
+        );
+        CREATE TABLE sync_state (
+          contract_address TEXT PRIMARY KEY,
+          chain_id INTEGER NOT NULL,
+          last_block INTEGER NOT NULL,
+          last_sync INTEGER NOT NULL,
+          status TEXT DEFAULT 'active'
+        );
+        CREATE TABLE block_hashes (
+          contract_address TEXT NOT NULL,
+          block_number INTEGER NOT NULL,
+          block_hash TEXT NOT NULL,
+          parent_hash TEXT NOT NULL,
+          PRIMARY KEY (contract_address, block_number)
+        );
+        CREATE TABLE child_contracts (
+          address TEXT PRIMARY KEY,
+          template TEXT NOT NULL,
+          factory_address TEXT NOT NULL,
+          created_block INTEGER NOT NULL
+        );
+        CREATE INDEX idx_child_contracts_factory ON child_contracts(factory_address, created_block);
+
+        INSERT INTO events VALUES (1, '0xAbCd', 100, 1700000000, '0xabc', 0, 'Transfer', '{}', 1700000000);
+        INSERT INTO sync_state VALUES ('0xabcd', 137, 150, 1700000000, 'active');
+        INSERT INTO block_hashes VALUES ('0xabcd', 150, '0xh150', '0xh149');
+        INSERT INTO child_contracts VALUES ('0xaaaa', 'Pool', '0xabcd', 120);
+      `);
+      legacy.close();
+
+      adapter = new SQLiteAdapter(testDbPath);
+      await adapter.init();
+
+      expect(await adapter.getLastSyncedBlock('0xabcd', 137)).toBe(150);
+      expect(await adapter.getEventCounts('0xabcd', 137)).toEqual({ Transfer: 1 });
+      expect(await adapter.getBlockHashes('0xabcd', 137, 10)).toEqual([]);
+      expect(await adapter.getChildContracts()).toEqual([
+        { address: '0xaaaa', chainId: 137, template: 'Pool', factoryAddress: '0xabcd', createdBlock: 120 },
+      ]);
+
+      // The same address can now be synced on another chain
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 10, []);
+      expect(await adapter.getLastSyncedBlock('0xabcd', 137)).toBe(150);
     });
   });
 
@@ -212,7 +326,7 @@ describe('SQLiteAdapter', () => {
       await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 101, events);
 
       // Verify sync state
-      const lastBlock = await adapter.getLastSyncedBlock('0x1234');
+      const lastBlock = await adapter.getLastSyncedBlock('0x1234', 1);
       expect(lastBlock).toBe(101);
 
       // Verify events were inserted
@@ -223,7 +337,7 @@ describe('SQLiteAdapter', () => {
     it('should handle empty events array', async () => {
       await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 100, []);
 
-      const lastBlock = await adapter.getLastSyncedBlock('0x1234');
+      const lastBlock = await adapter.getLastSyncedBlock('0x1234', 1);
       expect(lastBlock).toBe(100);
 
       const events = await adapter.queryEvents({ contractAddress: '0x1234' });
@@ -262,12 +376,423 @@ describe('SQLiteAdapter', () => {
       await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 101, events2);
 
       // If transaction is atomic, both state and events should be at block 101
-      expect(await adapter.getLastSyncedBlock('0x1234')).toBe(101);
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(101);
       const retrieved = await adapter.queryEvents({ contractAddress: '0x1234' });
       expect(retrieved).toHaveLength(2);
     });
   });
 
+  describe('block hashes', () => {
+    const blocks = [
+      { blockNumber: 100, blockHash: '0xh100', parentHash: '0xh99' },
+      { blockNumber: 101, blockHash: '0xh101', parentHash: '0xh100' },
+      { blockNumber: 102, blockHash: '0xh102', parentHash: '0xh101' }
+    ];
+
+    it('should store block hashes with sync state', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 102, [], blocks);
+
+      const stored = await adapter.getBlockHashes('0x1234', 1, 10);
+      expect(stored.map(b => b.blockNumber)).toEqual([102, 101, 100]);
+      expect(stored[0]).toEqual(blocks[2]);
+    });
+
+    it('should limit returned block hashes to the most recent', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 102, [], blocks);
+
+      const stored = await adapter.getBlockHashes('0x1234', 1, 1);
+      expect(stored).toHaveLength(1);
+      expect(stored[0].blockNumber).toBe(102);
+    });
+
+    it('should prune block hashes below a block', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 102, [], blocks);
+      await adapter.pruneBlockHashes('0x1234', 1, 102);
+
+      const stored = await adapter.getBlockHashes('0x1234', 1, 10);
+      expect(stored.map(b => b.blockNumber)).toEqual([102]);
+    });
+  });
+
+  describe('rollbackToBlock', () => {
+    it('should remove events and block hashes above the block and rewind sync state', async () => {
+      const events: DecodedEvent[] = [100, 101, 102].map(blockNumber => ({
+        contractAddress: '0xAbCd',
+        blockNumber,
+        blockTimestamp: 1700000000 + blockNumber,
+        transactionHash: `0xtx${blockNumber}`,
+        logIndex: 0,
+        eventName: 'Transfer',
+        eventData: {}
+      }));
+      const blocks = [100, 101, 102].map(blockNumber => ({
+        blockNumber,
+        blockHash: `0xh${blockNumber}`,
+        parentHash: `0xh${blockNumber - 1}`
+      }));
+
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 102, events, blocks);
+
+      const removed = await adapter.rollbackToBlock('0xabcd', 1, 100);
+      expect(removed).toBe(2);
+
+      expect(await adapter.getLastSyncedBlock('0xabcd', 1)).toBe(100);
+      const remaining = await adapter.queryEvents({ contractAddress: '0xAbCd' });
+      expect(remaining.map(e => e.blockNumber)).toEqual([100]);
+      const stored = await adapter.getBlockHashes('0xabcd', 1, 10);
+      expect(stored.map(b => b.blockNumber)).toEqual([100]);
+    });
+
+    it('should not touch other contracts', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x5678', 1, 102, [{
+        contractAddress: '0x5678',
+        blockNumber: 102,
+        blockTimestamp: 1700000000,
+        transactionHash: '0xother',
+        logIndex: 0,
+        eventName: 'Transfer',
+        eventData: {}
+      }]);
+
+      const removed = await adapter.rollbackToBlock('0x1234', 1, 100);
+      expect(removed).toBe(0);
+      expect(await adapter.getLastSyncedBlock('0x5678', 1)).toBe(102);
+    });
+  });
+
+  describe('coverage', () => {
+    it('should merge overlapping and adjacent committed ranges', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 199, [], [], [], 100);
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 399, [], [], [], 300);
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 299, [], [], [], 200);
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 599, [], [], [], 500);
+
+      expect(await adapter.getCoverage('0xabcd', 1)).toEqual([
+        { fromBlock: 100, toBlock: 399 },
+        { fromBlock: 500, toBlock: 599 },
+      ]);
+      expect(await adapter.getCoverage('0xabcd', 137)).toEqual([]);
+    });
+
+    it('should record backfill chunks without moving the sync state backwards', async () => {
+      const job = await adapter.createBackfillJob('0xabcd', 1, 10, 19);
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 599, [], [], [], 500);
+
+      await adapter.commitBackfillChunk(job.id, '0xabcd', 1, 19, [], [], 10);
+
+      expect(await adapter.getLastSyncedBlock('0xabcd', 1)).toBe(599);
+      expect(await adapter.getCoverage('0xabcd', 1)).toEqual([
+        { fromBlock: 10, toBlock: 19 },
+        { fromBlock: 500, toBlock: 599 },
+      ]);
+    });
+
+    it('should drop coverage of rolled back blocks', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 199, [], [], [], 100);
+      await adapter.updateSyncStateAndInsertEvents('0xabcd', 1, 399, [], [], [], 300);
+
+      await adapter.rollbackToBlock('0xabcd', 1, 150);
+
+      expect(await adapter.getCoverage('0xabcd', 1)).toEqual([{ fromBlock: 100, toBlock: 150 }]);
+    });
+  });
+
+  describe('backfill jobs', () => {
+    it('should create a running job with no progress', async () => {
+      const job = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+
+      expect(job).toMatchObject({
+        contractAddress: '0x1234',
+        chainId: 1,
+        fromBlock: 100,
+        toBlock: 199,
+        lastBlock: null,
+        status: 'running',
+      });
+    });
+
+    it('should checkpoint the job together with the chunk events', async () => {
+      const job = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+      const events: DecodedEvent[] = [{
+        contractAddress: '0x1234',
+        blockNumber: 120,
+        blockTimestamp: 1700000000,
+        transactionHash: '0xabc',
+        logIndex: 0,
+        eventName: 'Transfer',
+        eventData: {}
+      }];
+
+      expect(await adapter.commitBackfillChunk(job.id, '0x1234', 1, 149, events)).toBe(1);
+      // Re-committing a chunk stores nothing new
+      expect(await adapter.commitBackfillChunk(job.id, '0x1234', 1, 149, events)).toBe(0);
+
+      const found = await adapter.findBackfillJob('0x1234', 1, 100, 199);
+      expect(found?.lastBlock).toBe(149);
+      expect(await adapter.getLastSyncedBlock('0x1234', 1)).toBe(149);
+      expect(await adapter.queryEvents({ contractAddress: '0x1234' })).toHaveLength(1);
+    });
+
+    it('should find the latest unfinished job when no end block is given', async () => {
+      const completed = await adapter.createBackfillJob('0x1234', 1, 100, 150);
+      await adapter.completeBackfillJob(completed.id);
+      const running = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+
+      const found = await adapter.findBackfillJob('0x1234', 1, 100);
+      expect(found?.id).toBe(running.id);
+
+      await adapter.completeBackfillJob(running.id);
+      expect(await adapter.findBackfillJob('0x1234', 1, 100)).toBeNull();
+      expect((await adapter.findBackfillJob('0x1234', 1, 100, 199))?.status).toBe('completed');
+    });
+
+    it('should reset progress when a job is created again for the same range', async () => {
+      const job = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+      await adapter.commitBackfillChunk(job.id, '0x1234', 1, 149, []);
+      await adapter.completeBackfillJob(job.id);
+
+      const restarted = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+      expect(restarted.id).toBe(job.id);
+      expect(restarted.lastBlock).toBeNull();
+      expect(restarted.status).toBe('running');
+    });
+  });
+
+  describe('sink outbox', () => {
+    const makeEvent = (blockNumber: number, contractAddress = '0x1234'): DecodedEvent => ({
+      contractAddress,
+      blockNumber,
+      blockTimestamp: 1700000000,
+      transactionHash: `${contractAddress}${blockNumber}`,
+      logIndex: 0,
+      eventName: 'Transfer',
+      eventData: {}
+    });
+    const batch = (fromBlock: number, toBlock: number, events: DecodedEvent[]) => JSON.stringify({
+      chainId: 1,
+      contractAddress: events[0].contractAddress,
+      fromBlock,
+      toBlock,
+      events,
+    });
+
+    it('should queue outbox entries with the committed events', async () => {
+      const first = batch(120, 120, [makeEvent(120)]);
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 120, [makeEvent(120)], [], [
+        { sink: 'backend', payload: first },
+        { sink: 'audit', payload: first },
+      ]);
+      const second = batch(140, 149, [makeEvent(140)]);
+      const job = await adapter.createBackfillJob('0x1234', 1, 100, 199);
+      await adapter.commitBackfillChunk(job.id, '0x1234', 1, 149, [makeEvent(140)], [
+        { sink: 'backend', payload: second },
+      ]);
+
+      const deliveries = await adapter.getOutboxDeliveries('backend', 10);
+      expect(deliveries.map(d => d.payload)).toEqual([first, second]);
+      expect(deliveries[0]).toMatchObject({ sink: 'backend', attempts: 0, lastError: null });
+      expect(await adapter.getOutboxDeliveries('audit', 10)).toHaveLength(1);
+    });
+
+    it('should only queue the events that the commit inserted', async () => {
+      const events = [makeEvent(120), makeEvent(121)];
+      await adapter.insertEvents([events[0]]);
+
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 129, events, [], [
+        { sink: 'backend', payload: batch(120, 129, events) },
+      ]);
+      // Re-indexing the range inserts nothing, so nothing is queued again
+      const job = await adapter.createBackfillJob('0x1234', 1, 120, 129);
+      expect(await adapter.commitBackfillChunk(job.id, '0x1234', 1, 129, events, [
+        { sink: 'backend', payload: batch(120, 129, events) },
+      ])).toBe(0);
+
+      const deliveries = await adapter.getOutboxDeliveries('backend', 10);
+      expect(deliveries.map(d => d.payload)).toEqual([batch(120, 129, [events[1]])]);
+    });
+
+    it('should record failures and delete delivered entries', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 120, [makeEvent(120)], [], [
+        { sink: 'backend', payload: batch(120, 120, [makeEvent(120)]) },
+      ]);
+      const [delivery] = await adapter.getOutboxDeliveries('backend', 10);
+
+      await adapter.recordOutboxFailure(delivery.id, 'HTTP 500', 1700000000000);
+      const [failed] = await adapter.getOutboxDeliveries('backend', 10);
+      expect(failed).toMatchObject({ attempts: 1, lastError: 'HTTP 500', nextAttemptAt: 1700000000000 });
+
+      await adapter.deleteOutboxDelivery(delivery.id);
+      expect(await adapter.getOutboxDeliveries('backend', 10)).toEqual([]);
+    });
+
+    it('should not queue entries when the commit fails', async () => {
+      const db = new Database(testDbPath);
+      db.exec(`CREATE TRIGGER fail_sync BEFORE INSERT ON sync_state BEGIN SELECT RAISE(ABORT, 'boom'); END;`);
+      db.close();
+
+      await expect(adapter.updateSyncStateAndInsertEvents('0x1234', 1, 120, [makeEvent(120)], [], [
+        { sink: 'backend', payload: batch(120, 120, [makeEvent(120)]) },
+      ])).rejects.toThrow(StorageError);
+      expect(await adapter.getOutboxDeliveries('backend', 10)).toEqual([]);
+    });
+
+    it('should drop undelivered events of rolled back blocks', async () => {
+      const commit = async (fromBlock: number, toBlock: number, events: DecodedEvent[]) => {
+        await adapter.updateSyncStateAndInsertEvents(events[0].contractAddress, 1, toBlock, events, [], [
+          { sink: 'backend', payload: batch(fromBlock, toBlock, events) },
+        ]);
+      };
+      await commit(100, 109, [makeEvent(105)]);
+      await commit(110, 119, [makeEvent(110), makeEvent(115)]);
+      await commit(120, 130, [makeEvent(120)]);
+      await commit(120, 130, [makeEvent(120, '0x5678')]);
+
+      await adapter.rollbackToBlock('0x1234', 1, 112);
+
+      const deliveries = await adapter.getOutboxDeliveries('backend', 10);
+      expect(deliveries.map(d => d.payload)).toEqual([
+        batch(100, 109, [makeEvent(105)]),
+        batch(110, 112, [makeEvent(110)]),
+        batch(120, 130, [makeEvent(120, '0x5678')]),
+      ]);
+    });
+
+    it('should keep the database ID across restarts and give new databases another', async () => {
+      const databaseId = await adapter.getDatabaseId();
+      expect(databaseId).toMatch(/^[0-9a-f-]{36}$/);
+
+      await adapter.close();
+      adapter = new SQLiteAdapter(testDbPath);
+      await adapter.init();
+      expect(await adapter.getDatabaseId()).toBe(databaseId);
+
+      const other = new SQLiteAdapter(':memory:');
+      await other.init();
+      expect(await other.getDatabaseId()).not.toBe(databaseId);
+      await other.close();
+    });
+  });
+
+  describe('child contracts', () => {
+    const child = {
+      address: '0xaaaa',
+      chainId: 1,
+      template: 'Pool',
+      factoryAddress: '0x1234',
+      createdBlock: 101,
+    };
+
+    it('should persist child contracts and ignore duplicates', async () => {
+      await adapter.insertChildContracts([child, { ...child, address: '0xbbbb', createdBlock: 100 }]);
+      await adapter.insertChildContracts([{ ...child, createdBlock: 150 }]);
+
+      const children = await adapter.getChildContracts();
+      expect(children).toEqual([
+        { ...child, address: '0xbbbb', createdBlock: 100 },
+        child,
+      ]);
+    });
+
+    it('should remove children created by rolled back factory events', async () => {
+      await adapter.updateSyncStateAndInsertEvents('0x1234', 1, 102, []);
+      await adapter.insertChildContracts([child, { ...child, address: '0xbbbb', createdBlock: 100 }]);
+
+      await adapter.rollbackToBlock('0x1234', 1, 100);
+
+      const children = await adapter.getChildContracts();
+      expect(children.map(c => c.address)).toEqual(['0xbbbb']);
+    });
+  });
+
+  describe('event views', () => {
+    const address = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+    const iface = new Interface([
+      'event Transfer(address indexed from, address indexed to, uint256 value)',
+      'event Paused(bool paused, uint8 reason, uint32 at)',
+    ]);
+
+    const readView = (name: string) => {
+      const db = new Database(testDbPath, { readonly: true });
+      try {
+        return db.prepare(`SELECT * FROM "${name}" ORDER BY block_number`).all();
+      } finally {
+        db.close();
+      }
+    };
+
+    beforeEach(async () => {
+      await adapter.insertEvents([
+        {
+          contractAddress: address,
+          blockNumber: 100,
+          blockTimestamp: 1700000000,
+          transactionHash: '0xabc1',
+          logIndex: 0,
+          eventName: 'Transfer',
+          eventData: { from: '0x111', to: '0x222', value: '115792089237316195423570985008687907853269984665640564039457584007913129639935' },
+          chainId: 1,
+        },
+        {
+          contractAddress: address,
+          blockNumber: 101,
+          blockTimestamp: 1700000012,
+          transactionHash: '0xabc2',
+          logIndex: 0,
+          eventName: 'Paused',
+          eventData: { paused: true, reason: '3', at: '1700000012' },
+          chainId: 1,
+        },
+        {
+          contractAddress: address,
+          blockNumber: 102,
+          blockTimestamp: 1700000024,
+          transactionHash: '0xabc3',
+          logIndex: 0,
+          eventName: 'Transfer',
+          eventData: { from: '0x333', to: '0x444', value: '1' },
+          chainId: 10,
+        },
+      ]);
+    });
+
+    it('should create a typed view per event', async () => {
+      await adapter.syncEventViews(address, 1, buildEventViews(address, 'MyToken', iface, '*'));
+
+      expect(readView('my_token_transfer')).toEqual([{
+        chain_id: 1,
+        contract_address: address,
+        block_number: 100,
+        block_timestamp: 1700000000,
+        transaction_hash: '0xabc1',
+        log_index: 0,
+        from: '0x111',
+        to: '0x222',
+        value: '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+      }]);
+      expect(readView('my_token_paused')).toEqual([
+        expect.objectContaining({ paused: 1, reason: 3, at: 1700000012 }),
+      ]);
+    });
+
+    it('should recreate views when the ABI changes and drop views of removed events', async () => {
+      await adapter.syncEventViews(address, 1, buildEventViews(address, 'MyToken', iface, '*'));
+
+      const changed = new Interface(['event Transfer(address indexed from, address indexed to, uint256 amount)']);
+      await adapter.syncEventViews(address, 1, buildEventViews(address, 'MyToken', changed, '*'));
+
+      expect(readView('my_token_transfer')).toEqual([expect.objectContaining({ amount: null })]);
+      expect(readView('my_token_transfer')[0]).not.toHaveProperty('value');
+      expect(() => readView('my_token_paused')).toThrow(/no such table/);
+    });
+
+    it('should not replace a view of another contract', async () => {
+      await adapter.syncEventViews(address, 1, buildEventViews(address, 'MyToken', iface, '*'));
+
+      await expect(adapter.syncEventViews('0x1234', 1, buildEventViews('0x1234', 'MyToken', iface, '*')))
+        .rejects.toThrow(/already belongs to contract/);
+    });
+  });
+
   describe('queryEvents', () => {
     beforeEach(async () => {
       // Insert test data
@@ -310,7 +835,7 @@ describe('SQLiteAdapter', () => {
         }
       ];
 
-      await adapter.insertEvents(events);
+      await adapter.insertEvents(events.map(event => ({ ...event, chainId: 1 })));
     });
 
     it('should filter by contract address', async () => {
@@ -369,6 +894,36 @@ describe('SQLiteAdapter', () => {
       expect(events[0].blockNumber).toBe(100);
     });
 
+    it('should filter by decoded event arguments', async () => {
+      const events = await adapter.queryEvents({
+        contractAddress: '0x1234',
+        args: { amount: '200' }
+      });
+      expect(events).toHaveLength(1);
+      expect(events[0].blockNumber).toBe(101);
+    });
+
+    it('should match hex event arguments case-insensitively', async () => {
+      const events = await adapter.queryEvents({
+        contractAddress: '0x1234',
+        args: { spender: '0x333' }
+      });
+      expect(events).toHaveLength(1);
+      expect(events[0].eventName).toBe('Approval');
+
+      await adapter.insertEvents([{
+        contractAddress: '0x1234',
+        blockNumber: 103,
+        blockTimestamp: 1700000030,
+        transactionHash: '0xabc4',
+        logIndex: 0,
+        eventName: 'Transfer',
+        eventData: { to: '0xAbCdEf' }
+      }]);
+      const byAddress = await adapter.queryEvents({ args: { to: '0xabcdef' } });
+      expect(byAddress).toHaveLength(1);
+    });
+
     it('should return empty array when no matches', async () => {
       const events = await adapter.queryEvents({
         contractAddress: '0xnonexistent'
@@ -376,6 +931,22 @@ describe('SQLiteAdapter', () => {
       expect(events).toHaveLength(0);
     });
 
+    it('should count events per event name regardless of address casing', async () => {
+      await adapter.insertEvents([{
+        contractAddress: '0xAbCd',
+        blockNumber: 103,
+        blockTimestamp: 1700000030,
+        transactionHash: '0xabc4',
+        logIndex: 0,
+        eventName: 'Transfer',
+        eventData: {},
+        chainId: 1
+      }]);
+
+      expect(await adapter.getEventCounts('0x1234', 1)).toEqual({ Transfer: 2, Approval: 1 });
+      expect(await adapter.getEventCounts('0xabcd', 1)).toEqual({ Transfer: 1 });
+    });
+
     it('should parse JSON eventData correctly', async () => {
       const events = await adapter.queryEvents({
         contractAddress: '0x1234',
@@ -386,6 +957,174 @@ describe('SQLiteAdapter', () => {
     });
   });
 
+  describe('iterateEvents', () => {
+    const collect = async (iterable: AsyncIterable<DecodedEvent>) => {
+      const events: DecodedEvent[] = [];
+      for await (const event of iterable) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    beforeEach(async () => {
+      // Events on two chains share block numbers and log indexes
+      const events: DecodedEvent[] = [];
+      for (const chainId of [1, 137]) {
+        for (let i = 0; i < 5; i++) {
+          events.push({
+            contractAddress: '0x1234',
+            blockNumber: 100 + Math.floor(i / 2),
+            blockTimestamp: 1700000000,
+            transactionHash: `0x${chainId}${i}`,
+            logIndex: i % 2,
+            eventName: i === 4 ? 'Approval' : 'Transfer',
+            eventData: { amount: String(i) },
+            chainId,
+          });
+        }
+      }
+      await adapter.insertEvents(events);
+    });
+
+    it('should read every event once in block order across pages', async () => {
+      const events = await collect(adapter.iterateEvents({}, 3));
+
+      expect(events).toHaveLength(10);
+      expect(new Set(events.map(e => e.transactionHash)).size).toBe(10);
+      expect(events.map(e => [e.blockNumber, e.logIndex])).toEqual(
+        (await adapter.queryEvents({})).map(e => [e.blockNumber, e.logIndex])
+      );
+    });
+
+    it('should apply filters, limit and offset', async () => {
+      const events = await collect(adapter.iterateEvents({ chainId: 137, eventName: 'Transfer', offset: 1, limit: 2 }, 1));
+      expect(events.map(e => e.transactionHash)).toEqual(['0x1371', '0x1372']);
+    });
+
+    it('should stop at the end of a result that fills its last page', async () => {
+      expect(await collect(adapter.iterateEvents({ chainId: 1 }, 5))).toHaveLength(5);
+    });
+
+    it('should count events matching a filter, ignoring limit and offset', async () => {
+      expect(await adapter.countEvents({})).toBe(10);
+      expect(await adapter.countEvents({ chainId: 1, eventName: 'Transfer', limit: 1, offset: 1 })).toBe(4);
+      expect(await adapter.countEvents({ args: { amount: '4' } })).toBe(2);
+    });
+  });
+
+  describe('argument predicates', () => {
+    const UINT256_MAX = '115792089237316195423570985008687907853269984665640564039457584007913129639935';
+
+    const hashes = async (filter: Parameters<SQLiteAdapter['queryEvents']>[0]) =>
+      (await adapter.queryEvents(filter)).map(e => e.transactionHash);
+
+    beforeEach(async () => {
+      const values = ['0', '99', '100', '101', '20000000000000000000', UINT256_MAX, '-5', '-100', 'n/a'];
+      await adapter.insertEvents(values.map((value, i) => ({
+        contractAddress: '0x1234',
+        blockNumber: 100 + i,
+        blockTimestamp: 1700000000,
+        transactionHash: `0x${i}`,
+        logIndex: 0,
+        eventName: 'Transfer',
+        eventData: {
+          to: i % 2 === 0 ? '0xAbCdEf0000000000000000000000000000000001' : '0x0000000000000000000000000000000000000002',
+          value,
+          order: { maker: i < 3 ? 'alice' : 'bob' },
+        },
+        chainId: 1,
+      })));
+    });
+
+    it('should compare integers exactly beyond the precision of doubles', async () => {
+      expect(await hashes({ where: [{ path: 'value', op: 'gt', value: '100' }] }))
+        .toEqual(['0x3', '0x4', '0x5']);
+      expect(await hashes({ where: [{ path: 'value', op: 'gte', value: 20000000000000000000n }] }))
+        .toEqual(['0x4', '0x5']);
+      expect(await hashes({ where: [{ path: 'value', op: 'gte', value: UINT256_MAX }] }))
+        .toEqual(['0x5']);
+      expect(await hashes({ where: [{ path: 'value', op: 'lte', value: '99' }] }))
+        .toEqual(['0x0', '0x1', '0x6', '0x7']);
+    });
+
+    it('should compare negative integers', async () => {
+      expect(await hashes({ where: [{ path: 'value', op: 'lt', value: '-5' }] })).toEqual(['0x7']);
+      expect(await hashes({ where: [{ path: 'value', op: 'gt', value: '-6' }] }))
+        .toEqual(['0x0', '0x1', '0x2', '0x3', '0x4', '0x5', '0x6']);
+    });
+
+    it('should combine equality, IN and range predicates on nested paths', async () => {
+      expect(await hashes({
+        where: [
+          { path: 'to', op: 'eq', value: '0xabcdef0000000000000000000000000000000001' },
+          { path: 'order.maker', op: 'in', values: ['bob', 'carol'] },
+          { path: 'value', op: 'lt', value: '0' },
+        ],
+      })).toEqual(['0x6']);
+      expect(await hashes({ where: [{ path: 'value', op: 'in', values: ['0', '101', '0x2'] }] }))
+        .toEqual(['0x0', '0x3']);
+      expect(await hashes({ where: [{ path: 'value', op: 'in', values: [] }] })).toEqual([]);
+    });
+
+    it('should reject comparisons with values that are not integers', async () => {
+      await expect(adapter.queryEvents({ where: [{ path: 'value', op: 'gt', value: '1e18' }] }))
+        .rejects.toThrow(/Comparison on value requires an integer/);
+    });
+
+    it('should create declared argument indexes and use them', async () => {
+      await adapter.close();
+      adapter = new SQLiteAdapter(testDbPath, [
+        { path: 'to', type: 'hex' },
+        { path: 'value', type: 'integer' },
+      ]);
+      await adapter.init();
+
+      // Capture the queries the adapter runs and explain them on a second connection
+      const queries: string[] = [];
+      const originalPrepare = Database.prototype.prepare;
+      const prepare = vi.spyOn(Database.prototype, 'prepare').mockImplementation(function (this: Database.Database, sql: string) {
+        queries.push(sql);
+        return originalPrepare.call(this, sql);
+      });
+      try {
+        await adapter.queryEvents({ where: [{ path: 'to', op: 'eq', value: '0xABCDEF0000000000000000000000000000000001' }] });
+        await adapter.countEvents({ where: [{ path: 'value', op: 'gte', value: '100' }] });
+        await adapter.queryEvents({
+          where: [{ path: 'value', op: 'gte', value: '100' }, { path: 'value', op: 'lt', value: UINT256_MAX }],
+        });
+      } finally {
+        prepare.mockRestore();
+      }
+
+      const db = new Database(testDbPath, { readonly: true });
+      try {
+        const plans = queries.map(sql => {
+          const params = Array(sql.split('?').length - 1).fill(null);
+          return JSON.stringify(db.prepare(`EXPLAIN QUERY PLAN ${sql}`).all(...params));
+        });
+        expect(plans[0]).toContain('idx_arg_hex_to');
+        expect(plans[1]).toContain('idx_arg_integer_value');
+        expect(plans[2]).toContain('idx_arg_integer_value');
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should drop argument indexes that are no longer declared', async () => {
+      await adapter.close();
+      adapter = new SQLiteAdapter(testDbPath, [{ path: 'to', type: 'hex' }, { path: 'order.maker', type: 'text' }]);
+      await adapter.init();
+      await adapter.close();
+      adapter = new SQLiteAdapter(testDbPath, [{ path: 'order.maker', type: 'text' }]);
+      await adapter.init();
+
+      const db = new Database(testDbPath, { readonly: true });
+      const indexes = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'index' AND name GLOB 'idx_arg_*'`).all();
+      db.close();
+      expect(indexes).toEqual([{ name: 'idx_arg_text_order.maker' }]);
+    });
+  });
+
   describe('close', () => {
     it('should close database connection', async () => {
       await adapter.close();
@@ -408,7 +1147,7 @@ describe('SQLiteAdapter', () => {
       await adapter.close();
 
       // Operations on closed database should throw StorageError
-      await expect(adapter.getLastSyncedBlock('0x1234'))
+      await expect(adapter.getLastSyncedBlock('0x1234', 1))
         .rejects.toThrow(StorageError);
     });
   });
@@ -6,6 +6,7 @@ import {
   StorageError,
   ABIError,
   FileSystemError,
+  SinkError,
 } from '../../../src/utils/errors.js';
 
 describe('Error Classes', () => {
@@ -54,4 +55,11 @@ describe('Error Classes', () => {
     expect(error).toBeInstanceOf(ChainTapError);
     expect(error.name).toBe('FileSystemError');
   });
+
+  it('creates SinkError with optional sink name', () => {
+    const error = new SinkError('delivery failed', 'backend');
+    expect(error).toBeInstanceOf(ChainTapError);
+    expect(error.name).toBe('SinkError');
+    expect(error.sink).toBe('backend');
+  });
 });
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { Metrics } from '../../../src/utils/metrics.js';
+import { ProviderPool } from '../../../src/providers/provider-pool.js';
+
+describe('Metrics', () => {
+  it('should report head lag only for chains with a known head', async () => {
+    const metrics = new Metrics();
+    metrics.observeSyncedBlock('ethereum', 'UNI', 100);
+    metrics.observeSyncedBlock('base', 'USDC', 50);
+    metrics.observeChainHead('ethereum', 120);
+    metrics.observeChainHead('ethereum', 110);
+
+    const output = await metrics.render();
+
+    expect(output).toContain('chaintap_head_lag_blocks{chain="ethereum",contract="UNI"} 20');
+    expect(output).not.toContain('contract="USDC"');
+  });
+
+  it('should report provider health, failures and selections from the pools', async () => {
+    const pool = new ProviderPool([{ url: 'http://localhost:8545', priority: 1 }], { failureThreshold: 2 });
+    const metrics = new Metrics();
+    metrics.addProviderPools(new Map([['ethereum', pool]]));
+
+    const { id } = await pool.getProvider();
+    await pool.reportFailure(id, new Error('timeout'));
+    await pool.reportFailure(id, new Error('timeout'));
+
+    const output = await metrics.render();
+
+    expect(output).toContain(`chaintap_provider_healthy{chain="ethereum",provider="${id}"} 0`);
+    expect(output).toContain(`chaintap_provider_failures_total{chain="ethereum",provider="${id}"} 2`);
+    expect(output).toContain(`chaintap_provider_selections_total{chain="ethereum",provider="${id}"} 1`);
+    await pool.destroy();
+  });
+});